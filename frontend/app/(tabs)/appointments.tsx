@@ -1,57 +1,516 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
   ScrollView,
+  FlatList,
   StyleSheet,
   TouchableOpacity,
   TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
 } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { useTheme } from '@/contexts/ThemeContext';
-import { Calendar, Clock, Search, Plus, User, CircleCheck as CheckCircle, CircleAlert as AlertCircle, Circle as XCircle, Calendar as CalendarIcon } from 'lucide-react-native';
+import {
+  Calendar,
+  Clock,
+  Search,
+  Plus,
+  User,
+  CircleCheck as CheckCircle,
+  CircleAlert as AlertCircle,
+  Circle as XCircle,
+  Calendar as CalendarIcon,
+  Stethoscope,
+  Tag,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Repeat,
+  Armchair,
+  LogIn,
+  CalendarPlus,
+  CalendarSync,
+  ListOrdered,
+} from 'lucide-react-native';
+import {
+  ListResult,
+  MAX_LIST_ITEMS,
+  NetworkError,
+  appointmentsApi,
+  usersApi,
+} from '@/utils/api';
 import { Appointment } from '@/types';
+import Can from '@/components/Can';
+import OptionPickerModal from '@/components/OptionPickerModal';
+import BookingWizard from '@/components/BookingWizard';
+import CalendarImportModal from '@/components/CalendarImportModal';
+import WaitlistOfferModal from '@/components/WaitlistOfferModal';
+import CalendarDayView from '@/components/CalendarDayView';
+import CalendarWeekView from '@/components/CalendarWeekView';
+import CalendarMonthView from '@/components/CalendarMonthView';
+import UndoSnackbar from '@/components/UndoSnackbar';
+import AppointmentEditModal from '@/components/AppointmentEditModal';
+import {
+  fetchAllAppointments,
+  useAppointmentsInRange,
+} from '@/hooks/useAppointmentsInRange';
+import {
+  AppointmentMove,
+  AppointmentSchedule,
+  useAppointmentReschedule,
+} from '@/hooks/useAppointmentReschedule';
+import { useAppointmentSeries } from '@/hooks/useAppointmentSeries';
+import { useAppointmentStatus } from '@/hooks/useAppointmentStatus';
+import { usePermission } from '@/hooks/usePermission';
+import {
+  CalendarColumn,
+  CalendarView,
+  addDays,
+  formatCalendarTitle,
+  getCalendarDays,
+  getCalendarRange,
+  shiftAnchor,
+} from '@/utils/calendar';
+import {
+  STATUS_COLORS,
+  TYPE_COLORS,
+  getStatusColor,
+} from '@/utils/appointment-colors';
+import {
+  SERIES_EDIT_SCOPES,
+  SeriesEditScope,
+  describeRecurrence,
+} from '@/utils/recurrence';
+import {
+  ICS_MIME_TYPE,
+  ICS_UTI,
+  buildCalendar,
+  calendarFilename,
+} from '@/utils/ics';
+import { shareFile } from '@/utils/files';
+import {
+  VISIT_STATUSES,
+  VISIT_STATUS_LABELS,
+  VisitStatus,
+  canCheckIn,
+  isAwaited,
+} from '@/utils/waiting-room';
+import {
+  FreedSlot,
+  isUpcomingSlot,
+  slotFromAppointment,
+} from '@/utils/waitlist';
+import { rangeFromParams, statusesFromParam } from '@/utils/drill-down';
+import { formatReportRange } from '@/utils/reports';
+import { toDateKey } from '@/utils/scheduling';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type DateRangeKey = 'today' | 'week' | 'month' | 'upcoming' | 'all';
+type FilterPicker = 'date' | 'doctor' | 'type' | 'calendar-file';
+type CalendarFileAction = 'export' | 'import';
+type ViewMode = 'list' | CalendarView;
+
+const DATE_RANGES: {
+  value: DateRangeKey;
+  label: string;
+  range: () => { dateFrom?: string; dateTo?: string };
+}[] = [
+  {
+    value: 'today',
+    label: 'Today',
+    range: () => ({
+      dateFrom: toDateKey(new Date()),
+      dateTo: toDateKey(new Date()),
+    }),
+  },
+  {
+    value: 'week',
+    label: 'Next 7 Days',
+    range: () => ({
+      dateFrom: toDateKey(new Date()),
+      dateTo: toDateKey(addDays(new Date(), 6)),
+    }),
+  },
+  {
+    value: 'month',
+    label: 'Next 30 Days',
+    range: () => ({
+      dateFrom: toDateKey(new Date()),
+      dateTo: toDateKey(addDays(new Date(), 29)),
+    }),
+  },
+  {
+    value: 'upcoming',
+    label: 'All Upcoming',
+    range: () => ({ dateFrom: toDateKey(new Date()) }),
+  },
+  { value: 'all', label: 'All Dates', range: () => ({}) },
+];
+
+const APPOINTMENT_TYPES: { value: string; label: string }[] = [
+  { value: '', label: 'All Types' },
+  { value: 'checkup', label: 'Checkup' },
+  { value: 'consultation', label: 'Consultation' },
+  { value: 'followup', label: 'Follow-up' },
+  { value: 'emergency', label: 'Emergency' },
+];
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'list', label: 'List' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+const CALENDAR_FILE_ACTIONS: { value: CalendarFileAction; label: string }[] = [
+  { value: 'export', label: 'Export to Calendar (.ics)' },
+  { value: 'import', label: 'Import from .ics' },
+];
+
+const describeMove = ({ appointment, previous, next }: AppointmentMove) => {
+  if (next.duration !== previous.duration) {
+    return `${appointment.patientName} now ${next.duration} min`;
+  }
+  const doctor =
+    next.doctorId !== previous.doctorId ? ` with ${next.doctorName}` : '';
+  return `${appointment.patientName} moved to ${next.time}${doctor}`;
+};
 
 export default function AppointmentsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'scheduled' | 'confirmed' | 'completed' | 'cancelled'>('all');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // The filters live in the route params, so a filtered list can be
+  // bookmarked or shared, and reports can open one. A dateFrom and dateTo
+  // pair overrides the range preset.
+  const params = useLocalSearchParams<{
+    range?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    status?: string;
+    doctor?: string;
+    type?: string;
+  }>();
+  const customRange = rangeFromParams(params.dateFrom, params.dateTo);
+  const dateRange =
+    DATE_RANGES.find(({ value }) => value === params.range) ?? DATE_RANGES[0];
+  const filterStatuses = statusesFromParam(params.status);
+  const filterDoctor = params.doctor ?? '';
+  const filterType =
+    APPOINTMENT_TYPES.find(({ value }) => value === params.type)?.value ?? '';
+  const [activePicker, setActivePicker] = useState<FilterPicker | null>(null);
+  const [showBooking, setShowBooking] = useState(false);
+  const [showCalendarImport, setShowCalendarImport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
   const { theme, isDark } = useTheme();
+  const canReschedule = usePermission('appointments:update');
+  const canCreate = usePermission('appointments:create');
+  const {
+    reschedule,
+    undo,
+    lastMove,
+    dismissUndo,
+    isPending: isRescheduling,
+  } = useAppointmentReschedule();
+  const {
+    editSeries,
+    cancelSeries,
+    isPending: isEditingSeries,
+  } = useAppointmentSeries();
+  const { checkIn, cancel, pendingId: checkingInId } = useAppointmentStatus();
+  // Set after a cancellation so the freed slot can go to the waitlist
+  const [freedSlot, setFreedSlot] = useState<FreedSlot | null>(null);
+  // A series occurrence waiting on the this / following / whole series choice
+  const [pendingSeriesChange, setPendingSeriesChange] = useState<
+    | { appointment: Appointment; changes: Partial<AppointmentSchedule> }
+    | { appointment: Appointment; cancel: true }
+    | null
+  >(null);
+  const [editingAppointment, setEditingAppointment] =
+    useState<Appointment | null>(null);
+
+  const setDateRange = (range: DateRangeKey) =>
+    router.setParams({ range, dateFrom: undefined, dateTo: undefined });
+  const setFilterStatus = (status: 'all' | VisitStatus) =>
+    router.setParams({ status: status === 'all' ? undefined : status });
+  const setFilterDoctor = (doctor: string) =>
+    router.setParams({ doctor: doctor || undefined });
+  const setFilterType = (type: string) =>
+    router.setParams({ type: type || undefined });
+  const dateRangeLabel = customRange
+    ? formatReportRange(customRange)
+    : dateRange.label;
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedSearch(searchQuery.trim()),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-  const { data: appointments = [], isLoading } = useQuery({
-    queryKey: ['appointments'],
-    queryFn: async (): Promise<Appointment[]> => {
-      const response = await fetch('/api/appointments');
-      if (!response.ok) throw new Error('Failed to fetch appointments');
-      return response.json();
+  // Only the filters that are set are sent, so the server does the narrowing.
+  // The calendar views share these and swap the date range for their own.
+  const sharedFilters: Record<string, string> = {
+    ...(debouncedSearch && { search: debouncedSearch }),
+    ...(filterStatuses.length > 0 && { status: filterStatuses.join(',') }),
+    ...(filterDoctor && { doctor: filterDoctor }),
+    ...(filterType && { type: filterType }),
+  };
+  const filters: Record<string, string> = {
+    ...(customRange ?? dateRange.range()),
+    ...sharedFilters,
+  };
+  const calendarView = viewMode === 'list' ? null : viewMode;
+
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['appointments', 'list', filters],
+    queryFn: ({ pageParam }) =>
+      appointmentsApi.getAll({
+        ...filters,
+        page: String(pageParam),
+        limit: String(PAGE_SIZE),
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => {
+      const pagination = lastPage.pagination;
+      return pagination && pagination.currentPage < pagination.totalPages
+        ? pagination.currentPage + 1
+        : undefined;
     },
+    enabled: !calendarView,
   });
 
-  const filteredAppointments = appointments.filter(appointment => {
-    const matchesSearch = appointment.patientName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         appointment.doctorName.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesDate = selectedDate === 'all' || appointment.date === selectedDate;
-    const matchesStatus = filterStatus === 'all' || appointment.status === filterStatus;
-    
-    return matchesSearch && matchesDate && matchesStatus;
+  const calendarQuery = useAppointmentsInRange(
+    {
+      ...sharedFilters,
+      ...getCalendarRange(calendarView ?? 'day', anchorDate),
+    },
+    !!calendarView
+  );
+  const calendarAppointments = calendarQuery.data?.items ?? [];
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors'],
+    queryFn: async () => {
+      const response = await usersApi.getDoctors();
+      return response.data ?? [];
+    },
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed': return '#10B981';
-      case 'completed': return '#06B6D4';
-      case 'cancelled': return '#EF4444';
-      default: return '#F59E0B';
+  const appointments = data?.pages.flatMap((page) => page.data ?? []) ?? [];
+  const totalAppointments = calendarView
+    ? calendarAppointments.length
+    : (data?.pages[0]?.pagination?.totalItems ?? appointments.length);
+  const hasFilters =
+    !!debouncedSearch ||
+    filterStatuses.length > 0 ||
+    !!filterDoctor ||
+    !!filterType;
+
+  const doctorOptions = [
+    { value: '', label: 'All Doctors' },
+    ...doctors.map((doctor) => ({
+      value: doctor.id,
+      label: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+    })),
+  ];
+
+  // One column per doctor; anyone booked but missing from the doctor list
+  // still gets a column so their appointments are not hidden
+  const calendarColumns: CalendarColumn[] = doctors
+    .filter(({ id }) => !filterDoctor || id === filterDoctor)
+    .map((doctor) => ({
+      id: doctor.id,
+      name: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+    }));
+  calendarAppointments.forEach(({ doctorId, doctorName }) => {
+    if (!calendarColumns.some(({ id }) => id === doctorId)) {
+      calendarColumns.push({ id: doctorId, name: doctorName });
+    }
+  });
+
+  // Drags in the day view and the card's Edit both come through here
+  const moveAppointment = (
+    appointment: Appointment,
+    changes: Partial<AppointmentSchedule>
+  ) => {
+    if (appointment.seriesId) {
+      setPendingSeriesChange({ appointment, changes });
+    } else {
+      reschedule(appointment, changes);
+    }
+  };
+
+  const saveEdit = (changes: AppointmentSchedule) => {
+    const appointment = editingAppointment!;
+    setEditingAppointment(null);
+    moveAppointment(appointment, changes);
+  };
+
+  const applySeriesChange = (scope: SeriesEditScope) => {
+    if (!pendingSeriesChange) {
+      return;
+    }
+
+    const { appointment } = pendingSeriesChange;
+    if ('cancel' in pendingSeriesChange) {
+      if (scope === 'this') {
+        cancelAppointment(appointment);
+      } else {
+        cancelSeries(appointment, scope);
+      }
+    } else if (scope === 'this') {
+      reschedule(appointment, pendingSeriesChange.changes);
+    } else {
+      editSeries(appointment, pendingSeriesChange.changes, scope);
+    }
+  };
+
+  const openDay = (date: Date) => {
+    setAnchorDate(date);
+    setViewMode('day');
+  };
+
+  const loadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  const exportCalendar = async (
+    label: string,
+    loadAppointments: () => Promise<ListResult<Appointment>>
+  ) => {
+    setIsExporting(true);
+    try {
+      const { items: exported, partial } = await loadAppointments();
+      if (exported.length === 0) {
+        Alert.alert(
+          'Nothing to Export',
+          'There are no appointments to add to a calendar.'
+        );
+        return;
+      }
+
+      await shareFile({
+        filename: calendarFilename(label),
+        contents: buildCalendar(exported),
+        mimeType: ICS_MIME_TYPE,
+        uti: ICS_UTI,
+      });
+
+      if (partial) {
+        Alert.alert(
+          'Export Incomplete',
+          `Only the first ${MAX_LIST_ITEMS.toLocaleString()} appointments could be loaded, so the rest were left out.`
+        );
+      }
+    } catch (error: any) {
+      console.error('Error exporting calendar:', error);
+      Alert.alert(
+        error instanceof NetworkError ? 'Offline' : 'Error',
+        error instanceof NetworkError
+          ? 'Connect to the internet to export appointments.'
+          : error.message || 'Failed to export appointments'
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Exports exactly what the current view shows, across every page
+  const exportVisibleRange = () =>
+    exportCalendar(
+      calendarView
+        ? formatCalendarTitle(calendarView, anchorDate)
+        : dateRangeLabel,
+      async () =>
+        calendarView
+          ? {
+              items: calendarAppointments,
+              partial: !!calendarQuery.data?.partial,
+            }
+          : fetchAllAppointments(filters)
+    );
+
+  const exportAppointment = (appointment: Appointment) => {
+    const single = () =>
+      exportCalendar(
+        `${appointment.patientName} ${appointment.date.split('T')[0]}`,
+        async () => ({ items: [appointment], partial: false })
+      );
+
+    if (!appointment.seriesId) {
+      single();
+      return;
+    }
+
+    Alert.alert(
+      'Add to Calendar',
+      'This appointment is part of a recurring series.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'This Appointment', onPress: single },
+        {
+          text: 'Entire Series',
+          onPress: () =>
+            exportCalendar(`${appointment.patientName} series`, () =>
+              fetchAllAppointments({ seriesId: appointment.seriesId! })
+            ),
+        },
+      ]
+    );
+  };
+
+  const selectCalendarFileAction = (action: CalendarFileAction) => {
+    if (action === 'import') {
+      setShowCalendarImport(true);
+    } else {
+      exportVisibleRange();
     }
   };
 
+  const cancelAppointment = (appointment: Appointment) =>
+    cancel(appointment, () => {
+      const slot = slotFromAppointment(appointment);
+      if (canCreate && isUpcomingSlot(slot)) {
+        setFreedSlot(slot);
+      }
+    });
+
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'confirmed': return CheckCircle;
-      case 'completed': return CheckCircle;
-      case 'cancelled': return XCircle;
-      default: return AlertCircle;
+      case 'confirmed':
+        return CheckCircle;
+      case 'checked-in':
+        return LogIn;
+      case 'in-progress':
+        return Stethoscope;
+      case 'completed':
+        return CheckCircle;
+      case 'cancelled':
+        return XCircle;
+      case 'no-show':
+        return XCircle;
+      default:
+        return AlertCircle;
     }
   };
 
@@ -60,52 +519,199 @@ export default function AppointmentsScreen() {
     const statusColor = getStatusColor(appointment.status);
 
     return (
-      <View style={[styles.appointmentCard, { 
-        backgroundColor: theme.colors.card,
-        shadowColor: theme.colors.shadow,
-      }]}>
+      <View
+        style={[
+          styles.appointmentCard,
+          {
+            backgroundColor: theme.colors.card,
+            shadowColor: theme.colors.shadow,
+          },
+        ]}
+      >
         <View style={styles.appointmentHeader}>
           <View style={styles.timeContainer}>
-            <Text style={[styles.timeText, { color: theme.colors.text }]}>{appointment.time}</Text>
-            <Text style={[styles.durationText, { color: theme.colors.textSecondary }]}>{appointment.duration} min</Text>
-          </View>
-          <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
-            <StatusIcon size={12} color={statusColor} />
-            <Text style={[styles.statusText, { color: statusColor }]}>
-              {appointment.status}
+            <Text style={[styles.timeText, { color: theme.colors.text }]}>
+              {appointment.time}
+            </Text>
+            <Text
+              style={[
+                styles.durationText,
+                { color: theme.colors.textSecondary },
+              ]}
+            >
+              {appointment.duration} min
             </Text>
           </View>
+          <View style={styles.headerActions}>
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: statusColor + '20' },
+              ]}
+            >
+              <StatusIcon size={12} color={statusColor} />
+              <Text style={[styles.statusText, { color: statusColor }]}>
+                {VISIT_STATUS_LABELS[appointment.status] ?? appointment.status}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.calendarButton}
+              onPress={() => exportAppointment(appointment)}
+              disabled={isExporting}
+              accessibilityLabel={`Add ${appointment.patientName}'s appointment to calendar`}
+            >
+              <CalendarPlus size={18} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.appointmentContent}>
           <View style={styles.patientInfo}>
-            <View style={[styles.patientAvatar, { backgroundColor: theme.colors.primary }]}>
+            <View
+              style={[
+                styles.patientAvatar,
+                { backgroundColor: theme.colors.primary },
+              ]}
+            >
               <User size={16} color="#FFFFFF" />
             </View>
             <View style={styles.patientDetails}>
-              <Text style={[styles.patientName, { color: theme.colors.text }]}>{appointment.patientName}</Text>
-              <Text style={[styles.appointmentType, { color: theme.colors.textSecondary }]}>{appointment.type}</Text>
+              <Text style={[styles.patientName, { color: theme.colors.text }]}>
+                {appointment.patientName}
+              </Text>
+              <Text
+                style={[
+                  styles.appointmentType,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                {appointment.type}
+              </Text>
+              {appointment.recurrence && (
+                <View style={styles.recurrence}>
+                  <Repeat size={12} color={theme.colors.textSecondary} />
+                  <Text
+                    style={[
+                      styles.recurrenceText,
+                      { color: theme.colors.textSecondary },
+                    ]}
+                  >
+                    {describeRecurrence(appointment.recurrence)}
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
 
           <View style={styles.doctorInfo}>
-            <Text style={[styles.doctorLabel, { color: theme.colors.textSecondary }]}>Doctor:</Text>
-            <Text style={[styles.doctorName, { color: theme.colors.text }]}>{appointment.doctorName}</Text>
+            <Text
+              style={[
+                styles.doctorLabel,
+                { color: theme.colors.textSecondary },
+              ]}
+            >
+              Doctor:
+            </Text>
+            <Text style={[styles.doctorName, { color: theme.colors.text }]}>
+              {appointment.doctorName}
+            </Text>
           </View>
 
           {appointment.notes && (
-            <View style={[styles.notesContainer, { backgroundColor: theme.colors.surface }]}>
-              <Text style={[styles.notesLabel, { color: theme.colors.text }]}>Notes:</Text>
-              <Text style={[styles.notesText, { color: theme.colors.textSecondary }]}>{appointment.notes}</Text>
+            <View
+              style={[
+                styles.notesContainer,
+                { backgroundColor: theme.colors.surface },
+              ]}
+            >
+              <Text style={[styles.notesLabel, { color: theme.colors.text }]}>
+                Notes:
+              </Text>
+              <Text
+                style={[
+                  styles.notesText,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                {appointment.notes}
+              </Text>
             </View>
           )}
         </View>
 
         <View style={styles.appointmentActions}>
-          <TouchableOpacity style={[styles.actionButton, { backgroundColor: theme.colors.surface }]}>
-            <Text style={[styles.actionButtonText, { color: theme.colors.textSecondary }]}>Edit</Text>
-          </TouchableOpacity>
-          <TouchableOpacity style={[styles.actionButton, styles.primaryAction, { backgroundColor: theme.colors.primary }]}>
+          {canCheckIn(appointment) && (
+            <Can permission="appointments:check-in">
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: getStatusColor('checked-in') },
+                ]}
+                onPress={() => checkIn(appointment)}
+                disabled={checkingInId === appointment.id}
+                accessibilityLabel={`Check in ${appointment.patientName}`}
+              >
+                <Text
+                  style={[styles.actionButtonText, styles.primaryActionText]}
+                >
+                  Check In
+                </Text>
+              </TouchableOpacity>
+            </Can>
+          )}
+          <Can permission="appointments:update">
+            {isAwaited(appointment) && (
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: theme.colors.surface },
+                ]}
+                onPress={() => setEditingAppointment(appointment)}
+                disabled={isRescheduling || isEditingSeries}
+                accessibilityLabel={`Edit ${appointment.patientName}'s appointment`}
+              >
+                <Text
+                  style={[
+                    styles.actionButtonText,
+                    { color: theme.colors.textSecondary },
+                  ]}
+                >
+                  Edit
+                </Text>
+              </TouchableOpacity>
+            )}
+            {isAwaited(appointment) && (
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: theme.colors.surface },
+                ]}
+                onPress={() =>
+                  appointment.seriesId
+                    ? setPendingSeriesChange({ appointment, cancel: true })
+                    : cancelAppointment(appointment)
+                }
+                disabled={checkingInId === appointment.id}
+                accessibilityLabel={`Cancel ${appointment.patientName}'s appointment`}
+              >
+                <Text
+                  style={[
+                    styles.actionButtonText,
+                    { color: theme.colors.error },
+                  ]}
+                >
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+            )}
+          </Can>
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              styles.primaryAction,
+              { backgroundColor: theme.colors.primary },
+            ]}
+          >
             <Text style={[styles.actionButtonText, styles.primaryActionText]}>
               {appointment.status === 'scheduled' ? 'Confirm' : 'View'}
             </Text>
@@ -141,6 +747,12 @@ export default function AppointmentsScreen() {
       fontFamily: 'Inter-Regular',
       color: 'rgba(255, 255, 255, 0.8)',
     },
+    headerButtons: {
+      flexDirection: 'row',
+    },
+    waitingRoomButton: {
+      marginRight: 8,
+    },
     addButton: {
       width: 48,
       height: 48,
@@ -191,34 +803,143 @@ export default function AppointmentsScreen() {
     activeStatusFilterText: {
       color: '#8B5CF6',
     },
-    dateSelector: {
-      flexDirection: 'row',
-      alignItems: 'center',
-      justifyContent: 'space-between',
+    filterBar: {
+      flexGrow: 0,
       backgroundColor: theme.colors.card,
-      paddingHorizontal: 24,
-      paddingVertical: 16,
       borderBottomWidth: 1,
       borderBottomColor: theme.colors.border,
     },
-    dateSelectorText: {
-      flex: 1,
-      fontSize: 16,
+    filterBarContent: {
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+    },
+    filterPill: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+    },
+    activeFilterPill: {
+      borderColor: theme.colors.primary,
+    },
+    filterPillText: {
+      fontSize: 14,
       fontFamily: 'Inter-Medium',
-      color: theme.colors.text,
-      marginLeft: 12,
+      color: theme.colors.textSecondary,
+      marginHorizontal: 6,
     },
-    changeDateButton: {
-      paddingHorizontal: 16,
+    activeFilterPillText: {
+      color: theme.colors.primary,
+    },
+    viewSwitcher: {
+      flexDirection: 'row',
+      marginHorizontal: 24,
+      marginTop: 12,
+      padding: 4,
+      borderRadius: 10,
+      backgroundColor: theme.colors.surface,
+    },
+    viewOption: {
+      flex: 1,
       paddingVertical: 8,
       borderRadius: 8,
-      backgroundColor: theme.colors.surface,
+      alignItems: 'center',
     },
-    changeDateText: {
+    activeViewOption: {
+      backgroundColor: theme.colors.card,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.08,
+      shadowRadius: 2,
+      elevation: 1,
+    },
+    viewOptionText: {
       fontSize: 14,
       fontFamily: 'Inter-Medium',
       color: theme.colors.textSecondary,
     },
+    activeViewOptionText: {
+      color: theme.colors.primary,
+      fontFamily: 'Inter-SemiBold',
+    },
+    calendarNav: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
+    navButton: {
+      padding: 8,
+    },
+    calendarTitle: {
+      flex: 1,
+      textAlign: 'center',
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    todayButton: {
+      marginLeft: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.primary,
+    },
+    todayButtonText: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+    },
+    legend: {
+      flexGrow: 0,
+    },
+    partialNotice: {
+      paddingHorizontal: 24,
+      paddingBottom: 8,
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.warning,
+    },
+    legendContent: {
+      paddingHorizontal: 24,
+      paddingBottom: 8,
+      alignItems: 'center',
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginRight: 12,
+    },
+    legendStatus: {
+      width: 4,
+      height: 12,
+      borderRadius: 2,
+      marginRight: 4,
+    },
+    legendType: {
+      width: 12,
+      height: 12,
+      borderRadius: 3,
+      marginRight: 4,
+    },
+    legendText: {
+      fontSize: 11,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+      textTransform: 'capitalize',
+    },
+    legendDivider: {
+      width: 1,
+      height: 12,
+      backgroundColor: theme.colors.border,
+      marginRight: 12,
+    },
     content: {
       flex: 1,
     },
@@ -256,6 +977,9 @@ export default function AppointmentsScreen() {
     appointmentsList: {
       padding: 24,
     },
+    footerLoader: {
+      paddingBottom: 24,
+    },
     appointmentCard: {
       borderRadius: 12,
       padding: 16,
@@ -286,6 +1010,14 @@ export default function AppointmentsScreen() {
       fontFamily: 'Inter-Regular',
       marginTop: 2,
     },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    calendarButton: {
+      marginLeft: 8,
+      padding: 4,
+    },
     statusBadge: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -328,6 +1060,16 @@ export default function AppointmentsScreen() {
       marginTop: 2,
       textTransform: 'capitalize',
     },
+    recurrence: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 4,
+    },
+    recurrenceText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      marginLeft: 4,
+    },
     doctorInfo: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -359,10 +1101,11 @@ export default function AppointmentsScreen() {
     },
     appointmentActions: {
       flexDirection: 'row',
-      justifyContent: 'space-between',
+      marginHorizontal: -4,
     },
     actionButton: {
-      flex: 0.48,
+      flex: 1,
+      marginHorizontal: 4,
       paddingVertical: 10,
       borderRadius: 8,
       alignItems: 'center',
@@ -388,12 +1131,45 @@ export default function AppointmentsScreen() {
           <View>
             <Text style={styles.headerTitle}>Appointments</Text>
             <Text style={styles.headerSubtitle}>
-              {appointments.length} total appointments
+              {totalAppointments} total appointments
             </Text>
           </View>
-          <TouchableOpacity style={styles.addButton}>
-            <Plus size={24} color="#FFFFFF" />
-          </TouchableOpacity>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={[styles.addButton, styles.waitingRoomButton]}
+              onPress={() => router.push('/waiting-room')}
+              accessibilityLabel="Waiting room"
+            >
+              <Armchair size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, styles.waitingRoomButton]}
+              onPress={() => router.push('/waitlist')}
+              accessibilityLabel="Waitlist"
+            >
+              <ListOrdered size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, styles.waitingRoomButton]}
+              onPress={() => setActivePicker('calendar-file')}
+              disabled={isExporting}
+              accessibilityLabel="Calendar file"
+            >
+              {isExporting ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <CalendarSync size={22} color="#FFFFFF" />
+              )}
+            </TouchableOpacity>
+            <Can permission="appointments:create">
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setShowBooking(true)}
+              >
+                <Plus size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </Can>
+          </View>
         </View>
 
         {/* Search and Filters */}
@@ -411,71 +1187,343 @@ export default function AppointmentsScreen() {
         </View>
 
         {/* Status Filter */}
-        <ScrollView 
-          horizontal 
+        <ScrollView
+          horizontal
           showsHorizontalScrollIndicator={false}
           style={styles.statusFilters}
         >
-          {['all', 'scheduled', 'confirmed', 'completed', 'cancelled'].map((status) => (
-            <TouchableOpacity
-              key={status}
+          {(['all', ...VISIT_STATUSES] as const).map((status) => {
+            // A report can select several statuses at once, such as cancelled and no-show
+            const active =
+              status === 'all'
+                ? filterStatuses.length === 0
+                : filterStatuses.includes(status);
+            return (
+              <TouchableOpacity
+                key={status}
+                style={[
+                  styles.statusFilter,
+                  active && styles.activeStatusFilter,
+                ]}
+                onPress={() => setFilterStatus(status)}
+              >
+                <Text
+                  style={[
+                    styles.statusFilterText,
+                    active && styles.activeStatusFilterText,
+                  ]}
+                >
+                  {status === 'all' ? 'All' : VISIT_STATUS_LABELS[status]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </LinearGradient>
+
+      {/* Date, Doctor and Type Filters */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterBar}
+        contentContainerStyle={styles.filterBarContent}
+      >
+        {(
+          [
+            ...(calendarView
+              ? []
+              : ([
+                  {
+                    picker: 'date',
+                    icon: CalendarIcon,
+                    label: dateRangeLabel,
+                    active: !!customRange || dateRange.value !== 'all',
+                  },
+                ] as const)),
+            {
+              picker: 'doctor',
+              icon: Stethoscope,
+              label:
+                doctorOptions.find(({ value }) => value === filterDoctor)
+                  ?.label ?? 'All Doctors',
+              active: !!filterDoctor,
+            },
+            {
+              picker: 'type',
+              icon: Tag,
+              label: APPOINTMENT_TYPES.find(
+                ({ value }) => value === filterType
+              )!.label,
+              active: !!filterType,
+            },
+          ] as const
+        ).map(({ picker, icon: Icon, label, active }) => (
+          <TouchableOpacity
+            key={picker}
+            style={[styles.filterPill, active && styles.activeFilterPill]}
+            onPress={() => setActivePicker(picker)}
+          >
+            <Icon
+              size={16}
+              color={active ? theme.colors.primary : theme.colors.textSecondary}
+            />
+            <Text
               style={[
-                styles.statusFilter,
-                filterStatus === status && styles.activeStatusFilter
+                styles.filterPillText,
+                active && styles.activeFilterPillText,
               ]}
-              onPress={() => setFilterStatus(status as any)}
             >
-              <Text style={[
-                styles.statusFilterText,
-                filterStatus === status && styles.activeStatusFilterText
-              ]}>
-                {status.charAt(0).toUpperCase() + status.slice(1)}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </ScrollView>
-      </LinearGradient>
+              {label}
+            </Text>
+            <ChevronDown
+              size={14}
+              color={active ? theme.colors.primary : theme.colors.textSecondary}
+            />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
 
-      {/* Date Selector */}
-      <View style={styles.dateSelector}>
-        <CalendarIcon size={20} color={theme.colors.textSecondary} />
-        <Text style={styles.dateSelectorText}>
-          {new Date(selectedDate).toLocaleDateString('en-US', { 
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-          })}
-        </Text>
-        <TouchableOpacity style={styles.changeDateButton}>
-          <Text style={styles.changeDateText}>Change</Text>
-        </TouchableOpacity>
+      {/* View Switcher */}
+      <View style={styles.viewSwitcher}>
+        {VIEW_MODES.map(({ value, label }) => (
+          <TouchableOpacity
+            key={value}
+            style={[
+              styles.viewOption,
+              viewMode === value && styles.activeViewOption,
+            ]}
+            onPress={() => setViewMode(value)}
+          >
+            <Text
+              style={[
+                styles.viewOptionText,
+                viewMode === value && styles.activeViewOptionText,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
 
-      {/* Appointments List */}
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {isLoading ? (
-          <View style={styles.loadingContainer}>
-            <Text style={styles.loadingText}>Loading appointments...</Text>
-          </View>
-        ) : filteredAppointments.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Calendar size={48} color={theme.colors.disabled} />
-            <Text style={styles.emptyTitle}>No Appointments Found</Text>
-            <Text style={styles.emptyText}>
-              {searchQuery || filterStatus !== 'all' 
-                ? 'Try adjusting your search or filters' 
-                : 'No appointments scheduled for this date'}
+      {calendarView ? (
+        <View style={styles.content}>
+          <View style={styles.calendarNav}>
+            <TouchableOpacity
+              style={styles.navButton}
+              onPress={() =>
+                setAnchorDate(shiftAnchor(calendarView, anchorDate, -1))
+              }
+            >
+              <ChevronLeft size={20} color={theme.colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.calendarTitle}>
+              {formatCalendarTitle(calendarView, anchorDate)}
             </Text>
+            <TouchableOpacity
+              style={styles.navButton}
+              onPress={() =>
+                setAnchorDate(shiftAnchor(calendarView, anchorDate, 1))
+              }
+            >
+              <ChevronRight size={20} color={theme.colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.todayButton}
+              onPress={() => setAnchorDate(new Date())}
+            >
+              <Text style={styles.todayButtonText}>Today</Text>
+            </TouchableOpacity>
           </View>
-        ) : (
-          <View style={styles.appointmentsList}>
-            {filteredAppointments.map((appointment) => (
-              <AppointmentCard key={appointment.id} appointment={appointment} />
+
+          {/* Edge colour is the status, fill is the type */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.legend}
+            contentContainerStyle={styles.legendContent}
+          >
+            {Object.entries(STATUS_COLORS).map(([status, color]) => (
+              <View key={status} style={styles.legendItem}>
+                <View
+                  style={[styles.legendStatus, { backgroundColor: color }]}
+                />
+                <Text style={styles.legendText}>{status}</Text>
+              </View>
             ))}
-          </View>
+            <View style={styles.legendDivider} />
+            {Object.entries(TYPE_COLORS).map(([type, color]) => (
+              <View key={type} style={styles.legendItem}>
+                <View
+                  style={[
+                    styles.legendType,
+                    {
+                      backgroundColor: color + '26',
+                      borderWidth: 1,
+                      borderColor: color,
+                    },
+                  ]}
+                />
+                <Text style={styles.legendText}>{type}</Text>
+              </View>
+            ))}
+          </ScrollView>
+
+          {calendarQuery.data?.partial && (
+            <Text style={styles.partialNotice}>
+              Only the first {MAX_LIST_ITEMS.toLocaleString()} appointments in
+              this range are shown
+            </Text>
+          )}
+
+          {calendarQuery.isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator color={theme.colors.primary} />
+            </View>
+          ) : calendarView === 'day' ? (
+            <CalendarDayView
+              appointments={calendarAppointments}
+              columns={calendarColumns}
+              onMoveAppointment={
+                canReschedule && !isRescheduling && !isEditingSeries
+                  ? moveAppointment
+                  : undefined
+              }
+            />
+          ) : calendarView === 'week' ? (
+            <CalendarWeekView
+              days={getCalendarDays('week', anchorDate)}
+              appointments={calendarAppointments}
+              doctors={calendarColumns}
+              onSelectDay={openDay}
+            />
+          ) : (
+            <CalendarMonthView
+              month={anchorDate}
+              days={getCalendarDays('month', anchorDate)}
+              appointments={calendarAppointments}
+              onSelectDay={openDay}
+            />
+          )}
+        </View>
+      ) : (
+        <FlatList
+          style={styles.content}
+          contentContainerStyle={
+            appointments.length > 0 && styles.appointmentsList
+          }
+          data={appointments}
+          keyExtractor={(appointment) => appointment.id}
+          renderItem={({ item }) => <AppointmentCard appointment={item} />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching && !isFetchingNextPage}
+              onRefresh={refetch}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            isLoading ? (
+              <View style={styles.loadingContainer}>
+                <Text style={styles.loadingText}>Loading appointments...</Text>
+              </View>
+            ) : (
+              <View style={styles.emptyContainer}>
+                <Calendar size={48} color={theme.colors.disabled} />
+                <Text style={styles.emptyTitle}>No Appointments Found</Text>
+                <Text style={styles.emptyText}>
+                  {hasFilters
+                    ? 'Try adjusting your search or filters'
+                    : 'No appointments scheduled for these dates'}
+                </Text>
+              </View>
+            )
+          }
+          ListFooterComponent={
+            isFetchingNextPage ? (
+              <ActivityIndicator
+                style={styles.footerLoader}
+                color={theme.colors.primary}
+              />
+            ) : null
+          }
+        />
+      )}
+
+      <OptionPickerModal
+        visible={activePicker === 'date'}
+        title="Date Range"
+        options={DATE_RANGES}
+        selected={customRange ? null : dateRange.value}
+        onSelect={setDateRange}
+        onClose={() => setActivePicker(null)}
+      />
+      <OptionPickerModal
+        visible={activePicker === 'doctor'}
+        title="Doctor"
+        options={doctorOptions}
+        selected={filterDoctor}
+        onSelect={setFilterDoctor}
+        onClose={() => setActivePicker(null)}
+      />
+      <OptionPickerModal
+        visible={activePicker === 'type'}
+        title="Appointment Type"
+        options={APPOINTMENT_TYPES}
+        selected={filterType}
+        onSelect={setFilterType}
+        onClose={() => setActivePicker(null)}
+      />
+
+      <OptionPickerModal
+        visible={activePicker === 'calendar-file'}
+        title="Calendar File"
+        options={CALENDAR_FILE_ACTIONS.filter(
+          ({ value }) => value !== 'import' || canCreate
         )}
-      </ScrollView>
+        selected={'' as CalendarFileAction}
+        onSelect={selectCalendarFileAction}
+        onClose={() => setActivePicker(null)}
+      />
+
+      <OptionPickerModal
+        visible={!!pendingSeriesChange}
+        title={
+          pendingSeriesChange && 'cancel' in pendingSeriesChange
+            ? 'Cancel'
+            : 'Apply Change To'
+        }
+        options={SERIES_EDIT_SCOPES}
+        selected={'this' as SeriesEditScope}
+        onSelect={applySeriesChange}
+        onClose={() => setPendingSeriesChange(null)}
+      />
+
+      <AppointmentEditModal
+        appointment={editingAppointment}
+        doctors={doctors}
+        onSave={saveEdit}
+        onClose={() => setEditingAppointment(null)}
+      />
+
+      <UndoSnackbar
+        message={lastMove && describeMove(lastMove)}
+        disabled={isRescheduling}
+        onUndo={undo}
+        onDismiss={dismissUndo}
+      />
+
+      <BookingWizard
+        visible={showBooking}
+        onClose={() => setShowBooking(false)}
+      />
+      <WaitlistOfferModal slot={freedSlot} onClose={() => setFreedSlot(null)} />
+      <CalendarImportModal
+        visible={showCalendarImport}
+        onClose={() => setShowCalendarImport(false)}
+      />
     </View>
   );
-}
\ No newline at end of file
+}
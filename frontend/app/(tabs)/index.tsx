@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,18 +7,33 @@ import {
   TouchableOpacity,
   Dimensions,
 } from 'react-native';
+import { router } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/providers/AuthProvider';
 import { useTheme } from '@/contexts/ThemeContext';
-import { Users, Calendar, Clock, CircleCheck as CheckCircle, TrendingUp, TriangleAlert as AlertTriangle, Heart, Activity } from 'lucide-react-native';
+import { Users, Calendar, Clock, CircleCheck as CheckCircle, TrendingUp, TriangleAlert as AlertTriangle, Heart, Activity, Armchair, ChevronRight } from 'lucide-react-native';
 import { dashboardApi } from '@/utils/api';
+import Can from '@/components/Can';
+import BookingWizard from '@/components/BookingWizard';
+import { useAppointmentsInRange } from '@/hooks/useAppointmentsInRange';
+import { usePermission } from '@/hooks/usePermission';
+import { getStatusColor } from '@/utils/appointment-colors';
+import { toDateKey } from '@/utils/scheduling';
+import { VISIT_STATUSES, VISIT_STATUS_LABELS, VisitStatus, countByStatus } from '@/utils/waiting-room';
+import { computeTrends, rangeForPeriod } from '@/utils/reports';
+import { appointmentFilterParams } from '@/utils/drill-down';
+import { ChartSeries } from '@/utils/charts';
+import DonutChart from '@/components/charts/DonutChart';
+import LineChart from '@/components/charts/LineChart';
+import Sparkline from '@/components/charts/Sparkline';
 
 const { width } = Dimensions.get('window');
 
 export default function DashboardScreen() {
   const { user } = useAuth();
   const { theme, isDark } = useTheme();
+  const [showBooking, setShowBooking] = useState(false);
 
   const { data: stats, isLoading, error } = useQuery({
     queryKey: ['dashboard-stats'],
@@ -28,6 +43,35 @@ export default function DashboardScreen() {
     },
   });
 
+  // Older servers don't break today's count down by status, so it is
+  // counted from today's appointments instead
+  const canViewAppointments = usePermission('appointments:view');
+  const serverBreakdown = stats?.overview?.todayByStatus;
+  const today = toDateKey(new Date());
+  const { data: todayAppointments } = useAppointmentsInRange(
+    { dateFrom: today, dateTo: today },
+    canViewAppointments && !!stats && !serverBreakdown
+  );
+  const todayByStatus = serverBreakdown ?? countByStatus(todayAppointments?.items ?? []);
+
+  // The last seven days, for the stat card sparklines and the week chart
+  const canViewReports = usePermission('reports:view');
+  const weekRange = rangeForPeriod('week');
+  // Older servers leave them out, and only the week's appointments are
+  // needed to count them here
+  const serverTrends = stats?.weekTrends;
+  const { data: weekAppointments } = useAppointmentsInRange(
+    { ...weekRange },
+    canViewReports && canViewAppointments && !!stats && !serverTrends
+  );
+  const weekTrends = serverTrends ?? (weekAppointments ? computeTrends(weekRange, weekAppointments.items) : []);
+  const weekLabels = weekTrends.map(({ label }) => label);
+  const weekSeries: ChartSeries[] = [
+    { key: 'total', label: 'Appointments', color: theme.colors.primary, values: weekTrends.map(({ total }) => total) },
+    { key: 'completed', label: 'Completed', color: theme.colors.success, values: weekTrends.map(({ completed }) => completed) },
+    { key: 'cancelled', label: 'Cancelled', color: theme.colors.error, values: weekTrends.map(({ cancelled }) => cancelled) },
+  ];
+
   const StatCard = ({ 
     title, 
     value, 
@@ -39,7 +83,7 @@ export default function DashboardScreen() {
     value: string; 
     icon: any; 
     color: string; 
-    trend?: string; 
+    trend?: number[]; 
   }) => (
     <View style={[styles.statCard, { 
       borderLeftColor: color,
@@ -51,15 +95,14 @@ export default function DashboardScreen() {
         <View style={[styles.statIcon, { backgroundColor: color + '20' }]}>
           <Icon size={20} color={color} />
         </View>
-        {trend && (
-          <View style={styles.trendContainer}>
-            <TrendingUp size={12} color="#10B981" />
-            <Text style={styles.trendText}>{trend}</Text>
-          </View>
-        )}
       </View>
       <Text style={[styles.statValue, { color: theme.colors.text }]}>{value}</Text>
       <Text style={[styles.statTitle, { color: theme.colors.textSecondary }]}>{title}</Text>
+      {trend && trend.length > 1 && (
+        <View style={styles.statTrend}>
+          <Sparkline title={`${title}, last 7 days`} labels={weekLabels} values={trend} color={color} />
+        </View>
+      )}
     </View>
   );
 
@@ -187,16 +230,6 @@ export default function DashboardScreen() {
       alignItems: 'center',
       justifyContent: 'center',
     },
-    trendContainer: {
-      flexDirection: 'row',
-      alignItems: 'center',
-    },
-    trendText: {
-      fontSize: 12,
-      fontFamily: 'Inter-Medium',
-      color: '#10B981',
-      marginLeft: 4,
-    },
     statValue: {
       fontSize: 32,
       fontFamily: 'Inter-Bold',
@@ -206,6 +239,9 @@ export default function DashboardScreen() {
       fontSize: 14,
       fontFamily: 'Inter-Medium',
     },
+    statTrend: {
+      marginTop: 12,
+    },
     section: {
       paddingHorizontal: 24,
       marginBottom: 32,
@@ -278,6 +314,55 @@ export default function DashboardScreen() {
       color: theme.colors.textSecondary,
       marginTop: 2,
     },
+    breakdownContainer: {
+      backgroundColor: theme.colors.card,
+      borderRadius: 12,
+      padding: 16,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: {
+        width: 0,
+        height: 2,
+      },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    weekLegend: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      marginTop: 12,
+    },
+    weekLegendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: 10,
+    },
+    weekLegendColor: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginRight: 6,
+    },
+    weekLegendText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    breakdownLink: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingTop: 12,
+      marginTop: 8,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+    },
+    breakdownLinkText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+      marginHorizontal: 6,
+    },
     appointmentsContainer: {
       backgroundColor: theme.colors.card,
       borderRadius: 12,
@@ -387,14 +472,13 @@ export default function DashboardScreen() {
             value={stats?.overview?.totalPatients?.toString() || '0'}
             icon={Users}
             color="#2563EB"
-            trend="+12%"
           />
           <StatCard
             title="Today's Appointments"
             value={stats?.overview?.todayAppointments?.toString() || '0'}
             icon={Calendar}
             color="#10B981"
-            trend="+5%"
+            trend={weekSeries[0].values}
           />
           <StatCard
             title="Pending"
@@ -407,33 +491,85 @@ export default function DashboardScreen() {
             value={stats?.overview?.completedAppointments?.toString() || '0'}
             icon={CheckCircle}
             color="#06B6D4"
-            trend="+8%"
+            trend={weekSeries[1].values}
           />
         </View>
       </View>
 
+      {/* Today's Appointments by Status */}
+      <Can permission="appointments:view">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Today by Status</Text>
+          <View style={styles.breakdownContainer}>
+            <DonutChart
+              title="Today's appointments by status"
+              totalLabel="Today"
+              slices={VISIT_STATUSES.map((status) => ({
+                key: status,
+                label: VISIT_STATUS_LABELS[status],
+                value: todayByStatus[status] ?? 0,
+                color: getStatusColor(status),
+              }))}
+              onSelect={canViewAppointments ? (status) => router.push({
+                pathname: '/appointments',
+                params: appointmentFilterParams({ range: { dateFrom: today, dateTo: today }, statuses: [status as VisitStatus] }),
+              }) : undefined}
+            />
+            <TouchableOpacity style={styles.breakdownLink} onPress={() => router.push('/waiting-room')}>
+              <Armchair size={16} color={theme.colors.primary} />
+              <Text style={styles.breakdownLinkText}>Open Waiting Room</Text>
+              <ChevronRight size={16} color={theme.colors.primary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Can>
+
+      {/* The Last Seven Days */}
+      <Can permission="reports:view">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>This Week</Text>
+          <View style={styles.breakdownContainer}>
+            <LineChart title="Appointments over the last 7 days" labels={weekLabels} series={weekSeries} />
+            <View style={styles.weekLegend}>
+              {weekSeries.map(({ key, label, color }) => (
+                <View key={key} style={styles.weekLegendItem}>
+                  <View style={[styles.weekLegendColor, { backgroundColor: color }]} />
+                  <Text style={styles.weekLegendText}>{label}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        </View>
+      </Can>
+
       {/* Quick Actions */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Quick Actions</Text>
         <View style={styles.quickActionsGrid}>
-          <QuickAction
-            title="Add Patient"
-            icon={Users}
-            color="#2563EB"
-            onPress={() => {}}
-          />
-          <QuickAction
-            title="Schedule"
-            icon={Calendar}
-            color="#10B981"
-            onPress={() => {}}
-          />
-          <QuickAction
-            title="Reports"
-            icon={TrendingUp}
-            color="#F59E0B"
-            onPress={() => {}}
-          />
+          <Can permission="patients:create">
+            <QuickAction
+              title="Add Patient"
+              icon={Users}
+              color="#2563EB"
+              onPress={() => {}}
+            />
+          </Can>
+          <Can permission="appointments:create">
+            <QuickAction
+              title="Schedule"
+              icon={Calendar}
+              color="#10B981"
+              onPress={() => setShowBooking(true)}
+            />
+          </Can>
+          <Can permission="reports:view">
+            <QuickAction
+              title="Reports"
+              icon={TrendingUp}
+              color="#F59E0B"
+              onPress={() => {}}
+            />
+          </Can>
           <QuickAction
             title="Emergency"
             icon={AlertTriangle}
@@ -448,19 +584,23 @@ export default function DashboardScreen() {
         <Text style={styles.sectionTitle}>Recent Activity</Text>
         <View style={styles.activityContainer}>
           {stats?.recentPatients?.slice(0, 3).map((patient: any, index: number) => (
-            <View key={patient.id} style={styles.activityItem}>
+            <TouchableOpacity
+              key={patient.id}
+              style={styles.activityItem}
+              onPress={() => router.push(`/patients/${patient.id}`)}
+            >
               <View style={styles.activityIcon}>
                 <Users size={16} color={theme.colors.primary} />
               </View>
               <View style={styles.activityContent}>
                 <Text style={styles.activityTitle}>
-                  New patient: {patient.name}
+                  New patient: {patient.name ?? `${patient.firstName} ${patient.lastName}`}
                 </Text>
                 <Text style={styles.activityTime}>
                   {new Date(patient.createdAt).toLocaleDateString()}
                 </Text>
               </View>
-            </View>
+            </TouchableOpacity>
           )) || []}
         </View>
       </View>
@@ -483,16 +623,18 @@ export default function DashboardScreen() {
               </View>
               <View style={[
                 styles.appointmentStatus,
-                { backgroundColor: appointment.status === 'confirmed' ? '#10B981' : '#F59E0B' }
+                { backgroundColor: getStatusColor(appointment.status) }
               ]}>
                 <Text style={styles.appointmentStatusText}>
-                  {appointment.status}
+                  {VISIT_STATUS_LABELS[appointment.status as VisitStatus] ?? appointment.status}
                 </Text>
               </View>
             </View>
           )) || []}
         </View>
       </View>
+
+      <BookingWizard visible={showBooking} onClose={() => setShowBooking(false)} />
     </ScrollView>
   );
 }
\ No newline at end of file
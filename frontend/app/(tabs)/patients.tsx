@@ -8,6 +8,7 @@ import {
   TextInput,
   Alert,
 } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -22,9 +23,18 @@ import {
   MapPin,
   CreditCard as Edit3,
   Trash2,
+  X,
 } from 'lucide-react-native';
-import { patientsApi } from '@/utils/api';
-import { Patient } from '@/types';
+import { MAX_LIST_ITEMS, patientsApi, reportsApi } from '@/utils/api';
+import {
+  PATIENT_FILTER_PARAMS,
+  describePatientFilter,
+  patientFilterFromParams,
+} from '@/utils/drill-down';
+import { getActiveMedications } from '@/utils/medications';
+import { Medication, Patient } from '@/types';
+import Can from '@/components/Can';
+import PatientForm from '@/components/PatientForm';
 
 export default function PatientsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -32,22 +42,39 @@ export default function PatientsScreen() {
   const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
   const queryClient = useQueryClient();
   const { theme, isDark } = useTheme();
+  // Set when a report figure opened this list, and kept in the URL
+  const reportFilter = patientFilterFromParams(useLocalSearchParams());
 
-  const {
-    data: patientsResponse,
-    isLoading,
-    error,
-  } = useQuery({
-    queryKey: ['patients', searchQuery],
+  const { data, isLoading, error } = useQuery({
+    queryKey: reportFilter
+      ? ['patients', 'report', reportFilter]
+      : ['patients', searchQuery],
     queryFn: async () => {
+      if (reportFilter) {
+        return reportsApi.getPatients(reportFilter);
+      }
       const params = searchQuery ? { search: searchQuery } : undefined;
       const response = await patientsApi.getAll(params);
-      console.log('Patient data', response);
-      return response;
+      return { items: response.data || [], partial: false };
     },
   });
+  const loadedPatients = data?.items ?? [];
 
-  const patients = patientsResponse?.data || [];
+  // A report's patients are all loaded at once, so search narrows them here
+  const search = searchQuery.trim().toLowerCase();
+  const patients =
+    reportFilter && search
+      ? loadedPatients.filter(({ firstName, lastName }) =>
+          `${firstName} ${lastName}`.toLowerCase().includes(search)
+        )
+      : loadedPatients;
+
+  const clearReportFilter = () =>
+    router.setParams(
+      Object.fromEntries(
+        PATIENT_FILTER_PARAMS.map((param) => [param, undefined])
+      )
+    );
 
   const deletePatientMutation = useMutation({
     mutationFn: async (patientId: string) => {
@@ -78,8 +105,43 @@ export default function PatientsScreen() {
     );
   };
 
+  const MedicationSummary = ({ medications }: { medications: Medication[] }) =>
+    medications.length > 0 ? (
+      <View
+        style={[
+          styles.medicationsSection,
+          { borderTopColor: theme.colors.border },
+        ]}
+      >
+        <Text style={[styles.medicationsTitle, { color: theme.colors.text }]}>
+          Current Medications:
+        </Text>
+        {medications.slice(0, 2).map((med, index) => (
+          <Text
+            key={index}
+            style={[
+              styles.medicationText,
+              { color: theme.colors.textSecondary },
+            ]}
+          >
+            • {med.name} - {med.dosage}
+          </Text>
+        ))}
+        {medications.length > 2 && (
+          <Text
+            style={[
+              styles.medicationText,
+              { color: theme.colors.textSecondary },
+            ]}
+          >
+            +{medications.length - 2} more
+          </Text>
+        )}
+      </View>
+    ) : null;
+
   const PatientCard = ({ patient }: { patient: Patient }) => (
-    <View
+    <TouchableOpacity
       style={[
         styles.patientCard,
         {
@@ -87,6 +149,8 @@ export default function PatientsScreen() {
           shadowColor: theme.colors.shadow,
         },
       ]}
+      onPress={() => router.push(`/patients/${patient.id}`)}
+      activeOpacity={0.8}
     >
       <View style={styles.patientHeader}>
         <View
@@ -113,29 +177,33 @@ export default function PatientsScreen() {
           </Text>
         </View>
         <View style={styles.patientActions}>
-          <TouchableOpacity
-            style={[
-              styles.actionButton,
-              { backgroundColor: theme.colors.surface },
-            ]}
-            onPress={() => setEditingPatient(patient)}
-          >
-            <Edit3 size={16} color={theme.colors.primary} />
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[
-              styles.actionButton,
-              styles.deleteButton,
-              {
-                backgroundColor: isDark
-                  ? 'rgba(248, 113, 113, 0.2)'
-                  : '#FEF2F2',
-              },
-            ]}
-            onPress={() => handleDeletePatient(patient)}
-          >
-            <Trash2 size={16} color={theme.colors.error} />
-          </TouchableOpacity>
+          <Can permission="patients:update">
+            <TouchableOpacity
+              style={[
+                styles.actionButton,
+                { backgroundColor: theme.colors.surface },
+              ]}
+              onPress={() => setEditingPatient(patient)}
+            >
+              <Edit3 size={16} color={theme.colors.primary} />
+            </TouchableOpacity>
+          </Can>
+          <Can permission="patients:delete">
+            <TouchableOpacity
+              style={[
+                styles.actionButton,
+                styles.deleteButton,
+                {
+                  backgroundColor: isDark
+                    ? 'rgba(248, 113, 113, 0.2)'
+                    : '#FEF2F2',
+                },
+              ]}
+              onPress={() => handleDeletePatient(patient)}
+            >
+              <Trash2 size={16} color={theme.colors.error} />
+            </TouchableOpacity>
+          </Can>
         </View>
       </View>
 
@@ -174,40 +242,10 @@ export default function PatientsScreen() {
         </View>
       </View>
 
-      {patient.currentMedications.length > 0 && (
-        <View
-          style={[
-            styles.medicationsSection,
-            { borderTopColor: theme.colors.border },
-          ]}
-        >
-          <Text style={[styles.medicationsTitle, { color: theme.colors.text }]}>
-            Current Medications:
-          </Text>
-          {patient.currentMedications.slice(0, 2).map((med, index) => (
-            <Text
-              key={index}
-              style={[
-                styles.medicationText,
-                { color: theme.colors.textSecondary },
-              ]}
-            >
-              • {med.name} - {med.dosage}
-            </Text>
-          ))}
-          {patient.currentMedications.length > 2 && (
-            <Text
-              style={[
-                styles.medicationText,
-                { color: theme.colors.textSecondary },
-              ]}
-            >
-              +{patient.currentMedications.length - 2} more
-            </Text>
-          )}
-        </View>
-      )}
-    </View>
+      <MedicationSummary
+        medications={getActiveMedications(patient.currentMedications)}
+      />
+    </TouchableOpacity>
   );
 
   const styles = StyleSheet.create({
@@ -265,6 +303,38 @@ export default function PatientsScreen() {
     filterButton: {
       padding: 8,
     },
+    reportFilter: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+      backgroundColor: theme.colors.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    reportFilterText: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.primary,
+      marginHorizontal: 8,
+    },
+    partialNotice: {
+      paddingHorizontal: 24,
+      paddingVertical: 8,
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.warning,
+      backgroundColor: theme.colors.card,
+    },
+    clearFilterButton: {
+      width: 28,
+      height: 28,
+      borderRadius: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
     content: {
       flex: 1,
     },
@@ -444,15 +514,17 @@ export default function PatientsScreen() {
           <View>
             <Text style={styles.headerTitle}>Patients</Text>
             <Text style={styles.headerSubtitle}>
-              {patients.length} total patients
+              {patients.length} {reportFilter ? 'matching' : 'total'} patients
             </Text>
           </View>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => setShowAddForm(true)}
-          >
-            <Plus size={24} color="#FFFFFF" />
-          </TouchableOpacity>
+          <Can permission="patients:create">
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowAddForm(true)}
+            >
+              <Plus size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </Can>
         </View>
 
         {/* Search Bar */}
@@ -471,6 +543,29 @@ export default function PatientsScreen() {
         </View>
       </LinearGradient>
 
+      {reportFilter && (
+        <View style={styles.reportFilter}>
+          <Filter size={16} color={theme.colors.primary} />
+          <Text style={styles.reportFilterText} numberOfLines={2}>
+            {describePatientFilter(reportFilter).join(' · ')}
+          </Text>
+          <TouchableOpacity
+            style={styles.clearFilterButton}
+            onPress={clearReportFilter}
+            accessibilityRole="button"
+            accessibilityLabel="Clear report filter"
+          >
+            <X size={16} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+      {data?.partial && (
+        <Text style={styles.partialNotice}>
+          Only the first {MAX_LIST_ITEMS.toLocaleString()} records were checked,
+          so some matching patients may be missing.
+        </Text>
+      )}
+
       {/* Patients List */}
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {isLoading ? (
@@ -484,7 +579,9 @@ export default function PatientsScreen() {
             <Text style={styles.emptyText}>
               {searchQuery
                 ? 'Try adjusting your search'
-                : 'Add your first patient to get started'}
+                : reportFilter
+                  ? 'No patients match this report filter'
+                  : 'Add your first patient to get started'}
             </Text>
           </View>
         ) : (
@@ -495,6 +592,15 @@ export default function PatientsScreen() {
           </View>
         )}
       </ScrollView>
+
+      <PatientForm
+        visible={showAddForm || editingPatient !== null}
+        patient={editingPatient}
+        onClose={() => {
+          setShowAddForm(false);
+          setEditingPatient(null);
+        }}
+      />
     </View>
   );
 }
@@ -6,76 +6,340 @@ import {
   StyleSheet,
   TouchableOpacity,
   Dimensions,
+  ActivityIndicator,
 } from 'react-native';
+import { router } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useQuery } from '@tanstack/react-query';
 import { useTheme } from '@/contexts/ThemeContext';
-import { FileText, TrendingUp, Download, Calendar, Users, Activity, ChartBar as BarChart3, ChartPie as PieChart, Filter } from 'lucide-react-native';
+import Can from '@/components/Can';
+import { MAX_LIST_ITEMS, reportsApi } from '@/utils/api';
+import ReportRangeModal from '@/components/ReportRangeModal';
+import OptionPickerModal from '@/components/OptionPickerModal';
+import {
+  REPORT_EXPORT_TITLES,
+  ReportExportKind,
+  useReportExport,
+} from '@/hooks/useReportExport';
+import { usePermission } from '@/hooks/usePermission';
+import { EXPORT_FORMATS } from '@/utils/report-export';
+import {
+  GENDER_LABELS,
+  REPORT_COMPARISONS,
+  REPORT_PERIODS,
+  ReportDelta,
+  ReportRange,
+  ReportSelection,
+  TREND_SERIES,
+  TrendSeries,
+  alignValues,
+  compareMetric,
+  comparisonRange,
+  formatReportRange,
+  percentOf,
+  rangeForPeriod,
+  selectedRange,
+} from '@/utils/reports';
+import {
+  PatientListFilter,
+  appointmentFilterParams,
+  patientFilterParams,
+} from '@/utils/drill-down';
+import { ChartSeries, chartPalette } from '@/utils/charts';
+import DonutChart from '@/components/charts/DonutChart';
+import StackedBarChart from '@/components/charts/StackedBarChart';
+import Sparkline from '@/components/charts/Sparkline';
+import {
+  FileText,
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  Download,
+  Calendar,
+  Users,
+  Activity,
+  ChartBar as BarChart3,
+  ChartPie as PieChart,
+  Filter,
+} from 'lucide-react-native';
 
 const { width } = Dimensions.get('window');
 
 export default function ReportsScreen() {
-  const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month' | 'quarter' | 'year'>('month');
+  const [selection, setSelection] = useState<ReportSelection>(() => ({
+    period: 'month',
+    customRange: rangeForPeriod('month'),
+    comparison: 'none',
+  }));
+  const [showRangePicker, setShowRangePicker] = useState(false);
+  const [exportKind, setExportKind] = useState<ReportExportKind | null>(null);
+  // The trend bar whose appointments are being opened, waiting on a status
+  const [trendDrillIndex, setTrendDrillIndex] = useState<number | null>(null);
   const { theme, isDark } = useTheme();
+  const canViewPatients = usePermission('patients:view');
+  const canViewAppointments = usePermission('appointments:view');
+  const range = selectedRange(selection);
+  const compareRange = comparisonRange(range, selection.comparison);
+  const compareLabel = REPORT_COMPARISONS.find(
+    ({ value }) => value === selection.comparison
+  )!.label;
 
-  const { data: reportData, isLoading } = useQuery({
-    queryKey: ['reports', selectedPeriod],
-    queryFn: async () => {
-      const response = await fetch(`/api/reports?period=${selectedPeriod}`);
-      if (!response.ok) throw new Error('Failed to fetch reports');
-      return response.json();
-    },
+  const {
+    data: reportData,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['reports', range],
+    queryFn: () => reportsApi.get(range),
+  });
+
+  const { data: comparisonData } = useQuery({
+    queryKey: ['reports', compareRange],
+    queryFn: () => reportsApi.get(compareRange!),
+    enabled: !!compareRange,
   });
+  // Last period's numbers are only shown while a comparison is chosen
+  const previous = compareRange ? comparisonData : undefined;
+
+  const { exportReport, exportingKind } = useReportExport({
+    range,
+    compareRange,
+    compareLabel,
+    report: reportData,
+    previous,
+  });
+
+  const seenPatients =
+    reportData?.demographics.gender.reduce(
+      (total, { count }) => total + count,
+      0
+    ) ?? 0;
+  const placeholder = isLoading ? '...' : '—';
+  const palette = chartPalette(theme);
+
+  const trends = reportData?.appointmentTrends ?? [];
+  const trendLabels = trends.map(({ label }) => label);
+  const trendSeries: ChartSeries[] = [
+    {
+      key: 'scheduled',
+      label: 'Scheduled',
+      color: theme.colors.primary,
+      values: trends.map(({ scheduled }) => scheduled),
+    },
+    {
+      key: 'completed',
+      label: 'Completed',
+      color: theme.colors.success,
+      values: trends.map(({ completed }) => completed),
+    },
+    {
+      key: 'cancelled',
+      label: 'Cancelled',
+      color: theme.colors.error,
+      values: trends.map(({ cancelled }) => cancelled),
+    },
+  ];
+  const previousTotals =
+    previous &&
+    alignValues(
+      previous.appointmentTrends.map(({ total }) => total),
+      trends.length
+    );
+  const previousCompletion =
+    previous &&
+    alignValues(
+      previous.appointmentTrends.map(({ completed, total }) =>
+        percentOf(completed, total)
+      ),
+      trends.length
+    );
+  const trendOverlay: ChartSeries[] = previousTotals
+    ? [
+        {
+          key: 'previous',
+          label: `Total, ${compareLabel.toLowerCase()}`,
+          color: theme.colors.textSecondary,
+          values: previousTotals,
+          dashed: true,
+        },
+      ]
+    : [];
+
+  const completionRate = (report: typeof reportData) =>
+    report
+      ? percentOf(report.completedAppointments, report.totalAppointments)
+      : 0;
 
-  const ReportCard = ({ 
-    title, 
-    value, 
-    change, 
-    icon: Icon, 
-    color 
-  }: { 
-    title: string; 
-    value: string; 
-    change: string; 
-    icon: any; 
-    color: string; 
+  const selectPreset = (period: ReportSelection['period']) =>
+    setSelection((current) => ({ ...current, period }));
+
+  // Custom starts from the range on screen, then the picker refines it
+  const selectCustom = () => {
+    setSelection((current) =>
+      current.period === 'custom'
+        ? current
+        : { ...current, period: 'custom', customRange: selectedRange(current) }
+    );
+    setShowRangePicker(true);
+  };
+
+  // Report figures open the patient and appointment lists filtered to the
+  // records they count
+  const openPatients = (filter: PatientListFilter) =>
+    router.push({ pathname: '/patients', params: patientFilterParams(filter) });
+  const openAppointments = (
+    statuses?: TrendSeries,
+    bucket: ReportRange = range
+  ) =>
+    router.push({
+      pathname: '/appointments',
+      params: appointmentFilterParams({
+        range: bucket,
+        statuses: statuses && TREND_SERIES[statuses],
+      }),
+    });
+
+  const trendDrill =
+    trendDrillIndex === null ? undefined : trends[trendDrillIndex];
+  const trendDrillOptions: { value: TrendSeries | 'all'; label: string }[] =
+    trendDrill
+      ? [
+          { value: 'all', label: `All appointments (${trendDrill.total})` },
+          ...trendSeries.map(({ key, label }) => ({
+            value: key as TrendSeries,
+            label: `${label} (${trendDrill[key as TrendSeries]})`,
+          })),
+        ]
+      : [];
+
+  const DELTA_STYLES: Record<
+    ReportDelta['direction'],
+    { icon: any; color: string }
+  > = {
+    up: { icon: TrendingUp, color: theme.colors.success },
+    down: { icon: TrendingDown, color: theme.colors.error },
+    flat: { icon: Minus, color: theme.colors.textSecondary },
+  };
+
+  const ReportCard = ({
+    title,
+    value,
+    delta,
+    trend,
+    previousTrend,
+    icon: Icon,
+    color,
+    onPress,
+  }: {
+    title: string;
+    value: string;
+    delta?: ReportDelta;
+    trend?: number[];
+    previousTrend?: number[];
+    icon: any;
+    color: string;
+    // Opens the records behind the figure
+    onPress?: () => void;
   }) => (
-    <View style={[styles.reportCard, { 
-      backgroundColor: theme.colors.card,
-      shadowColor: theme.colors.shadow,
-    }]}>
+    <TouchableOpacity
+      style={[
+        styles.reportCard,
+        {
+          backgroundColor: theme.colors.card,
+          shadowColor: theme.colors.shadow,
+        },
+      ]}
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.8}
+      accessibilityRole={onPress ? 'button' : undefined}
+      accessibilityHint={
+        onPress ? `Shows the ${title.toLowerCase()} records` : undefined
+      }
+    >
       <View style={styles.reportHeader}>
         <View style={[styles.reportIcon, { backgroundColor: color + '20' }]}>
           <Icon size={24} color={color} />
         </View>
-        <View style={styles.changeIndicator}>
-          <TrendingUp size={12} color="#10B981" />
-          <Text style={styles.changeText}>{change}</Text>
-        </View>
+        {delta &&
+          (() => {
+            const { icon: Arrow, color: deltaColor } =
+              DELTA_STYLES[delta.direction];
+            return (
+              <View
+                style={styles.changeIndicator}
+                accessible
+                accessibilityLabel={`${delta.label} compared with ${compareLabel.toLowerCase()}`}
+              >
+                <Arrow size={12} color={deltaColor} />
+                <Text style={[styles.changeText, { color: deltaColor }]}>
+                  {delta.label}
+                </Text>
+              </View>
+            );
+          })()}
       </View>
-      <Text style={[styles.reportValue, { color: theme.colors.text }]}>{value}</Text>
-      <Text style={[styles.reportTitle, { color: theme.colors.textSecondary }]}>{title}</Text>
-    </View>
+      <Text style={[styles.reportValue, { color: theme.colors.text }]}>
+        {value}
+      </Text>
+      <Text style={[styles.reportTitle, { color: theme.colors.textSecondary }]}>
+        {title}
+      </Text>
+      {trend && trend.length > 1 && (
+        <View style={styles.reportTrend}>
+          <Sparkline
+            title={`${title} trend`}
+            labels={trendLabels}
+            values={trend}
+            comparison={previousTrend}
+            color={color}
+          />
+        </View>
+      )}
+    </TouchableOpacity>
   );
 
-  const ChartCard = ({ 
-    title, 
-    children, 
-    onExport 
-  }: { 
-    title: string; 
-    children: React.ReactNode; 
-    onExport?: () => void; 
+  const ChartCard = ({
+    title,
+    children,
+    exportKind: kind,
+  }: {
+    title: string;
+    children: React.ReactNode;
+    exportKind?: ReportExportKind;
   }) => (
-    <View style={[styles.chartCard, { 
-      backgroundColor: theme.colors.card,
-      shadowColor: theme.colors.shadow,
-    }]}>
+    <View
+      style={[
+        styles.chartCard,
+        {
+          backgroundColor: theme.colors.card,
+          shadowColor: theme.colors.shadow,
+        },
+      ]}
+    >
       <View style={styles.chartHeader}>
-        <Text style={[styles.chartTitle, { color: theme.colors.text }]}>{title}</Text>
-        {onExport && (
-          <TouchableOpacity style={[styles.exportButton, { backgroundColor: theme.colors.surface }]} onPress={onExport}>
-            <Download size={16} color={theme.colors.textSecondary} />
+        <Text style={[styles.chartTitle, { color: theme.colors.text }]}>
+          {title}
+        </Text>
+        {kind && (
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              { backgroundColor: theme.colors.surface },
+            ]}
+            onPress={() => setExportKind(kind)}
+            disabled={!!exportingKind}
+            accessibilityLabel={`Export ${title}`}
+          >
+            {exportingKind === kind ? (
+              <ActivityIndicator
+                size="small"
+                color={theme.colors.textSecondary}
+              />
+            ) : (
+              <Download size={16} color={theme.colors.textSecondary} />
+            )}
           </TouchableOpacity>
         )}
       </View>
@@ -83,6 +347,26 @@ export default function ReportsScreen() {
     </View>
   );
 
+  const renderExportAction = (
+    kind: ReportExportKind,
+    label: string,
+    Icon: any,
+    color: string
+  ) => (
+    <TouchableOpacity
+      style={styles.exportActionButton}
+      onPress={() => setExportKind(kind)}
+      disabled={!!exportingKind}
+    >
+      {exportingKind === kind ? (
+        <ActivityIndicator size="small" color={color} />
+      ) : (
+        <Icon size={20} color={color} />
+      )}
+      <Text style={styles.exportActionText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -120,6 +404,12 @@ export default function ReportsScreen() {
     periodSelector: {
       marginTop: 16,
     },
+    rangeSummary: {
+      fontSize: 13,
+      fontFamily: 'Inter-Medium',
+      color: 'rgba(255, 255, 255, 0.9)',
+      marginTop: 12,
+    },
     periodButton: {
       paddingHorizontal: 20,
       paddingVertical: 8,
@@ -189,7 +479,6 @@ export default function ReportsScreen() {
     changeText: {
       fontSize: 12,
       fontFamily: 'Inter-Medium',
-      color: '#10B981',
       marginLeft: 4,
     },
     reportValue: {
@@ -201,6 +490,9 @@ export default function ReportsScreen() {
       fontSize: 14,
       fontFamily: 'Inter-Medium',
     },
+    reportTrend: {
+      marginTop: 12,
+    },
     chartCard: {
       borderRadius: 12,
       padding: 20,
@@ -234,69 +526,17 @@ export default function ReportsScreen() {
     demographicsChart: {
       marginBottom: 16,
     },
-    demographicItem: {
-      marginBottom: 12,
-    },
-    demographicBar: {
-      height: 8,
-      borderRadius: 4,
-      marginBottom: 4,
-    },
-    demographicLabel: {
-      fontSize: 12,
-      fontFamily: 'Inter-Medium',
-      color: theme.colors.textSecondary,
-    },
-    trendsChart: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
-      alignItems: 'flex-end',
-      height: 120,
-      marginBottom: 16,
-    },
-    trendItem: {
-      alignItems: 'center',
-      flex: 1,
-    },
-    trendMonth: {
-      fontSize: 10,
-      fontFamily: 'Inter-Medium',
-      color: theme.colors.textSecondary,
-      marginBottom: 8,
-    },
-    trendBars: {
-      flexDirection: 'row',
-      alignItems: 'flex-end',
-      justifyContent: 'center',
-      marginBottom: 8,
-    },
-    trendBar: {
-      width: 6,
-      borderRadius: 3,
-      marginHorizontal: 1,
-    },
-    scheduledBar: {
-      backgroundColor: '#2563EB',
-    },
-    completedBar: {
-      backgroundColor: '#10B981',
-    },
-    cancelledBar: {
-      backgroundColor: '#EF4444',
-    },
-    trendTotal: {
-      fontSize: 10,
-      fontFamily: 'Inter-SemiBold',
-      color: theme.colors.text,
-    },
     chartLegend: {
       flexDirection: 'row',
+      flexWrap: 'wrap',
       justifyContent: 'center',
+      marginTop: 12,
     },
     legendItem: {
       flexDirection: 'row',
       alignItems: 'center',
       marginHorizontal: 12,
+      marginBottom: 4,
     },
     legendColor: {
       width: 12,
@@ -304,41 +544,35 @@ export default function ReportsScreen() {
       borderRadius: 6,
       marginRight: 6,
     },
+    legendDashed: {
+      borderWidth: 1.5,
+      borderStyle: 'dashed',
+    },
     legendText: {
       fontSize: 12,
       fontFamily: 'Inter-Medium',
       color: theme.colors.textSecondary,
     },
-    conditionsChart: {
-      marginBottom: 16,
-    },
-    conditionItem: {
-      marginBottom: 16,
-    },
-    conditionInfo: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
-      alignItems: 'center',
-      marginBottom: 6,
+    demographicGroup: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 8,
     },
-    conditionName: {
+    emptyChartText: {
       fontSize: 14,
-      fontFamily: 'Inter-Medium',
-      color: theme.colors.text,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: 16,
     },
-    conditionCount: {
+    sourceNote: {
       fontSize: 12,
       fontFamily: 'Inter-Regular',
       color: theme.colors.textSecondary,
-    },
-    conditionBarContainer: {
-      backgroundColor: theme.colors.surface,
-      height: 6,
-      borderRadius: 3,
-    },
-    conditionBar: {
-      height: 6,
-      borderRadius: 3,
+      marginTop: -8,
+      marginBottom: 16,
     },
     section: {
       paddingHorizontal: 24,
@@ -386,198 +620,412 @@ export default function ReportsScreen() {
         <View style={styles.headerContent}>
           <View>
             <Text style={styles.headerTitle}>Reports & Analytics</Text>
-            <Text style={styles.headerSubtitle}>Healthcare insights and trends</Text>
+            <Text style={styles.headerSubtitle}>
+              Healthcare insights and trends
+            </Text>
           </View>
-          <TouchableOpacity style={styles.filterButton}>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setShowRangePicker(true)}
+            accessibilityLabel="Choose report range and comparison"
+          >
             <Filter size={24} color="#FFFFFF" />
           </TouchableOpacity>
         </View>
 
         {/* Period Selector */}
-        <ScrollView 
-          horizontal 
+        <ScrollView
+          horizontal
           showsHorizontalScrollIndicator={false}
           style={styles.periodSelector}
         >
-          {['week', 'month', 'quarter', 'year'].map((period) => (
+          {[
+            ...REPORT_PERIODS,
+            { value: 'custom' as const, label: 'Custom' },
+          ].map(({ value: period, label }) => (
             <TouchableOpacity
               key={period}
               style={[
                 styles.periodButton,
-                selectedPeriod === period && styles.activePeriodButton
+                selection.period === period && styles.activePeriodButton,
               ]}
-              onPress={() => setSelectedPeriod(period as any)}
+              onPress={() =>
+                period === 'custom' ? selectCustom() : selectPreset(period)
+              }
             >
-              <Text style={[
-                styles.periodButtonText,
-                selectedPeriod === period && styles.activePeriodButtonText
-              ]}>
-                {period.charAt(0).toUpperCase() + period.slice(1)}
+              <Text
+                style={[
+                  styles.periodButtonText,
+                  selection.period === period && styles.activePeriodButtonText,
+                ]}
+              >
+                {label}
               </Text>
             </TouchableOpacity>
           ))}
         </ScrollView>
+        <Text style={styles.rangeSummary}>
+          {formatReportRange(range)}
+          {compareRange ? ` vs ${formatReportRange(compareRange)}` : ''}
+        </Text>
       </LinearGradient>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Key Metrics */}
         <View style={styles.metricsSection}>
           <Text style={styles.sectionTitle}>Key Metrics</Text>
+          {error ? (
+            <TouchableOpacity onPress={() => refetch()}>
+              <Text style={[styles.sourceNote, { color: theme.colors.error }]}>
+                Couldn't load reports. Tap to try again.
+              </Text>
+            </TouchableOpacity>
+          ) : reportData?.partial || previous?.partial ? (
+            <Text style={[styles.sourceNote, { color: theme.colors.warning }]}>
+              Calculated from the first {MAX_LIST_ITEMS.toLocaleString()}{' '}
+              patient and appointment records, so figures may be too low
+            </Text>
+          ) : reportData?.computedLocally ? (
+            <Text style={styles.sourceNote}>
+              Calculated from patient and appointment records
+            </Text>
+          ) : null}
           <View style={styles.metricsGrid}>
             <ReportCard
               title="Total Patients"
-              value={reportData?.totalPatients || '0'}
-              change="+12%"
+              value={
+                reportData ? String(reportData.totalPatients) : placeholder
+              }
+              delta={
+                reportData &&
+                previous &&
+                compareMetric(reportData.totalPatients, previous.totalPatients)
+              }
               icon={Users}
-              color="#2563EB"
+              color={theme.colors.primary}
+              onPress={
+                canViewPatients
+                  ? () => openPatients({ registered: { dateTo: range.dateTo } })
+                  : undefined
+              }
             />
             <ReportCard
               title="Appointments"
-              value={reportData?.totalAppointments || '0'}
-              change="+8%"
+              value={
+                reportData ? String(reportData.totalAppointments) : placeholder
+              }
+              delta={
+                reportData &&
+                previous &&
+                compareMetric(
+                  reportData.totalAppointments,
+                  previous.totalAppointments
+                )
+              }
+              trend={trends.map(({ total }) => total)}
+              previousTrend={previousTotals}
               icon={Calendar}
-              color="#10B981"
+              color={theme.colors.success}
+              onPress={
+                canViewAppointments ? () => openAppointments() : undefined
+              }
             />
             <ReportCard
-              title="Revenue"
-              value={reportData?.revenue || '$0'}
-              change="+15%"
-              icon={TrendingUp}
-              color="#F59E0B"
+              title="New Patients"
+              value={reportData ? String(reportData.newPatients) : placeholder}
+              delta={
+                reportData &&
+                previous &&
+                compareMetric(reportData.newPatients, previous.newPatients)
+              }
+              icon={Activity}
+              color={theme.colors.accent}
+              onPress={
+                canViewPatients
+                  ? () => openPatients({ registered: range })
+                  : undefined
+              }
             />
             <ReportCard
-              title="Satisfaction"
-              value={reportData?.satisfaction || '0%'}
-              change="+3%"
-              icon={Activity}
-              color="#8B5CF6"
+              title="Completion Rate"
+              value={
+                reportData ? `${completionRate(reportData)}%` : placeholder
+              }
+              delta={
+                reportData &&
+                previous &&
+                compareMetric(
+                  completionRate(reportData),
+                  completionRate(previous),
+                  'points'
+                )
+              }
+              trend={trends.map(({ completed, total }) =>
+                percentOf(completed, total)
+              )}
+              previousTrend={previousCompletion}
+              icon={BarChart3}
+              color={theme.colors.info}
+              onPress={
+                canViewAppointments
+                  ? () => openAppointments('completed')
+                  : undefined
+              }
             />
+            {reportData?.revenue !== undefined && (
+              <Can permission="reports:revenue">
+                <ReportCard
+                  title="Revenue"
+                  value={`$${reportData.revenue.toLocaleString()}`}
+                  delta={
+                    previous?.revenue !== undefined
+                      ? compareMetric(reportData.revenue, previous.revenue)
+                      : undefined
+                  }
+                  icon={TrendingUp}
+                  color={theme.colors.warning}
+                />
+              </Can>
+            )}
+            {reportData?.satisfaction !== undefined && (
+              <ReportCard
+                title="Satisfaction"
+                value={`${reportData.satisfaction}%`}
+                delta={
+                  previous?.satisfaction !== undefined
+                    ? compareMetric(
+                        reportData.satisfaction,
+                        previous.satisfaction,
+                        'points'
+                      )
+                    : undefined
+                }
+                icon={Activity}
+                color={theme.colors.error}
+              />
+            )}
           </View>
         </View>
 
         {/* Patient Demographics */}
-        <ChartCard 
-          title="Patient Demographics" 
-          onExport={() => console.log('Export demographics')}
-        >
-          <View style={styles.demographicsChart}>
-            <View style={styles.demographicItem}>
-              <View style={[styles.demographicBar, { width: '60%', backgroundColor: '#2563EB' }]} />
-              <Text style={styles.demographicLabel}>Female (60%)</Text>
-            </View>
-            <View style={styles.demographicItem}>
-              <View style={[styles.demographicBar, { width: '40%', backgroundColor: '#10B981' }]} />
-              <Text style={styles.demographicLabel}>Male (40%)</Text>
-            </View>
-            <View style={styles.demographicItem}>
-              <View style={[styles.demographicBar, { width: '25%', backgroundColor: '#F59E0B' }]} />
-              <Text style={styles.demographicLabel}>0-18 years (25%)</Text>
-            </View>
-            <View style={styles.demographicItem}>
-              <View style={[styles.demographicBar, { width: '45%', backgroundColor: '#EF4444' }]} />
-              <Text style={styles.demographicLabel}>19-65 years (45%)</Text>
-            </View>
-            <View style={styles.demographicItem}>
-              <View style={[styles.demographicBar, { width: '30%', backgroundColor: '#8B5CF6' }]} />
-              <Text style={styles.demographicLabel}>65+ years (30%)</Text>
-            </View>
-          </View>
+        <ChartCard title="Patient Demographics" exportKind="demographics">
+          {seenPatients === 0 ? (
+            <Text style={styles.emptyChartText}>
+              {isLoading
+                ? 'Loading demographics...'
+                : 'No patients seen in this period'}
+            </Text>
+          ) : (
+            [
+              {
+                title: 'Gender',
+                counts: reportData!.demographics.gender,
+                previousCounts: previous?.demographics.gender,
+                format: (label: string) => label,
+                filter: (label: string): PatientListFilter => ({
+                  gender: (
+                    Object.keys(GENDER_LABELS) as (keyof typeof GENDER_LABELS)[]
+                  ).find(
+                    (gender) =>
+                      GENDER_LABELS[gender].toLowerCase() ===
+                      label.toLowerCase()
+                  ),
+                }),
+              },
+              {
+                title: 'Age',
+                counts: reportData!.demographics.ageBands,
+                previousCounts: previous?.demographics.ageBands,
+                format: (label: string) => `${label} years`,
+                filter: (label: string): PatientListFilter => ({
+                  ageBand: label,
+                }),
+              },
+            ].map(({ title, counts, previousCounts, format, filter }) => (
+              <View key={title} style={styles.demographicsChart}>
+                <Text style={styles.demographicGroup}>{title}</Text>
+                <DonutChart
+                  title={`Patients seen by ${title.toLowerCase()}`}
+                  totalLabel="Patients"
+                  slices={counts.map(({ label, count }, index) => ({
+                    key: label,
+                    label: format(label),
+                    value: count,
+                    color: palette[index % palette.length],
+                  }))}
+                  comparison={previousCounts?.map(
+                    ({ label, count }, index) => ({
+                      key: label,
+                      label: format(label),
+                      value: count,
+                      color: palette[index % palette.length],
+                    })
+                  )}
+                  comparisonLabel={compareLabel}
+                  onSelect={
+                    canViewPatients
+                      ? (label) =>
+                          openPatients({ seen: range, ...filter(label) })
+                      : undefined
+                  }
+                />
+              </View>
+            ))
+          )}
         </ChartCard>
 
         {/* Appointment Trends */}
-        <ChartCard 
-          title="Appointment Trends" 
-          onExport={() => console.log('Export trends')}
-        >
-          <View style={styles.trendsChart}>
-            {reportData?.appointmentTrends?.map((trend: any, index: number) => (
-              <View key={index} style={styles.trendItem}>
-                <Text style={styles.trendMonth}>{trend.month}</Text>
-                <View style={styles.trendBars}>
-                  <View style={[styles.trendBar, styles.scheduledBar, { height: trend.scheduled * 2 }]} />
-                  <View style={[styles.trendBar, styles.completedBar, { height: trend.completed * 2 }]} />
-                  <View style={[styles.trendBar, styles.cancelledBar, { height: trend.cancelled * 2 }]} />
-                </View>
-                <Text style={styles.trendTotal}>{trend.total}</Text>
-              </View>
-            )) || Array.from({ length: 6 }, (_, i) => (
-              <View key={i} style={styles.trendItem}>
-                <Text style={styles.trendMonth}>M{i + 1}</Text>
-                <View style={styles.trendBars}>
-                  <View style={[styles.trendBar, styles.scheduledBar, { height: Math.random() * 60 + 20 }]} />
-                  <View style={[styles.trendBar, styles.completedBar, { height: Math.random() * 60 + 20 }]} />
-                  <View style={[styles.trendBar, styles.cancelledBar, { height: Math.random() * 20 + 5 }]} />
-                </View>
-                <Text style={styles.trendTotal}>{Math.floor(Math.random() * 50 + 20)}</Text>
-              </View>
-            ))}
-          </View>
+        <ChartCard title="Appointment Trends" exportKind="trends">
+          {!reportData || reportData.totalAppointments === 0 ? (
+            <Text style={styles.emptyChartText}>
+              {isLoading
+                ? 'Loading trends...'
+                : 'No appointments in this period'}
+            </Text>
+          ) : (
+            <StackedBarChart
+              title="Appointment trends"
+              labels={trendLabels}
+              series={trendSeries}
+              overlay={trendOverlay}
+              onSelect={canViewAppointments ? setTrendDrillIndex : undefined}
+            />
+          )}
           <View style={styles.chartLegend}>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: '#2563EB' }]} />
-              <Text style={styles.legendText}>Scheduled</Text>
-            </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: '#10B981' }]} />
-              <Text style={styles.legendText}>Completed</Text>
-            </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: '#EF4444' }]} />
-              <Text style={styles.legendText}>Cancelled</Text>
-            </View>
-          </View>
-        </ChartCard>
-
-        {/* Top Conditions */}
-        <ChartCard 
-          title="Most Common Conditions" 
-          onExport={() => console.log('Export conditions')}
-        >
-          <View style={styles.conditionsChart}>
-            {[
-              { condition: 'Hypertension', count: 45, color: '#EF4444' },
-              { condition: 'Diabetes', count: 38, color: '#F59E0B' },
-              { condition: 'Asthma', count: 29, color: '#10B981' },
-              { condition: 'Arthritis', count: 22, color: '#2563EB' },
-              { condition: 'Depression', count: 18, color: '#8B5CF6' },
-            ].map((item, index) => (
-              <View key={index} style={styles.conditionItem}>
-                <View style={styles.conditionInfo}>
-                  <Text style={styles.conditionName}>{item.condition}</Text>
-                  <Text style={styles.conditionCount}>{item.count} patients</Text>
-                </View>
-                <View style={styles.conditionBarContainer}>
-                  <View 
+            {[...trendSeries, ...trendOverlay].map(
+              ({ key, label, color, dashed }) => (
+                <View key={key} style={styles.legendItem}>
+                  <View
                     style={[
-                      styles.conditionBar, 
-                      { width: `${(item.count / 45) * 100}%`, backgroundColor: item.color }
-                    ]} 
+                      styles.legendColor,
+                      dashed ? styles.legendDashed : null,
+                      {
+                        backgroundColor: dashed ? undefined : color,
+                        borderColor: color,
+                      },
+                    ]}
                   />
+                  <Text style={styles.legendText}>{label}</Text>
                 </View>
-              </View>
-            ))}
+              )
+            )}
           </View>
         </ChartCard>
 
+        {/* Top Conditions */}
+        <ChartCard title="Most Common Conditions" exportKind="conditions">
+          {!reportData || reportData.conditions.length === 0 ? (
+            <Text style={styles.emptyChartText}>
+              {isLoading
+                ? 'Loading conditions...'
+                : 'No recorded conditions for patients seen in this period'}
+            </Text>
+          ) : (
+            <StackedBarChart
+              horizontal
+              title="Most common conditions, patients seen"
+              labels={reportData.conditions.map(({ label }) => label)}
+              series={[
+                {
+                  key: 'patients',
+                  label: 'Patients',
+                  color: theme.colors.primary,
+                  values: reportData.conditions.map(({ count }) => count),
+                },
+              ]}
+              overlay={
+                previous
+                  ? [
+                      {
+                        key: 'previous',
+                        label: compareLabel,
+                        color: theme.colors.textSecondary,
+                        values: reportData.conditions.map(
+                          ({ label }) =>
+                            previous.conditions.find(
+                              (condition) =>
+                                condition.label.toLowerCase() ===
+                                label.toLowerCase()
+                            )?.count ?? 0
+                        ),
+                      },
+                    ]
+                  : undefined
+              }
+              onSelect={
+                canViewPatients
+                  ? (index) =>
+                      openPatients({
+                        seen: range,
+                        condition: reportData.conditions[index].label,
+                      })
+                  : undefined
+              }
+            />
+          )}
+        </ChartCard>
+
         {/* Export Actions */}
         <View style={[styles.section, styles.exportSection]}>
           <Text style={styles.sectionTitle}>Export Reports</Text>
           <View style={styles.exportActions}>
-            <TouchableOpacity style={styles.exportActionButton}>
-              <FileText size={20} color={theme.colors.primary} />
-              <Text style={styles.exportActionText}>Patient Summary</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.exportActionButton}>
-              <BarChart3 size={20} color={theme.colors.success} />
-              <Text style={styles.exportActionText}>Analytics Report</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.exportActionButton}>
-              <PieChart size={20} color={theme.colors.warning} />
-              <Text style={styles.exportActionText}>Demographics</Text>
-            </TouchableOpacity>
+            <Can permission="patients:view">
+              {renderExportAction(
+                'patients',
+                'Patient Summary',
+                FileText,
+                theme.colors.primary
+              )}
+            </Can>
+            {renderExportAction(
+              'analytics',
+              'Analytics Report',
+              BarChart3,
+              theme.colors.success
+            )}
+            {renderExportAction(
+              'demographics',
+              'Demographics',
+              PieChart,
+              theme.colors.warning
+            )}
           </View>
         </View>
       </ScrollView>
+
+      <ReportRangeModal
+        visible={showRangePicker}
+        selection={selection}
+        onApply={(next) => {
+          setSelection(next);
+          setShowRangePicker(false);
+        }}
+        onClose={() => setShowRangePicker(false)}
+      />
+
+      <OptionPickerModal
+        visible={!!exportKind}
+        title={exportKind ? `Export ${REPORT_EXPORT_TITLES[exportKind]}` : ''}
+        options={EXPORT_FORMATS}
+        selected={null}
+        onSelect={(format) => exportKind && exportReport(exportKind, format)}
+        onClose={() => setExportKind(null)}
+      />
+
+      <OptionPickerModal
+        visible={!!trendDrill}
+        title={
+          trendDrill ? `Appointments, ${formatReportRange(trendDrill)}` : ''
+        }
+        options={trendDrillOptions}
+        selected={null}
+        onSelect={(value) => {
+          if (trendDrill) {
+            openAppointments(value === 'all' ? undefined : value, trendDrill);
+          }
+        }}
+        onClose={() => setTrendDrillIndex(null)}
+      />
     </View>
   );
-}
\ No newline at end of file
+}
@@ -11,27 +11,93 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '@/providers/AuthProvider';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useSync } from '@/providers/SyncProvider';
+import { useReminders } from '@/providers/RemindersProvider';
+import { Drafts } from '@/utils/drafts';
+import {
+  IDLE_TIMEOUT_OPTIONS,
+  useInactivityLock,
+} from '@/providers/InactivityLockProvider';
 import ThemeToggle from '@/components/ThemeToggle';
+import OptionPickerModal from '@/components/OptionPickerModal';
+import PinSetupModal from '@/components/PinSetupModal';
+import Can from '@/components/Can';
 import ThemedView from '@/components/ThemedView';
 import ThemedText from '@/components/ThemedText';
-import { Settings as SettingsIcon, User, Bell, Shield, Palette, Database, LogOut, ChevronRight, Moon, Globe, Download, CircleHelp as HelpCircle } from 'lucide-react-native';
+import { useSchedulingRules } from '@/hooks/useSchedulingRules';
+import { BUFFER_OPTIONS, CLINIC_CLOSING_OPTIONS, CLINIC_OPENING_OPTIONS } from '@/utils/schedule-conflicts';
+import { DIGEST_TIME_OPTIONS, LEAD_TIME_OPTIONS, describeLeadTimes, leadTimesKey } from '@/utils/reminders';
+import { Settings as SettingsIcon, User, Bell, Shield, Palette, Database, LogOut, ChevronRight, Moon, Globe, Download, CircleHelp as HelpCircle, Lock, KeyRound, Timer, Clock, AlarmClock, Sunrise } from 'lucide-react-native';
 
 export default function SettingsScreen() {
   const { user, logout } = useAuth();
   const { theme, isDark } = useTheme();
-  const [notifications, setNotifications] = React.useState(true);
+  const { preferences: reminderPreferences, supported: remindersSupported, updatePreferences } = useReminders();
+  const [reminderPicker, setReminderPicker] = React.useState<'lead' | 'digest' | null>(null);
   const [dataSync, setDataSync] = React.useState(true);
+  const { pendingCount } = useSync();
+  const { idleTimeout, setIdleTimeout, hasPin, setPin, removePin } = useInactivityLock();
+  const [showTimeoutPicker, setShowTimeoutPicker] = React.useState(false);
+  const [showPinSetup, setShowPinSetup] = React.useState(false);
+  const { rules: schedulingRules, updateRules } = useSchedulingRules();
+  const [schedulingPicker, setSchedulingPicker] = React.useState<'buffer' | 'opens' | 'closes' | null>(null);
+
+  const formatIdleTimeout = (minutes: number) =>
+    minutes === 0 ? 'Never' : `After ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+
+  const formatBuffer = (minutes: number) =>
+    minutes === 0 ? 'No buffer' : `${minutes} minutes`;
+
+  // Opening and closing options never overlap, so any pair is a valid day
+  const setClinicHours = (field: 'start' | 'end', time: string) =>
+    updateRules({ clinicHours: { ...schedulingRules.clinicHours, [field]: time } });
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (!(await updatePreferences({ enabled }))) {
+      Alert.alert(
+        'Notifications Blocked',
+        'Allow notifications for this app in your device settings to receive appointment reminders.'
+      );
+    }
+  };
+
+  const handlePinPress = () => {
+    if (!hasPin) {
+      setShowPinSetup(true);
+      return;
+    }
+
+    Alert.alert(
+      'Unlock PIN',
+      'Change or remove the PIN used to unlock this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: removePin },
+        { text: 'Change', onPress: () => setShowPinSetup(true) },
+      ]
+    );
+  };
+
+  // Signing out here is the only way queued writes and drafts are discarded,
+  // so the user sees exactly what will be lost first
+  const handleLogout = async () => {
+    const draftCount = await Drafts.count();
+    const pending = [
+      pendingCount > 0 && `${pendingCount} unsynced ${pendingCount === 1 ? 'change' : 'changes'}`,
+      draftCount > 0 && `${draftCount} unsaved ${draftCount === 1 ? 'draft' : 'drafts'}`,
+    ].filter(Boolean);
 
-  const handleLogout = () => {
     Alert.alert(
       'Sign Out',
-      'Are you sure you want to sign out?',
+      pending.length > 0
+        ? `You have ${pending.join(' and ')} that will be discarded. Sign out anyway?`
+        : 'Are you sure you want to sign out?',
       [
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'Sign Out', 
           style: 'destructive',
-          onPress: logout
+          onPress: () => logout({ discardPending: true })
         },
       ]
     );
@@ -274,17 +340,43 @@ export default function SettingsScreen() {
           <SettingItem
             icon={Bell}
             title="Notifications"
-            subtitle="Push notifications and alerts"
+            subtitle={remindersSupported ? 'Appointment reminders on this device' : 'Not available in the browser'}
             rightComponent={
               <Switch
-                value={notifications}
-                onValueChange={setNotifications}
+                value={reminderPreferences.enabled}
+                onValueChange={toggleNotifications}
+                disabled={!remindersSupported}
                 trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
-                thumbColor={notifications ? '#FFFFFF' : theme.colors.disabled}
+                thumbColor={reminderPreferences.enabled ? '#FFFFFF' : theme.colors.disabled}
               />
             }
             showChevron={false}
           />
+          {reminderPreferences.enabled && (
+            <>
+              <SettingItem
+                icon={AlarmClock}
+                title="Remind Me"
+                subtitle={describeLeadTimes(reminderPreferences.leadTimes)}
+                onPress={() => setReminderPicker('lead')}
+              />
+              <SettingItem
+                icon={Sunrise}
+                title="Morning Digest"
+                subtitle={reminderPreferences.digestEnabled ? `Today's schedule at ${reminderPreferences.digestTime}` : 'Off'}
+                onPress={reminderPreferences.digestEnabled ? () => setReminderPicker('digest') : undefined}
+                rightComponent={
+                  <Switch
+                    value={reminderPreferences.digestEnabled}
+                    onValueChange={(digestEnabled) => { updatePreferences({ digestEnabled }); }}
+                    trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                    thumbColor={reminderPreferences.digestEnabled ? '#FFFFFF' : theme.colors.disabled}
+                  />
+                }
+                showChevron={false}
+              />
+            </>
+          )}
           <SettingItem
             icon={Globe}
             title="Language"
@@ -293,6 +385,46 @@ export default function SettingsScreen() {
           />
         </SettingSection>
 
+        {/* Security */}
+        <SettingSection title="Security">
+          <SettingItem
+            icon={KeyRound}
+            title="Unlock PIN"
+            subtitle={hasPin ? 'PIN is set' : 'Set a PIN to lock instead of signing out'}
+            onPress={handlePinPress}
+          />
+          <SettingItem
+            icon={Lock}
+            title={hasPin ? 'Auto-lock' : 'Auto sign-out'}
+            subtitle={formatIdleTimeout(idleTimeout)}
+            onPress={() => setShowTimeoutPicker(true)}
+          />
+        </SettingSection>
+
+        {/* Scheduling */}
+        <Can permission="scheduling:configure">
+          <SettingSection title="Scheduling">
+            <SettingItem
+              icon={Timer}
+              title="Buffer Between Appointments"
+              subtitle={formatBuffer(schedulingRules.bufferMinutes)}
+              onPress={() => setSchedulingPicker('buffer')}
+            />
+            <SettingItem
+              icon={Clock}
+              title="Clinic Opens"
+              subtitle={schedulingRules.clinicHours.start}
+              onPress={() => setSchedulingPicker('opens')}
+            />
+            <SettingItem
+              icon={Clock}
+              title="Clinic Closes"
+              subtitle={schedulingRules.clinicHours.end}
+              onPress={() => setSchedulingPicker('closes')}
+            />
+          </SettingSection>
+        </Can>
+
         {/* Data & Privacy */}
         <SettingSection title="Data & Privacy">
           <SettingItem
@@ -355,6 +487,58 @@ export default function SettingsScreen() {
           </ThemedText>
         </View>
       </ScrollView>
+
+      <OptionPickerModal
+        visible={showTimeoutPicker}
+        title={hasPin ? 'Auto-lock' : 'Auto sign-out'}
+        options={IDLE_TIMEOUT_OPTIONS.map((minutes) => ({
+          value: minutes,
+          label: formatIdleTimeout(minutes),
+        }))}
+        selected={idleTimeout}
+        onSelect={setIdleTimeout}
+        onClose={() => setShowTimeoutPicker(false)}
+      />
+      <OptionPickerModal
+        visible={schedulingPicker === 'buffer'}
+        title="Buffer Between Appointments"
+        options={BUFFER_OPTIONS.map((minutes) => ({
+          value: minutes,
+          label: formatBuffer(minutes),
+        }))}
+        selected={schedulingRules.bufferMinutes}
+        onSelect={(bufferMinutes) => updateRules({ bufferMinutes })}
+        onClose={() => setSchedulingPicker(null)}
+      />
+      <OptionPickerModal
+        visible={schedulingPicker === 'opens' || schedulingPicker === 'closes'}
+        title={schedulingPicker === 'opens' ? 'Clinic Opens' : 'Clinic Closes'}
+        options={(schedulingPicker === 'opens' ? CLINIC_OPENING_OPTIONS : CLINIC_CLOSING_OPTIONS).map((time) => ({ value: time, label: time }))}
+        selected={schedulingPicker === 'opens' ? schedulingRules.clinicHours.start : schedulingRules.clinicHours.end}
+        onSelect={(time) => setClinicHours(schedulingPicker === 'opens' ? 'start' : 'end', time)}
+        onClose={() => setSchedulingPicker(null)}
+      />
+      <OptionPickerModal
+        visible={reminderPicker === 'lead'}
+        title="Remind Me"
+        options={LEAD_TIME_OPTIONS}
+        selected={leadTimesKey(reminderPreferences.leadTimes)}
+        onSelect={(value) => updatePreferences({ leadTimes: value.split(',').map(Number) })}
+        onClose={() => setReminderPicker(null)}
+      />
+      <OptionPickerModal
+        visible={reminderPicker === 'digest'}
+        title="Morning Digest"
+        options={DIGEST_TIME_OPTIONS.map((time) => ({ value: time, label: time }))}
+        selected={reminderPreferences.digestTime}
+        onSelect={(digestTime) => updatePreferences({ digestTime })}
+        onClose={() => setReminderPicker(null)}
+      />
+      <PinSetupModal
+        visible={showPinSetup}
+        onSubmit={setPin}
+        onClose={() => setShowPinSetup(false)}
+      />
     </ThemedView>
   );
 }
\ No newline at end of file
@@ -1,37 +1,93 @@
 import { useEffect, useState } from 'react';
+import { View } from 'react-native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClient, onlineManager } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import NetInfo from '@react-native-community/netinfo';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider } from '@/providers/AuthProvider';
+import { InactivityLockProvider, useInactivityLock } from '@/providers/InactivityLockProvider';
+import { SyncProvider } from '@/providers/SyncProvider';
+import { RemindersProvider } from '@/providers/RemindersProvider';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
+import RouteGuard from '@/components/RouteGuard';
+import OutboxConflictReview from '@/components/OutboxConflictReview';
+import LockScreen from '@/components/LockScreen';
+import { EncryptedStorage } from '@/utils/encrypted-storage';
 import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import * as SplashScreen from 'expo-splash-screen';
 
 // Prevent splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
 
+// Drive React Query's online state from the device's connectivity
+onlineManager.setEventListener((setOnline) =>
+  NetInfo.addEventListener((state) => {
+    setOnline(!!state.isConnected);
+  })
+);
+
+const CACHE_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+const PERSISTED_QUERY_KEYS = [
+  'patients',
+  'patient',
+  'appointments',
+  'dashboard-stats',
+  // Bookings made offline are still checked against the clinic's rules
+  'scheduling-rules',
+];
+
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
-      gcTime: 1000 * 60 * 10, // 10 minutes
+      // Must outlive the persisted cache, or restored data is dropped
+      gcTime: CACHE_MAX_AGE,
+      networkMode: 'offlineFirst',
+    },
+    mutations: {
+      // Writes are queued in the outbox when offline instead of pausing
+      networkMode: 'always',
     },
   },
 });
 
+const queryPersister = createAsyncStoragePersister({
+  storage: EncryptedStorage,
+  key: 'query_cache',
+});
+
 function RootLayoutContent() {
   const { isDark } = useTheme();
+  const { locked, registerActivity } = useInactivityLock();
 
+  // The lock sits over every screen, stacked ones like a patient's record
+  // included, and any touch anywhere counts as activity
   return (
-    <>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="(auth)" />
-        <Stack.Screen name="(tabs)" />
-        <Stack.Screen name="+not-found" />
-      </Stack>
+    <RouteGuard>
+      <View
+        style={{ flex: 1 }}
+        onStartShouldSetResponderCapture={() => {
+          registerActivity();
+          return false;
+        }}
+      >
+        <Stack screenOptions={{ headerShown: false }}>
+          <Stack.Screen name="(auth)" />
+          <Stack.Screen name="(tabs)" />
+          <Stack.Screen name="patients/[id]" />
+          <Stack.Screen name="waiting-room" />
+          <Stack.Screen name="waitlist" />
+          <Stack.Screen name="+not-found" />
+        </Stack>
+        <OutboxConflictReview />
+        {locked && <LockScreen />}
+      </View>
       <StatusBar style={isDark ? 'light' : 'dark'} />
-    </>
+    </RouteGuard>
   );
 }
 
@@ -56,12 +112,31 @@ export default function RootLayout() {
   }
 
   return (
-    <QueryClientProvider client={queryClient}>
-      <ThemeProvider>
-        <AuthProvider>
-          <RootLayoutContent />
-        </AuthProvider>
-      </ThemeProvider>
-    </QueryClientProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{
+          persister: queryPersister,
+          maxAge: CACHE_MAX_AGE,
+          dehydrateOptions: {
+            shouldDehydrateQuery: (query) =>
+              query.state.status === 'success' &&
+              PERSISTED_QUERY_KEYS.includes(query.queryKey[0] as string),
+          },
+        }}
+      >
+        <ThemeProvider>
+          <AuthProvider>
+            <SyncProvider>
+              <RemindersProvider>
+                <InactivityLockProvider>
+                  <RootLayoutContent />
+                </InactivityLockProvider>
+              </RemindersProvider>
+            </SyncProvider>
+          </AuthProvider>
+        </ThemeProvider>
+      </PersistQueryClientProvider>
+    </GestureHandlerRootView>
   );
 }
\ No newline at end of file
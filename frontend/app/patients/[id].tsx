@@ -0,0 +1,842 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Redirect, router, useLocalSearchParams } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ArrowLeft,
+  Plus,
+  CreditCard as Edit3,
+  Phone,
+  Mail,
+  MapPin,
+  Calendar,
+  Heart,
+  Pill,
+  TriangleAlert as AlertTriangle,
+  FileText,
+  Users,
+  Shield,
+} from 'lucide-react-native';
+import { useAuth } from '@/providers/AuthProvider';
+import { useTheme } from '@/contexts/ThemeContext';
+import Can from '@/components/Can';
+import PatientForm from '@/components/PatientForm';
+import BookingWizard from '@/components/BookingWizard';
+import MedicationForm from '@/components/MedicationForm';
+import DiscontinueMedicationModal from '@/components/DiscontinueMedicationModal';
+import MedicationTimeline from '@/components/MedicationTimeline';
+import ConflictResolutionModal from '@/components/ConflictResolutionModal';
+import InteractionAlerts from '@/components/InteractionAlerts';
+import { usePatientUpdate } from '@/hooks/usePatientUpdate';
+import { useInteractionDataset } from '@/hooks/useInteractionDataset';
+import { appointmentsApi, patientsApi } from '@/utils/api';
+import {
+  MedicationInput,
+  addMedication,
+  changeMedicationDose,
+  discontinueMedication,
+  getActiveMedications,
+} from '@/utils/medications';
+import { checkMedicationList } from '@/utils/interactions';
+import { ageOn } from '@/utils/reports';
+import { toDateKey } from '@/utils/scheduling';
+import { Appointment, Medication, Patient } from '@/types';
+
+type ChartTab =
+  | 'overview'
+  | 'history'
+  | 'medications'
+  | 'allergies'
+  | 'appointments'
+  | 'documents';
+
+const CHART_TABS: { key: ChartTab; label: string }[] = [
+  { key: 'overview', label: 'Overview' },
+  { key: 'history', label: 'Medical History' },
+  { key: 'medications', label: 'Medications' },
+  { key: 'allergies', label: 'Allergies' },
+  { key: 'appointments', label: 'Appointments' },
+  { key: 'documents', label: 'Documents' },
+];
+
+export default function PatientDetailScreen() {
+  const { id, tab } = useLocalSearchParams<{ id: string; tab?: ChartTab }>();
+  const { user, isAuthenticated, loading } = useAuth();
+  const { theme, isDark } = useTheme();
+  const queryClient = useQueryClient();
+  const [activeTab, setActiveTab] = useState<ChartTab>(
+    CHART_TABS.some(({ key }) => key === tab) ? tab! : 'overview'
+  );
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showBooking, setShowBooking] = useState(false);
+  const [medicationForm, setMedicationForm] = useState<{
+    medication: Medication | null;
+  } | null>(null);
+  const [discontinuing, setDiscontinuing] = useState<Medication | null>(null);
+  const pendingMedications = useRef<Medication[] | null>(null);
+  const interactionDataset = useInteractionDataset();
+
+  const {
+    data: patient,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['patient', id],
+    queryFn: async () => {
+      const response = await patientsApi.getById(id);
+      return response.data ?? null;
+    },
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: medicalHistory = [], isLoading: historyLoading } = useQuery({
+    queryKey: ['patient', id, 'medical-history'],
+    queryFn: async () => {
+      const response = await patientsApi.getMedicalHistory(id);
+      return response.data ?? [];
+    },
+    enabled: isAuthenticated && activeTab === 'history',
+  });
+
+  const {
+    data: medications = [],
+    isLoading: medicationsLoading,
+    isError: medicationsFailed,
+    refetch: refetchMedications,
+  } = useQuery({
+    queryKey: ['patient', id, 'medications'],
+    queryFn: async () => {
+      const response = await patientsApi.getMedications(id);
+      return response.data ?? [];
+    },
+    enabled: isAuthenticated && activeTab === 'medications',
+  });
+
+  const { data: appointments = [], isLoading: appointmentsLoading } = useQuery({
+    queryKey: ['appointments', { patient: id }],
+    queryFn: async () => {
+      const response = await appointmentsApi.getAll({ patient: id });
+      return response.data ?? [];
+    },
+    enabled: isAuthenticated && activeTab === 'appointments',
+  });
+
+  const {
+    updatePatient,
+    isUpdating,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+  } = usePatientUpdate({
+    onSuccess: (queued) => {
+      // Show the new list straight away, even while the write is queued
+      queryClient.setQueryData(
+        ['patient', id, 'medications'],
+        pendingMedications.current
+      );
+      setMedicationForm(null);
+      setDiscontinuing(null);
+      if (queued) {
+        Alert.alert(
+          'Saved Offline',
+          'The medication change will sync when you reconnect.'
+        );
+      }
+    },
+  });
+
+  // Every change writes the whole list, so it must start from the server's
+  const saveMedications = (next: Medication[]) => {
+    if (!patient) {
+      return;
+    }
+    if (medicationsFailed) {
+      Alert.alert(
+        'Error',
+        "The medication list couldn't be loaded, so it can't be changed yet."
+      );
+      return;
+    }
+
+    pendingMedications.current = next;
+    updatePatient(patient, { currentMedications: next });
+  };
+
+  const prescriber = user ? `Dr. ${user.firstName} ${user.lastName}` : '';
+
+  const handleMedicationSubmit = (input: MedicationInput) => {
+    const current = medicationForm?.medication;
+    saveMedications(
+      current
+        ? changeMedicationDose(medications, current.id, input, prescriber)
+        : addMedication(medications, input, prescriber)
+    );
+  };
+
+  const handleDiscontinue = (reason: string) => {
+    if (discontinuing) {
+      saveMedications(
+        discontinueMedication(medications, discontinuing.id, reason)
+      );
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      paddingTop: 60,
+      paddingBottom: 24,
+      paddingHorizontal: 24,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    headerButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    headerContent: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    avatar: {
+      width: 64,
+      height: 64,
+      borderRadius: 32,
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 16,
+    },
+    avatarText: {
+      fontSize: 22,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontFamily: 'Inter-Bold',
+      color: '#FFFFFF',
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: 'rgba(255, 255, 255, 0.8)',
+      textTransform: 'capitalize',
+    },
+    tabs: {
+      flexGrow: 0,
+      backgroundColor: theme.colors.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+    },
+    tab: {
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 20,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+    },
+    activeTab: {
+      backgroundColor: theme.colors.primary,
+    },
+    tabText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    activeTabText: {
+      color: '#FFFFFF',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      padding: 24,
+    },
+    card: {
+      backgroundColor: theme.colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: {
+        width: 0,
+        height: 2,
+      },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    cardTitle: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 12,
+    },
+    detailRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    detailText: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.text,
+      marginLeft: 8,
+    },
+    listItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    listItemText: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+      marginLeft: 12,
+    },
+    listItemMeta: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    allergyBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: isDark ? 'rgba(248, 113, 113, 0.2)' : '#FEF2F2',
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    allergyText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.error,
+      marginLeft: 6,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.primary,
+      borderRadius: 12,
+      paddingVertical: 12,
+      marginBottom: 16,
+    },
+    addButtonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+      marginLeft: 8,
+    },
+    medicationActions: {
+      flexDirection: 'row',
+      marginTop: 6,
+    },
+    actionLink: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+      marginRight: 16,
+    },
+    destructiveLink: {
+      color: theme.colors.error,
+    },
+    badges: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    statusBadge: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 12,
+      backgroundColor: theme.colors.surface,
+    },
+    statusText: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'capitalize',
+    },
+    stateContainer: {
+      alignItems: 'center',
+      paddingTop: 60,
+      paddingHorizontal: 48,
+    },
+    stateTitle: {
+      fontSize: 18,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    stateText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+    retryButton: {
+      paddingHorizontal: 24,
+      marginTop: 16,
+      marginBottom: 0,
+    },
+  });
+
+  if (loading) {
+    return null;
+  }
+
+  if (!isAuthenticated) {
+    return <Redirect href="/(auth)/login" />;
+  }
+
+  const goBack = () =>
+    router.canGoBack() ? router.back() : router.replace('/(tabs)/patients');
+
+  const EmptyState = ({
+    icon: Icon,
+    title,
+    text,
+  }: {
+    icon: any;
+    title: string;
+    text: string;
+  }) => (
+    <View style={styles.stateContainer}>
+      <Icon size={48} color={theme.colors.disabled} />
+      <Text style={styles.stateTitle}>{title}</Text>
+      <Text style={styles.stateText}>{text}</Text>
+    </View>
+  );
+
+  const LoadingState = () => (
+    <View style={styles.stateContainer}>
+      <Text style={styles.stateText}>Loading...</Text>
+    </View>
+  );
+
+  const OverviewTab = ({ patient }: { patient: Patient }) => (
+    <>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Contact</Text>
+        <View style={styles.detailRow}>
+          <Phone size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>{patient.phone}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Mail size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>{patient.email}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <MapPin size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>
+            {patient.address.street}, {patient.address.city},{' '}
+            {patient.address.state} {patient.address.zipCode}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Calendar size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>
+            DOB: {new Date(patient.dateOfBirth).toLocaleDateString()}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Emergency Contact</Text>
+        <View style={styles.detailRow}>
+          <Users size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>
+            {patient.emergencyContact.name} (
+            {patient.emergencyContact.relationship})
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Phone size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>
+            {patient.emergencyContact.phone}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Clinical & Insurance</Text>
+        <View style={styles.detailRow}>
+          <Heart size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>
+            Blood type: {patient.bloodType || 'Unknown'}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Shield size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.detailText}>
+            {patient.insuranceProvider
+              ? `${patient.insuranceProvider} · ${patient.insuranceNumber}`
+              : 'No insurance on file'}
+          </Text>
+        </View>
+      </View>
+    </>
+  );
+
+  const renderTab = (patient: Patient) => {
+    switch (activeTab) {
+      case 'overview':
+        return <OverviewTab patient={patient} />;
+      case 'history':
+        if (historyLoading) {
+          return <LoadingState />;
+        }
+        return medicalHistory.length === 0 ? (
+          <EmptyState
+            icon={Heart}
+            title="No Medical History"
+            text="No conditions have been recorded for this patient."
+          />
+        ) : (
+          <View style={styles.card}>
+            {medicalHistory.map((condition: string) => (
+              <View key={condition} style={styles.listItem}>
+                <Heart size={16} color={theme.colors.primary} />
+                <Text style={styles.listItemText}>{condition}</Text>
+              </View>
+            ))}
+          </View>
+        );
+      case 'medications': {
+        if (medicationsLoading) {
+          return <LoadingState />;
+        }
+        if (medicationsFailed) {
+          return (
+            <View style={styles.stateContainer}>
+              <AlertTriangle size={48} color={theme.colors.error} />
+              <Text style={styles.stateTitle}>Couldn't Load Medications</Text>
+              <Text style={styles.stateText}>
+                Medications can't be changed until the current list loads.
+              </Text>
+              <TouchableOpacity
+                style={[styles.addButton, styles.retryButton]}
+                onPress={() => refetchMedications()}
+              >
+                <Text style={[styles.addButtonText, { marginLeft: 0 }]}>
+                  Try Again
+                </Text>
+              </TouchableOpacity>
+            </View>
+          );
+        }
+        const activeMedications = getActiveMedications(medications);
+        const alerts = checkMedicationList(
+          activeMedications,
+          patient.allergies,
+          interactionDataset
+        );
+        return (
+          <>
+            <Can permission="medications:prescribe">
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setMedicationForm({ medication: null })}
+              >
+                <Plus size={16} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Add Medication</Text>
+              </TouchableOpacity>
+            </Can>
+
+            {alerts.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Interaction Alerts</Text>
+                <InteractionAlerts alerts={alerts} />
+              </View>
+            )}
+
+            {activeMedications.length === 0 ? (
+              <EmptyState
+                icon={Pill}
+                title="No Medications"
+                text="This patient has no current medications."
+              />
+            ) : (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Current</Text>
+                {activeMedications.map((medication) => (
+                  <View key={medication.id} style={styles.listItem}>
+                    <Pill size={16} color={theme.colors.primary} />
+                    <View style={{ flex: 1, marginLeft: 12 }}>
+                      <Text style={[styles.listItemText, { marginLeft: 0 }]}>
+                        {medication.name} · {medication.dosage}
+                      </Text>
+                      <Text style={styles.listItemMeta}>
+                        {medication.frequency} · since{' '}
+                        {new Date(medication.startDate).toLocaleDateString()}
+                      </Text>
+                      {medication.overrideReason && (
+                        <Text style={styles.listItemMeta}>
+                          Alert overridden: {medication.overrideReason}
+                        </Text>
+                      )}
+                      <Can permission="medications:prescribe">
+                        <View style={styles.medicationActions}>
+                          <TouchableOpacity
+                            onPress={() => setMedicationForm({ medication })}
+                          >
+                            <Text style={styles.actionLink}>Change dose</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            onPress={() => setDiscontinuing(medication)}
+                          >
+                            <Text
+                              style={[
+                                styles.actionLink,
+                                styles.destructiveLink,
+                              ]}
+                            >
+                              Discontinue
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                      </Can>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {medications.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Timeline</Text>
+                <MedicationTimeline medications={medications} />
+              </View>
+            )}
+          </>
+        );
+      }
+      case 'allergies':
+        return patient.allergies.length === 0 ? (
+          <EmptyState
+            icon={AlertTriangle}
+            title="No Known Allergies"
+            text="No allergies have been recorded for this patient."
+          />
+        ) : (
+          <View style={styles.badges}>
+            {patient.allergies.map((allergy) => (
+              <View key={allergy} style={styles.allergyBadge}>
+                <AlertTriangle size={14} color={theme.colors.error} />
+                <Text style={styles.allergyText}>{allergy}</Text>
+              </View>
+            ))}
+          </View>
+        );
+      case 'appointments':
+        if (appointmentsLoading) {
+          return <LoadingState />;
+        }
+        return (
+          <>
+            <Can permission="appointments:create">
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setShowBooking(true)}
+              >
+                <Plus size={16} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Book Appointment</Text>
+              </TouchableOpacity>
+            </Can>
+
+            {appointments.length === 0 ? (
+              <EmptyState
+                icon={Calendar}
+                title="No Appointments"
+                text="This patient has no appointments on record."
+              />
+            ) : (
+              <View style={styles.card}>
+                {appointments.map((appointment: Appointment) => (
+                  <View key={appointment.id} style={styles.listItem}>
+                    <Calendar size={16} color={theme.colors.primary} />
+                    <View style={{ flex: 1, marginLeft: 12 }}>
+                      <Text style={[styles.listItemText, { marginLeft: 0 }]}>
+                        {new Date(appointment.date).toLocaleDateString()} at{' '}
+                        {appointment.time}
+                      </Text>
+                      <Text style={styles.listItemMeta}>
+                        {appointment.type} with {appointment.doctorName}
+                      </Text>
+                    </View>
+                    <View style={styles.statusBadge}>
+                      <Text style={styles.statusText}>
+                        {appointment.status}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        );
+      case 'documents':
+        return (
+          <EmptyState
+            icon={FileText}
+            title="No Documents"
+            text="Documents uploaded for this patient will appear here."
+          />
+        );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={isDark ? ['#059669', '#0891B2'] : ['#10B981', '#06B6D4']}
+        style={styles.header}
+      >
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={goBack}
+            accessibilityLabel="Back"
+          >
+            <ArrowLeft size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          {patient && (
+            <Can permission="patients:update">
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => setShowEditForm(true)}
+                accessibilityLabel="Edit patient"
+              >
+                <Edit3 size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+            </Can>
+          )}
+        </View>
+        <View style={styles.headerContent}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>
+              {patient ? `${patient.firstName[0]}${patient.lastName[0]}` : ''}
+            </Text>
+          </View>
+          <View>
+            <Text style={styles.headerTitle}>
+              {patient ? `${patient.firstName} ${patient.lastName}` : 'Patient'}
+            </Text>
+            {patient && (
+              <Text style={styles.headerSubtitle}>
+                {patient.gender} · Age{' '}
+                {ageOn(patient.dateOfBirth, toDateKey(new Date()))}
+              </Text>
+            )}
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.tabs}
+      >
+        {CHART_TABS.map(({ key, label }) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.tab, activeTab === key && styles.activeTab]}
+            onPress={() => setActiveTab(key)}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === key && styles.activeTabText,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          {isLoading ? (
+            <LoadingState />
+          ) : error || !patient ? (
+            <EmptyState
+              icon={Users}
+              title="Patient Not Found"
+              text="This patient could not be loaded. Check your connection and try again."
+            />
+          ) : (
+            renderTab(patient)
+          )}
+        </View>
+      </ScrollView>
+
+      <PatientForm
+        visible={showEditForm}
+        patient={patient ?? null}
+        onClose={() => setShowEditForm(false)}
+      />
+
+      <BookingWizard
+        visible={showBooking}
+        patient={patient}
+        onClose={() => setShowBooking(false)}
+      />
+
+      <MedicationForm
+        visible={medicationForm !== null}
+        medication={medicationForm?.medication ?? null}
+        allergies={patient?.allergies ?? []}
+        currentMedications={getActiveMedications(medications)}
+        submitting={isUpdating}
+        onSubmit={handleMedicationSubmit}
+        onClose={() => setMedicationForm(null)}
+      />
+
+      <DiscontinueMedicationModal
+        medication={discontinuing}
+        submitting={isUpdating}
+        onSubmit={handleDiscontinue}
+        onClose={() => setDiscontinuing(null)}
+      />
+
+      <ConflictResolutionModal
+        conflict={conflict}
+        submitting={isUpdating}
+        onResolve={resolveConflict}
+        onCancel={dismissConflict}
+      />
+    </View>
+  );
+}
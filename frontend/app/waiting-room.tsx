@@ -0,0 +1,522 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import {
+  ArrowLeft,
+  Users,
+  Clock,
+  Stethoscope,
+  CircleCheck as CheckCircle,
+} from 'lucide-react-native';
+import { useAuth } from '@/providers/AuthProvider';
+import { useTheme } from '@/contexts/ThemeContext';
+import Can from '@/components/Can';
+import { useAppointmentsInRange } from '@/hooks/useAppointmentsInRange';
+import { useAppointmentStatus } from '@/hooks/useAppointmentStatus';
+import { getStatusColor } from '@/utils/appointment-colors';
+import { timeToMinutes, toDateKey } from '@/utils/scheduling';
+import {
+  DoctorQueue,
+  formatWait,
+  groupDoctorQueues,
+  minutesSince,
+} from '@/utils/waiting-room';
+import { Appointment } from '@/types';
+
+// The board polls so check-ins from other desks show up without a refresh
+const REFRESH_INTERVAL_MS = 1000 * 30;
+// Waits past these are highlighted
+const WAIT_WARNING_MINUTES = 15;
+const WAIT_ALERT_MINUTES = 30;
+
+export default function WaitingRoomScreen() {
+  const { isAuthenticated, loading } = useAuth();
+  const { theme, isDark } = useTheme();
+  const [now, setNow] = useState(Date.now());
+  const [selectedDoctor, setSelectedDoctor] = useState<string | null>(null);
+  const today = toDateKey(new Date(now));
+  const { checkIn, updateStatus, markNoShow, pendingId } =
+    useAppointmentStatus();
+
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    error,
+    refetch,
+  } = useAppointmentsInRange(
+    { dateFrom: today, dateTo: today },
+    isAuthenticated,
+    REFRESH_INTERVAL_MS
+  );
+  const appointments = data?.items ?? [];
+
+  // Wait times tick between refetches
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000 * 15);
+    return () => clearInterval(interval);
+  }, []);
+
+  const queues = groupDoctorQueues(appointments);
+  // A doctor whose queue has emptied drops back to showing everyone
+  const activeDoctor = queues.some(
+    ({ doctorId }) => doctorId === selectedDoctor
+  )
+    ? selectedDoctor
+    : null;
+  const visibleQueues = activeDoctor
+    ? queues.filter(({ doctorId }) => doctorId === activeDoctor)
+    : queues;
+  const waitingCount = queues.reduce(
+    (total, { waiting }) => total + waiting.length,
+    0
+  );
+  const nowMinutes = new Date(now).getHours() * 60 + new Date(now).getMinutes();
+
+  const waitColor = (minutes: number) => {
+    if (minutes >= WAIT_ALERT_MINUTES) {
+      return theme.colors.error;
+    }
+    return minutes >= WAIT_WARNING_MINUTES
+      ? theme.colors.warning
+      : theme.colors.success;
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      paddingTop: 60,
+      paddingBottom: 24,
+      paddingHorizontal: 24,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    headerButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontFamily: 'Inter-Bold',
+      color: '#FFFFFF',
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: 'rgba(255, 255, 255, 0.8)',
+    },
+    doctorFilters: {
+      flexGrow: 0,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
+    doctorPill: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+      marginHorizontal: 4,
+    },
+    doctorPillActive: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    doctorPillText: {
+      fontSize: 13,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    doctorPillTextActive: {
+      color: '#FFFFFF',
+    },
+    content: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    queueCard: {
+      backgroundColor: theme.colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: {
+        width: 0,
+        height: 2,
+      },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    queueHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 12,
+    },
+    queueTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginLeft: 8,
+    },
+    queueCount: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    groupLabel: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+    },
+    position: {
+      width: 24,
+      fontSize: 14,
+      fontFamily: 'Inter-Bold',
+      color: theme.colors.textSecondary,
+    },
+    rowInfo: {
+      flex: 1,
+    },
+    patientName: {
+      fontSize: 15,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    rowDetail: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    waitBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 12,
+      marginRight: 8,
+    },
+    waitText: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      marginLeft: 4,
+    },
+    actionButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      marginLeft: 6,
+    },
+    actionText: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+    secondaryActionText: {
+      color: theme.colors.textSecondary,
+    },
+    stateContainer: {
+      alignItems: 'center',
+      paddingTop: 60,
+      paddingHorizontal: 48,
+    },
+    stateTitle: {
+      fontSize: 18,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    stateText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
+
+  if (loading) {
+    return null;
+  }
+
+  if (!isAuthenticated) {
+    return <Redirect href="/(auth)/login" />;
+  }
+
+  const goBack = () =>
+    router.canGoBack() ? router.back() : router.replace('/(tabs)/appointments');
+
+  const ActionButton = ({
+    label,
+    color,
+    appointment,
+    onPress,
+  }: {
+    label: string;
+    color?: string;
+    appointment: Appointment;
+    onPress: () => void;
+  }) => (
+    <TouchableOpacity
+      style={[
+        styles.actionButton,
+        { backgroundColor: color ?? theme.colors.surface },
+      ]}
+      onPress={onPress}
+      disabled={pendingId === appointment.id}
+      accessibilityLabel={`${label} ${appointment.patientName}`}
+    >
+      <Text style={[styles.actionText, !color && styles.secondaryActionText]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const WaitBadge = ({ minutes }: { minutes: number }) => {
+    const color = waitColor(minutes);
+    return (
+      <View style={[styles.waitBadge, { backgroundColor: color + '20' }]}>
+        <Clock size={12} color={color} />
+        <Text style={[styles.waitText, { color }]}>{formatWait(minutes)}</Text>
+      </View>
+    );
+  };
+
+  const QueueCard = ({ queue }: { queue: DoctorQueue }) => (
+    <View style={styles.queueCard}>
+      <View style={styles.queueHeader}>
+        <Stethoscope size={18} color={theme.colors.primary} />
+        <Text style={styles.queueTitle}>{queue.doctorName}</Text>
+        <Text style={styles.queueCount}>{queue.waiting.length} waiting</Text>
+      </View>
+
+      {queue.inProgress.length > 0 && (
+        <>
+          <Text style={styles.groupLabel}>With doctor</Text>
+          {queue.inProgress.map((appointment) => (
+            <View key={appointment.id} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.patientName}>
+                  {appointment.patientName}
+                </Text>
+                <Text style={styles.rowDetail}>
+                  Started {formatWait(minutesSince(appointment.startedAt, now))}{' '}
+                  ago · {appointment.type}
+                </Text>
+              </View>
+              <Can permission="appointments:update">
+                <ActionButton
+                  label="Complete"
+                  color={getStatusColor('completed')}
+                  appointment={appointment}
+                  onPress={() => updateStatus(appointment, 'completed')}
+                />
+              </Can>
+            </View>
+          ))}
+        </>
+      )}
+
+      {queue.waiting.length > 0 && (
+        <>
+          <Text style={styles.groupLabel}>Waiting</Text>
+          {queue.waiting.map((appointment, index) => (
+            <View key={appointment.id} style={styles.row}>
+              <Text style={styles.position}>{index + 1}</Text>
+              <View style={styles.rowInfo}>
+                <Text style={styles.patientName}>
+                  {appointment.patientName}
+                </Text>
+                <Text style={styles.rowDetail}>
+                  Booked {appointment.time} · {appointment.type}
+                </Text>
+              </View>
+              <WaitBadge minutes={minutesSince(appointment.checkedInAt, now)} />
+              <Can permission="appointments:update">
+                <ActionButton
+                  label="Start"
+                  color={getStatusColor('in-progress')}
+                  appointment={appointment}
+                  onPress={() => updateStatus(appointment, 'in-progress')}
+                />
+              </Can>
+            </View>
+          ))}
+        </>
+      )}
+
+      {queue.expected.length > 0 && (
+        <>
+          <Text style={styles.groupLabel}>Expected</Text>
+          {queue.expected.map((appointment) => {
+            const late = timeToMinutes(appointment.time) < nowMinutes;
+            return (
+              <View key={appointment.id} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.patientName}>
+                    {appointment.patientName}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.rowDetail,
+                      late && { color: theme.colors.warning },
+                    ]}
+                  >
+                    {appointment.time}
+                    {late ? ' · Late' : ''}
+                  </Text>
+                </View>
+                <Can permission="appointments:check-in">
+                  {late && (
+                    <ActionButton
+                      label="No-show"
+                      appointment={appointment}
+                      onPress={() => markNoShow(appointment)}
+                    />
+                  )}
+                  <ActionButton
+                    label="Check In"
+                    color={getStatusColor('checked-in')}
+                    appointment={appointment}
+                    onPress={() => checkIn(appointment)}
+                  />
+                </Can>
+              </View>
+            );
+          })}
+        </>
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.stateContainer}>
+          <Clock size={48} color={theme.colors.disabled} />
+          <Text style={styles.stateText}>Loading today's queue...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer}>
+          <Users size={48} color={theme.colors.error} />
+          <Text style={styles.stateTitle}>Couldn't load the queue</Text>
+          <Text style={styles.stateText}>Pull down to try again.</Text>
+        </View>
+      );
+    }
+
+    if (visibleQueues.length === 0) {
+      return (
+        <View style={styles.stateContainer}>
+          <CheckCircle size={48} color={theme.colors.disabled} />
+          <Text style={styles.stateTitle}>No one waiting</Text>
+          <Text style={styles.stateText}>
+            Patients appear here once they are checked in.
+          </Text>
+        </View>
+      );
+    }
+
+    return visibleQueues.map((queue) => (
+      <QueueCard key={queue.doctorId} queue={queue} />
+    ));
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={isDark ? ['#7C3AED', '#0891B2'] : ['#8B5CF6', '#06B6D4']}
+        style={styles.header}
+      >
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={goBack}
+            accessibilityLabel="Back"
+          >
+            <ArrowLeft size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.headerTitle}>Waiting Room</Text>
+        <Text style={styles.headerSubtitle}>
+          {waitingCount} waiting · updates every {REFRESH_INTERVAL_MS / 1000}{' '}
+          seconds
+        </Text>
+      </LinearGradient>
+
+      {queues.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.doctorFilters}
+        >
+          {[{ doctorId: null, doctorName: 'All doctors' }, ...queues].map(
+            ({ doctorId, doctorName }) => {
+              const active = activeDoctor === doctorId;
+              return (
+                <TouchableOpacity
+                  key={doctorId ?? 'all'}
+                  style={[styles.doctorPill, active && styles.doctorPillActive]}
+                  onPress={() => setSelectedDoctor(doctorId)}
+                >
+                  <Text
+                    style={[
+                      styles.doctorPillText,
+                      active && styles.doctorPillTextActive,
+                    ]}
+                  >
+                    {doctorName}
+                  </Text>
+                </TouchableOpacity>
+              );
+            }
+          )}
+        </ScrollView>
+      )}
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+        }
+      >
+        {renderContent()}
+      </ScrollView>
+    </View>
+  );
+}
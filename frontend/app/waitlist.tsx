@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowLeft,
+  Plus,
+  ListOrdered,
+  Stethoscope,
+  CalendarDays,
+  Clock,
+} from 'lucide-react-native';
+import { useAuth } from '@/providers/AuthProvider';
+import { useTheme } from '@/contexts/ThemeContext';
+import Can from '@/components/Can';
+import WaitlistEntryModal from '@/components/WaitlistEntryModal';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { usersApi } from '@/utils/api';
+import { daysWaiting, describePreferences } from '@/utils/waitlist';
+
+export default function WaitlistScreen() {
+  const { isAuthenticated, loading } = useAuth();
+  const { theme, isDark } = useTheme();
+  const [showAdd, setShowAdd] = useState(false);
+  const { entries, isLoading, isRefetching, error, refetch, removeEntry } =
+    useWaitlist(isAuthenticated);
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors'],
+    queryFn: async () => {
+      const response = await usersApi.getDoctors();
+      return response.data ?? [];
+    },
+    enabled: isAuthenticated,
+  });
+
+  // Longest waiting first, the order offers break ties in
+  const sortedEntries = [...entries].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      paddingTop: 60,
+      paddingBottom: 24,
+      paddingHorizontal: 24,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    headerButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontFamily: 'Inter-Bold',
+      color: '#FFFFFF',
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: 'rgba(255, 255, 255, 0.8)',
+    },
+    content: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    entryCard: {
+      backgroundColor: theme.colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: {
+        width: 0,
+        height: 2,
+      },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    entryHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    position: {
+      width: 24,
+      fontSize: 14,
+      fontFamily: 'Inter-Bold',
+      color: theme.colors.textSecondary,
+    },
+    patientName: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    waited: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    detail: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 4,
+    },
+    detailText: {
+      flex: 1,
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginLeft: 8,
+      textTransform: 'capitalize',
+    },
+    notes: {
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 8,
+    },
+    removeButton: {
+      alignSelf: 'flex-end',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: theme.colors.surface,
+      marginTop: 8,
+    },
+    removeText: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.error,
+    },
+    stateContainer: {
+      alignItems: 'center',
+      paddingTop: 60,
+      paddingHorizontal: 48,
+    },
+    stateTitle: {
+      fontSize: 18,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    stateText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
+
+  if (loading) {
+    return null;
+  }
+
+  if (!isAuthenticated) {
+    return <Redirect href="/(auth)/login" />;
+  }
+
+  const goBack = () =>
+    router.canGoBack() ? router.back() : router.replace('/(tabs)/appointments');
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.stateContainer}>
+          <Clock size={48} color={theme.colors.disabled} />
+          <Text style={styles.stateText}>Loading the waitlist...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer}>
+          <ListOrdered size={48} color={theme.colors.error} />
+          <Text style={styles.stateTitle}>Couldn't load the waitlist</Text>
+          <Text style={styles.stateText}>Pull down to try again.</Text>
+        </View>
+      );
+    }
+
+    if (sortedEntries.length === 0) {
+      return (
+        <View style={styles.stateContainer}>
+          <ListOrdered size={48} color={theme.colors.disabled} />
+          <Text style={styles.stateTitle}>No one waiting</Text>
+          <Text style={styles.stateText}>
+            Patients added here are offered cancelled slots that suit them.
+          </Text>
+        </View>
+      );
+    }
+
+    return sortedEntries.map((entry, index) => {
+      const [doctorText, dayText, timeText] = describePreferences(
+        entry,
+        doctors
+      );
+      const waited = daysWaiting(entry);
+
+      return (
+        <View key={entry.id} style={styles.entryCard}>
+          <View style={styles.entryHeader}>
+            <Text style={styles.position}>{index + 1}</Text>
+            <Text style={styles.patientName}>{entry.patientName}</Text>
+            <Text style={styles.waited}>
+              {waited === 0 ? 'Added today' : `${waited}d waiting`}
+            </Text>
+          </View>
+          <View style={styles.detail}>
+            <Stethoscope size={14} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>
+              {entry.type} · {entry.duration} min · {doctorText}
+            </Text>
+          </View>
+          <View style={styles.detail}>
+            <CalendarDays size={14} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>
+              {dayText} · {timeText}
+            </Text>
+          </View>
+          {entry.notes && <Text style={styles.notes}>{entry.notes}</Text>}
+          <Can permission="appointments:create">
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removeEntry(entry)}
+              accessibilityLabel={`Remove ${entry.patientName} from the waitlist`}
+            >
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </Can>
+        </View>
+      );
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={isDark ? ['#7C3AED', '#0891B2'] : ['#8B5CF6', '#06B6D4']}
+        style={styles.header}
+      >
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={goBack}
+            accessibilityLabel="Back"
+          >
+            <ArrowLeft size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Can permission="appointments:create">
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => setShowAdd(true)}
+              accessibilityLabel="Add to waitlist"
+            >
+              <Plus size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </Can>
+        </View>
+        <Text style={styles.headerTitle}>Waitlist</Text>
+        <Text style={styles.headerSubtitle}>
+          {entries.length} waiting for an earlier slot
+        </Text>
+      </LinearGradient>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+        }
+      >
+        {renderContent()}
+      </ScrollView>
+
+      <WaitlistEntryModal visible={showAdd} onClose={() => setShowAdd(false)} />
+    </View>
+  );
+}
@@ -0,0 +1,354 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { AppointmentSchedule } from '@/hooks/useAppointmentReschedule';
+import { parseDateKey } from '@/utils/recurrence';
+import { APPOINTMENT_DURATIONS, toDateKey } from '@/utils/scheduling';
+import { Appointment, User } from '@/types';
+
+interface AppointmentEditModalProps {
+  // The appointment being edited; the modal is hidden while null
+  appointment: Appointment | null;
+  doctors: User[];
+  onSave: (changes: AppointmentSchedule) => void;
+  onClose: () => void;
+}
+
+const scheduleOf = (appointment: Appointment): AppointmentSchedule => ({
+  doctorId: appointment.doctorId,
+  doctorName: appointment.doctorName,
+  date: appointment.date.split('T')[0],
+  time: appointment.time,
+  duration: appointment.duration,
+});
+
+const validateSchedule = ({ date, time }: AppointmentSchedule) => {
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+    toDateKey(parseDateKey(date)) !== date
+  ) {
+    return 'Enter the date as YYYY-MM-DD';
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+    return 'Enter the time as HH:MM';
+  }
+  return null;
+};
+
+// Changes when and with whom an appointment is booked. Conflicts are checked
+// by whoever applies the change, the same way as a calendar drag.
+export default function AppointmentEditModal({
+  appointment,
+  doctors,
+  onSave,
+  onClose,
+}: AppointmentEditModalProps) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<AppointmentSchedule | null>(null);
+
+  useEffect(() => {
+    setDraft(appointment && scheduleOf(appointment));
+  }, [appointment]);
+
+  const error = draft && validateSchedule(draft);
+  const durations = APPOINTMENT_DURATIONS.includes(draft?.duration ?? 0)
+    ? APPOINTMENT_DURATIONS
+    : [...APPOINTMENT_DURATIONS, draft!.duration].sort((a, b) => a - b);
+
+  const setField = <K extends keyof AppointmentSchedule>(
+    field: K,
+    value: AppointmentSchedule[K]
+  ) => setDraft((current) => current && { ...current, [field]: value });
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: Platform.OS === 'ios' ? 24 : 16,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    headerTitle: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    closeButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
+    content: {
+      flex: 1,
+    },
+    contentInner: {
+      padding: theme.spacing.lg,
+    },
+    label: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 6,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    row: {
+      flexDirection: 'row',
+      marginHorizontal: -6,
+    },
+    rowField: {
+      flex: 1,
+      marginHorizontal: 6,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 12,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+    error: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.error,
+      marginTop: -4,
+      marginBottom: theme.spacing.md,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    selectedChip: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    selectedChipText: {
+      color: '#FFFFFF',
+    },
+    footer: {
+      flexDirection: 'row',
+      padding: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: theme.borderRadius.lg,
+      alignItems: 'center',
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.surface,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderChips = <T extends string | number>(
+    options: { value: T; label: string }[],
+    selected: T | undefined,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, isSelected && styles.selectedChip]}
+            onPress={() => onSelect(option.value)}
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text
+              style={[styles.chipText, isSelected && styles.selectedChipText]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={appointment !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.headerTitle}>Edit Appointment</Text>
+            {appointment && (
+              <Text style={styles.headerSubtitle}>
+                {appointment.patientName}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityLabel="Close"
+          >
+            <X size={20} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={[styles.field, styles.row]}>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Date</Text>
+              <TextInput
+                style={styles.input}
+                value={draft?.date ?? ''}
+                onChangeText={(text) => setField('date', text)}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={theme.colors.placeholder}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Time</Text>
+              <TextInput
+                style={styles.input}
+                value={draft?.time ?? ''}
+                onChangeText={(text) => setField('time', text)}
+                placeholder="HH:MM"
+                placeholderTextColor={theme.colors.placeholder}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+          </View>
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Duration</Text>
+            {renderChips(
+              durations.map((minutes) => ({
+                value: minutes,
+                label: `${minutes} min`,
+              })),
+              draft?.duration,
+              (duration) => setField('duration', duration)
+            )}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Doctor</Text>
+            {renderChips(
+              doctors.map((doctor) => ({
+                value: doctor.id,
+                label: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+              })),
+              draft?.doctorId,
+              (doctorId) => {
+                const doctor = doctors.find(({ id }) => id === doctorId)!;
+                setDraft(
+                  (current) =>
+                    current && {
+                      ...current,
+                      doctorId,
+                      doctorName: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+                    }
+                );
+              }
+            )}
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.footerButton, styles.secondaryButton]}
+            onPress={onClose}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.primaryButton,
+              !!error && styles.disabledButton,
+            ]}
+            onPress={() => draft && onSave(draft)}
+            disabled={!!error}
+          >
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,1223 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { X, Search, Check, CircleAlert } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  ConflictError,
+  NetworkError,
+  appointmentsApi,
+  patientsApi,
+  usersApi,
+} from '@/utils/api';
+import {
+  APPOINTMENT_DURATIONS,
+  getFreeSlots,
+  toDateKey,
+} from '@/utils/scheduling';
+import { checkOccurrences } from '@/utils/availability';
+import { ScheduleConflictError } from '@/utils/schedule-conflicts';
+import { useSchedulingRules } from '@/hooks/useSchedulingRules';
+import {
+  RECURRENCE_PRESETS,
+  RecurrencePreset,
+  createSeriesId,
+  describeRecurrence,
+  getOccurrenceDates,
+  presetToRule,
+  validateRecurrence,
+} from '@/utils/recurrence';
+import { Appointment, Patient, RecurrenceRule, User } from '@/types';
+
+const BOOKING_WINDOW_DAYS = 28;
+
+type BookingStep =
+  | 'patient'
+  | 'doctor'
+  | 'date'
+  | 'slot'
+  | 'repeat'
+  | 'type'
+  | 'notes'
+  | 'confirm';
+
+const BOOKING_STEPS: { key: BookingStep; title: string }[] = [
+  { key: 'patient', title: 'Patient' },
+  { key: 'doctor', title: 'Doctor' },
+  { key: 'date', title: 'Date' },
+  { key: 'slot', title: 'Time' },
+  { key: 'repeat', title: 'Repeat' },
+  { key: 'type', title: 'Type' },
+  { key: 'notes', title: 'Notes' },
+  { key: 'confirm', title: 'Confirm' },
+];
+
+const APPOINTMENT_TYPES: { value: Appointment['type']; label: string }[] = [
+  { value: 'checkup', label: 'Checkup' },
+  { value: 'consultation', label: 'Consultation' },
+  { value: 'followup', label: 'Follow-up' },
+  { value: 'emergency', label: 'Emergency' },
+];
+
+interface BookingValues {
+  patient: Patient | null;
+  doctor: User | null;
+  date: string;
+  duration: number;
+  time: string;
+  type: Appointment['type'];
+  reason: string;
+  notes: string;
+  repeat: RecurrencePreset;
+  repeatWeeks: string;
+  repeatEnd: 'count' | 'until';
+  repeatCount: string;
+  repeatUntil: string;
+}
+
+interface BookingRequest {
+  booking: BookingValues;
+  // Set once the user has chosen to book despite scheduling warnings
+  acknowledgeWarnings?: boolean;
+}
+
+interface BookingResult {
+  booked: number;
+  skipped: string[];
+  // Occurrences whose booking failed after earlier ones were already made
+  failed: { date: string; message: string }[];
+  queued: boolean;
+}
+
+const REPEAT_ENDS: { value: BookingValues['repeatEnd']; label: string }[] = [
+  { value: 'count', label: 'After a number of visits' },
+  { value: 'until', label: 'On a date' },
+];
+
+const emptyBooking = (patient?: Patient | null): BookingValues => ({
+  patient: patient ?? null,
+  doctor: null,
+  date: toDateKey(new Date()),
+  duration: 30,
+  time: '',
+  type: 'checkup',
+  reason: '',
+  notes: '',
+  repeat: 'none',
+  repeatWeeks: '2',
+  repeatEnd: 'count',
+  repeatCount: '6',
+  repeatUntil: '',
+});
+
+const bookingRecurrence = (values: BookingValues): RecurrenceRule | null => {
+  const rule = presetToRule(values.repeat, Number(values.repeatWeeks));
+  if (!rule) {
+    return null;
+  }
+
+  return values.repeatEnd === 'count'
+    ? { ...rule, count: Number(values.repeatCount) }
+    : { ...rule, until: values.repeatUntil.trim() };
+};
+
+const bookingDatesFor = (values: BookingValues) => {
+  const rule = bookingRecurrence(values);
+  return rule ? getOccurrenceDates(rule, values.date) : [values.date];
+};
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const bookingDates = () =>
+  Array.from({ length: BOOKING_WINDOW_DAYS }, (_, index) => {
+    const date = new Date();
+    date.setDate(date.getDate() + index);
+    return date;
+  });
+
+// Returns why the step cannot be left yet, or null when it is complete
+const validateStep = (step: BookingStep, values: BookingValues) => {
+  switch (step) {
+    case 'patient':
+      return values.patient ? null : 'Select a patient';
+    case 'doctor':
+      return values.doctor ? null : 'Select a doctor';
+    case 'slot':
+      return values.time ? null : 'Select a time slot';
+    case 'repeat': {
+      const rule = bookingRecurrence(values);
+      return rule ? validateRecurrence(rule, values.date) : null;
+    }
+    case 'notes':
+      return values.reason.trim() ? null : 'Enter a reason for the visit';
+    default:
+      return null;
+  }
+};
+
+interface BookingWizardProps {
+  visible: boolean;
+  // Preselects the patient when booking from their chart
+  patient?: Patient | null;
+  onClose: () => void;
+}
+
+export default function BookingWizard({
+  visible,
+  patient,
+  onClose,
+}: BookingWizardProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const { rules, canOverbook } = useSchedulingRules();
+  const [values, setValues] = useState<BookingValues>(emptyBooking);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [stepError, setStepError] = useState<string | null>(null);
+  const [patientSearch, setPatientSearch] = useState('');
+
+  const step = BOOKING_STEPS[stepIndex].key;
+
+  useEffect(() => {
+    if (visible) {
+      setValues(emptyBooking(patient));
+      setStepIndex(patient ? 1 : 0);
+      setStepError(null);
+      setPatientSearch('');
+    }
+  }, [visible, patient?.id]);
+
+  const { data: patientsResponse, isLoading: patientsLoading } = useQuery({
+    queryKey: ['patients', patientSearch],
+    queryFn: () =>
+      patientsApi.getAll(patientSearch ? { search: patientSearch } : undefined),
+    enabled: visible && step === 'patient',
+  });
+  const patients = patientsResponse?.data ?? [];
+
+  const { data: doctors = [], isLoading: doctorsLoading } = useQuery({
+    queryKey: ['doctors'],
+    queryFn: async () => {
+      const response = await usersApi.getDoctors();
+      return response.data ?? [];
+    },
+    enabled: visible,
+  });
+
+  const doctorId = values.doctor?.id;
+
+  const {
+    data: availability,
+    isLoading: availabilityLoading,
+    error: availabilityError,
+  } = useQuery({
+    queryKey: ['availability', doctorId, values.date],
+    queryFn: async () => {
+      const response = await appointmentsApi.getDoctorAvailability(
+        doctorId!,
+        values.date
+      );
+      return response.data;
+    },
+    enabled: visible && step === 'slot' && !!doctorId,
+    staleTime: 0,
+  });
+
+  const freeSlots = getFreeSlots(availability, values.date, values.duration);
+
+  const recurrence = bookingRecurrence(values);
+  const occurrenceDates = !recurrence
+    ? [values.date]
+    : validateRecurrence(recurrence, values.date)
+      ? []
+      : getOccurrenceDates(recurrence, values.date);
+
+  // Every occurrence is run through the conflict engine on its own date so
+  // clashes can be reported before booking; blocked dates of a series are
+  // skipped, not the whole series
+  const {
+    data: occurrenceChecks = [],
+    isLoading: occurrencesLoading,
+    error: occurrencesError,
+  } = useQuery({
+    queryKey: [
+      'availability',
+      'occurrences',
+      values.patient?.id,
+      doctorId,
+      values.time,
+      values.duration,
+      occurrenceDates,
+      rules,
+      canOverbook,
+    ],
+    queryFn: () =>
+      checkOccurrences(
+        occurrenceDates.map((date) => ({
+          patientId: values.patient!.id,
+          doctorId: doctorId!,
+          date,
+          time: values.time,
+          duration: values.duration,
+        })),
+        { rules, canOverbook }
+      ),
+    enabled:
+      visible &&
+      ((step === 'repeat' && !!recurrence) || step === 'confirm') &&
+      !!values.patient &&
+      !!doctorId &&
+      !!values.time &&
+      occurrenceDates.length > 0,
+    staleTime: 0,
+  });
+  const skippedDates = occurrenceChecks
+    .filter(({ free }) => !free)
+    .map(({ date }) => date);
+
+  // Conflicts are re-checked right before booking so a slot taken in the
+  // meantime is rejected instead of double-booked
+  const bookMutation = useMutation({
+    mutationFn: async ({
+      booking,
+      acknowledgeWarnings,
+    }: BookingRequest): Promise<BookingResult> => {
+      const doctor = booking.doctor!;
+      const rule = bookingRecurrence(booking);
+      const checks = await checkOccurrences(
+        bookingDatesFor(booking).map((date) => ({
+          patientId: booking.patient!.id,
+          doctorId: doctor.id,
+          date,
+          time: booking.time,
+          duration: booking.duration,
+        })),
+        { rules, canOverbook }
+      );
+
+      if (!checks[0].free) {
+        throw new ScheduleConflictError(checks[0].conflicts);
+      }
+
+      const warnings = checks
+        .filter(({ free }) => free)
+        .flatMap(({ conflicts }) => conflicts);
+      if (warnings.length > 0 && !acknowledgeWarnings) {
+        throw new ScheduleConflictError(warnings);
+      }
+
+      const seriesId = rule ? createSeriesId() : undefined;
+      const result: BookingResult = {
+        booked: 0,
+        skipped: [],
+        failed: [],
+        queued: false,
+      };
+
+      for (const check of checks) {
+        if (!check.free) {
+          result.skipped.push(check.date);
+          continue;
+        }
+
+        try {
+          const response = await appointmentsApi.create({
+            patient: booking.patient!.id,
+            doctor: doctor.id,
+            type: booking.type,
+            date: check.date,
+            time: booking.time,
+            duration: booking.duration,
+            reason: booking.reason.trim(),
+            notes: booking.notes.trim() || undefined,
+            seriesId,
+            recurrence: rule ?? undefined,
+          });
+          result.booked++;
+          result.queued = result.queued || !!response.queued;
+        } catch (error: any) {
+          // Nothing is booked yet, so the whole booking can still be retried
+          if (result.booked === 0) {
+            throw error;
+          }
+
+          // Later occurrences are reported instead of failing the booking,
+          // so the ones already made aren't booked again on a retry
+          result.failed.push({
+            date: check.date,
+            message:
+              error instanceof ConflictError
+                ? 'the slot was just taken'
+                : error.message || 'booking failed',
+          });
+        }
+      }
+
+      return result;
+    },
+    onSuccess: ({ booked, skipped, failed, queued }) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      onClose();
+
+      const summary =
+        booked === 1
+          ? 'Appointment booked successfully'
+          : `${booked} appointments booked successfully`;
+      const skippedNote =
+        skipped.length > 0
+          ? `\n\nSkipped because the doctor was unavailable: ${skipped.map(formatShortDate).join(', ')}`
+          : '';
+      const failedNote =
+        failed.length > 0
+          ? `\n\nCould not be booked: ${failed.map(({ date, message }) => `${formatShortDate(date)} (${message})`).join(', ')}`
+          : '';
+
+      if (failedNote) {
+        Alert.alert(
+          'Partially Booked',
+          `${summary}${skippedNote}${failedNote}\n\nBook the missing dates separately.`
+        );
+        return;
+      }
+
+      Alert.alert(
+        'Success',
+        queued
+          ? `Saved offline. The appointments will sync when you reconnect.${skippedNote}`
+          : `${summary}${skippedNote}`
+      );
+    },
+    onError: (error: any, request) => {
+      const { booking } = request;
+
+      if (error instanceof ScheduleConflictError && !error.blocking) {
+        Alert.alert('Scheduling Warnings', error.message, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Book Anyway',
+            onPress: () =>
+              bookMutation.mutate({ ...request, acknowledgeWarnings: true }),
+          },
+        ]);
+        return;
+      }
+
+      if (error instanceof ScheduleConflictError) {
+        queryClient.invalidateQueries({
+          queryKey: ['availability', booking.doctor!.id, booking.date],
+        });
+        setValues((prev) => ({ ...prev, time: '' }));
+        setStepIndex(BOOKING_STEPS.findIndex(({ key }) => key === 'slot'));
+        Alert.alert(
+          'Slot Unavailable',
+          `${error.message}\n\nPlease choose another time.`
+        );
+        return;
+      }
+
+      if (error instanceof ConflictError) {
+        queryClient.invalidateQueries({
+          queryKey: ['availability', booking.doctor!.id, booking.date],
+        });
+        setValues((prev) => ({ ...prev, time: '' }));
+        setStepIndex(BOOKING_STEPS.findIndex(({ key }) => key === 'slot'));
+        Alert.alert(
+          'Slot Unavailable',
+          'That time was just booked. The free slots have been refreshed, please choose another.'
+        );
+        return;
+      }
+
+      if (error instanceof NetworkError) {
+        Alert.alert(
+          'Offline',
+          'Connect to the internet to confirm the slot is still free.'
+        );
+        return;
+      }
+
+      Alert.alert('Error', error.message || 'Failed to book appointment');
+    },
+  });
+
+  const setField = <K extends keyof BookingValues>(
+    field: K,
+    value: BookingValues[K]
+  ) => {
+    setValues((prev) => {
+      const next = { ...prev, [field]: value };
+      // A new doctor, date or length invalidates the chosen slot
+      if (field === 'doctor' || field === 'date' || field === 'duration') {
+        next.time = '';
+      }
+      return next;
+    });
+    setStepError(null);
+  };
+
+  const goToStep = (index: number) => {
+    for (let current = stepIndex; current < index; current++) {
+      const error = validateStep(BOOKING_STEPS[current].key, values);
+      if (error) {
+        setStepIndex(current);
+        setStepError(error);
+        return;
+      }
+    }
+
+    setStepError(null);
+    setStepIndex(index);
+  };
+
+  const handleSubmit = () => {
+    const invalidStep = BOOKING_STEPS.findIndex(({ key }) =>
+      validateStep(key, values)
+    );
+
+    if (invalidStep !== -1) {
+      setStepIndex(invalidStep);
+      setStepError(validateStep(BOOKING_STEPS[invalidStep].key, values));
+      return;
+    }
+
+    bookMutation.mutate({ booking: values });
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: Platform.OS === 'ios' ? 24 : 16,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    headerTitle: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    closeButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
+    steps: {
+      flexGrow: 0,
+      paddingVertical: theme.spacing.md,
+      paddingHorizontal: theme.spacing.md,
+      backgroundColor: theme.colors.card,
+    },
+    stepChip: {
+      paddingHorizontal: 14,
+      paddingVertical: 6,
+      borderRadius: 16,
+      marginHorizontal: 4,
+      backgroundColor: theme.colors.surface,
+    },
+    activeStepChip: {
+      backgroundColor: theme.colors.primary,
+    },
+    stepChipText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    activeStepChipText: {
+      color: '#FFFFFF',
+    },
+    content: {
+      flex: 1,
+    },
+    contentInner: {
+      padding: theme.spacing.lg,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginBottom: theme.spacing.md,
+    },
+    label: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 6,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 12,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+    multilineInput: {
+      minHeight: 96,
+      textAlignVertical: 'top',
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: theme.spacing.md,
+    },
+    searchInput: {
+      flex: 1,
+      marginLeft: theme.spacing.sm,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: theme.spacing.md,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+      marginBottom: theme.spacing.sm,
+    },
+    selectedOption: {
+      borderColor: theme.colors.primary,
+      borderWidth: 2,
+    },
+    optionTitle: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    optionSubtitle: {
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    selectedChip: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    selectedChipText: {
+      color: '#FFFFFF',
+    },
+    message: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    errorText: {
+      fontSize: 13,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.error,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.sm,
+    },
+    reviewRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    reviewLabel: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginRight: theme.spacing.md,
+    },
+    reviewValue: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+      textAlign: 'right',
+    },
+    occurrenceRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    occurrenceDetails: {
+      flex: 1,
+      marginLeft: theme.spacing.sm,
+    },
+    occurrenceDate: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    occurrenceConflict: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    conflicts: {
+      marginTop: theme.spacing.md,
+    },
+    conflictRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      paddingVertical: 6,
+    },
+    conflictText: {
+      flex: 1,
+      marginLeft: theme.spacing.sm,
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.text,
+    },
+    occurrenceSkipped: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.warning,
+    },
+    footer: {
+      flexDirection: 'row',
+      padding: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: theme.borderRadius.lg,
+      alignItems: 'center',
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.surface,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderChips = <T extends string | number>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.chip, isSelected && styles.selectedChip]}
+            onPress={() => onSelect(option.value)}
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text
+              style={[styles.chipText, isSelected && styles.selectedChipText]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderOption = (
+    key: string,
+    title: string,
+    subtitle: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.selectedOption]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+    >
+      <View>
+        <Text style={styles.optionTitle}>{title}</Text>
+        <Text style={styles.optionSubtitle}>{subtitle}</Text>
+      </View>
+      {selected && <Check size={20} color={theme.colors.primary} />}
+    </TouchableOpacity>
+  );
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  const renderStep = () => {
+    switch (step) {
+      case 'patient':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Select Patient</Text>
+            <View style={[styles.input, styles.searchRow]}>
+              <Search size={18} color={theme.colors.textSecondary} />
+              <TextInput
+                style={[styles.searchInput, { color: theme.colors.text }]}
+                value={patientSearch}
+                onChangeText={setPatientSearch}
+                placeholder="Search patients..."
+                placeholderTextColor={theme.colors.placeholder}
+              />
+            </View>
+            {patientsLoading ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : patients.length === 0 ? (
+              <Text style={styles.message}>No patients found</Text>
+            ) : (
+              patients.map((item) =>
+                renderOption(
+                  item.id,
+                  `${item.firstName} ${item.lastName}`,
+                  `${item.phone} · DOB ${new Date(item.dateOfBirth).toLocaleDateString()}`,
+                  values.patient?.id === item.id,
+                  () => setField('patient', item)
+                )
+              )
+            )}
+          </>
+        );
+      case 'doctor':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Select Doctor</Text>
+            {doctorsLoading ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : doctors.length === 0 ? (
+              <Text style={styles.message}>No doctors available</Text>
+            ) : (
+              doctors.map((doctor) =>
+                renderOption(
+                  doctor.id,
+                  `Dr. ${doctor.firstName} ${doctor.lastName}`,
+                  doctor.email,
+                  values.doctor?.id === doctor.id,
+                  () => setField('doctor', doctor)
+                )
+              )
+            )}
+          </>
+        );
+      case 'date':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Choose a Date</Text>
+            {renderChips(
+              bookingDates().map((date) => ({
+                value: toDateKey(date),
+                label: date.toLocaleDateString('en-US', {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                }),
+              })),
+              values.date,
+              (date) => setField('date', date)
+            )}
+          </>
+        );
+      case 'slot':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Choose a Time</Text>
+            <Text style={styles.message}>
+              Dr. {values.doctor?.firstName} {values.doctor?.lastName} on{' '}
+              {formatDate(values.date)}
+            </Text>
+            <View style={styles.field}>
+              <Text style={styles.label}>Duration</Text>
+              {renderChips(
+                APPOINTMENT_DURATIONS.map((minutes) => ({
+                  value: minutes,
+                  label: `${minutes} min`,
+                })),
+                values.duration,
+                (duration) => setField('duration', duration)
+              )}
+            </View>
+            <Text style={styles.label}>Free Slots</Text>
+            {availabilityLoading ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : availabilityError ? (
+              <Text style={styles.message}>
+                Could not load availability. Check your connection and try
+                again.
+              </Text>
+            ) : freeSlots.length === 0 ? (
+              <Text style={styles.message}>
+                No free {values.duration}-minute slots on this date. Try a
+                shorter duration or another day.
+              </Text>
+            ) : (
+              renderChips(
+                freeSlots.map((time) => ({ value: time, label: time })),
+                values.time,
+                (time) => setField('time', time)
+              )
+            )}
+          </>
+        );
+      case 'repeat':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Repeat</Text>
+            <View style={styles.field}>
+              {renderChips(RECURRENCE_PRESETS, values.repeat, (repeat) =>
+                setField('repeat', repeat)
+              )}
+            </View>
+            {values.repeat === 'every-n-weeks' && (
+              <View style={styles.field}>
+                <Text style={styles.label}>Weeks Between Visits</Text>
+                <TextInput
+                  style={styles.input}
+                  value={values.repeatWeeks}
+                  onChangeText={(text) => setField('repeatWeeks', text)}
+                  keyboardType="number-pad"
+                  maxLength={2}
+                />
+              </View>
+            )}
+            {recurrence && (
+              <>
+                <View style={styles.field}>
+                  <Text style={styles.label}>Ends</Text>
+                  {renderChips(REPEAT_ENDS, values.repeatEnd, (repeatEnd) =>
+                    setField('repeatEnd', repeatEnd)
+                  )}
+                  {values.repeatEnd === 'count' ? (
+                    <TextInput
+                      style={styles.input}
+                      value={values.repeatCount}
+                      onChangeText={(text) => setField('repeatCount', text)}
+                      placeholder="Number of visits"
+                      placeholderTextColor={theme.colors.placeholder}
+                      keyboardType="number-pad"
+                      maxLength={2}
+                    />
+                  ) : (
+                    <TextInput
+                      style={styles.input}
+                      value={values.repeatUntil}
+                      onChangeText={(text) => setField('repeatUntil', text)}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor={theme.colors.placeholder}
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={10}
+                    />
+                  )}
+                </View>
+
+                <Text style={styles.label}>Occurrences</Text>
+                {occurrenceDates.length === 0 ? (
+                  <Text style={styles.message}>
+                    {validateRecurrence(recurrence, values.date)}
+                  </Text>
+                ) : occurrencesLoading ? (
+                  <ActivityIndicator color={theme.colors.primary} />
+                ) : occurrencesError ? (
+                  <Text style={styles.message}>
+                    Could not check availability for the series. Check your
+                    connection and try again.
+                  </Text>
+                ) : (
+                  occurrenceChecks.map(({ date, free, conflicts }) => (
+                    <View key={date} style={styles.occurrenceRow}>
+                      {conflicts.length === 0 ? (
+                        <Check size={16} color={theme.colors.success} />
+                      ) : (
+                        <CircleAlert
+                          size={16}
+                          color={
+                            free ? theme.colors.warning : theme.colors.error
+                          }
+                        />
+                      )}
+                      <View style={styles.occurrenceDetails}>
+                        <Text style={styles.occurrenceDate}>
+                          {formatShortDate(date)} at {values.time}
+                        </Text>
+                        {conflicts.length > 0 && (
+                          <Text style={styles.occurrenceConflict}>
+                            {conflicts[0].message}
+                          </Text>
+                        )}
+                      </View>
+                      {!free && (
+                        <Text style={styles.occurrenceSkipped}>
+                          Will be skipped
+                        </Text>
+                      )}
+                    </View>
+                  ))
+                )}
+              </>
+            )}
+          </>
+        );
+      case 'type':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Appointment Type</Text>
+            {renderChips(APPOINTMENT_TYPES, values.type, (type) =>
+              setField('type', type)
+            )}
+          </>
+        );
+      case 'notes':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Visit Details</Text>
+            <View style={styles.field}>
+              <Text style={styles.label}>Reason for Visit</Text>
+              <TextInput
+                style={styles.input}
+                value={values.reason}
+                onChangeText={(text) => setField('reason', text)}
+                placeholder="e.g. Annual physical"
+                placeholderTextColor={theme.colors.placeholder}
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={values.notes}
+                onChangeText={(text) => setField('notes', text)}
+                placeholder="Optional notes for the doctor"
+                placeholderTextColor={theme.colors.placeholder}
+                multiline
+              />
+            </View>
+          </>
+        );
+      case 'confirm':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Confirm Booking</Text>
+            {(
+              [
+                [
+                  'Patient',
+                  `${values.patient?.firstName} ${values.patient?.lastName}`,
+                ],
+                [
+                  'Doctor',
+                  `Dr. ${values.doctor?.firstName} ${values.doctor?.lastName}`,
+                ],
+                ['Date', formatDate(values.date)],
+                ['Time', `${values.time} (${values.duration} min)`],
+                ['Repeats', recurrence ? describeRecurrence(recurrence) : 'No'],
+                ...(skippedDates.length > 0
+                  ? [['Skipped', skippedDates.map(formatShortDate).join(', ')]]
+                  : []),
+                [
+                  'Type',
+                  APPOINTMENT_TYPES.find(({ value }) => value === values.type)!
+                    .label,
+                ],
+                ['Reason', values.reason],
+                ['Notes', values.notes || '—'],
+              ] as [string, string][]
+            ).map(([label, value]) => (
+              <View key={label} style={styles.reviewRow}>
+                <Text style={styles.reviewLabel}>{label}</Text>
+                <Text style={styles.reviewValue}>{value}</Text>
+              </View>
+            ))}
+            {occurrenceChecks.some(({ conflicts }) => conflicts.length > 0) && (
+              <View style={styles.conflicts}>
+                <Text style={styles.label}>Scheduling Conflicts</Text>
+                {occurrenceChecks.flatMap(({ date, conflicts }) =>
+                  conflicts.map((conflict, index) => (
+                    <View key={`${date}-${index}`} style={styles.conflictRow}>
+                      <CircleAlert
+                        size={16}
+                        color={
+                          conflict.severity === 'error'
+                            ? theme.colors.error
+                            : theme.colors.warning
+                        }
+                      />
+                      <Text style={styles.conflictText}>
+                        {recurrence ? `${formatShortDate(date)}: ` : ''}
+                        {conflict.message}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            )}
+          </>
+        );
+    }
+  };
+
+  const isLastStep = stepIndex === BOOKING_STEPS.length - 1;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Book Appointment</Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityLabel="Close"
+          >
+            <X size={20} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.steps}
+        >
+          {BOOKING_STEPS.map(({ key, title }, index) => (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.stepChip,
+                index === stepIndex && styles.activeStepChip,
+              ]}
+              onPress={() => goToStep(index)}
+            >
+              <Text
+                style={[
+                  styles.stepChipText,
+                  index === stepIndex && styles.activeStepChipText,
+                ]}
+              >
+                {index + 1}. {title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderStep()}
+        </ScrollView>
+
+        {stepError && <Text style={styles.errorText}>{stepError}</Text>}
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.secondaryButton,
+              stepIndex === 0 && styles.disabledButton,
+            ]}
+            onPress={() => {
+              setStepError(null);
+              setStepIndex(stepIndex - 1);
+            }}
+            disabled={stepIndex === 0}
+          >
+            <Text style={styles.secondaryButtonText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.primaryButton,
+              bookMutation.isPending && styles.disabledButton,
+            ]}
+            onPress={isLastStep ? handleSubmit : () => goToStep(stepIndex + 1)}
+            disabled={bookMutation.isPending}
+          >
+            <Text style={styles.primaryButtonText}>
+              {isLastStep
+                ? bookMutation.isPending
+                  ? 'Booking...'
+                  : 'Book Appointment'
+                : 'Next'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,429 @@
+import React from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import {
+  Gesture,
+  GestureDetector,
+  ScrollView,
+} from 'react-native-gesture-handler';
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+} from 'react-native-reanimated';
+import { useTheme } from '@/contexts/ThemeContext';
+import { AppointmentSchedule } from '@/hooks/useAppointmentReschedule';
+import { CalendarColumn, layoutDayColumn } from '@/utils/calendar';
+import { getStatusColor, getTypeColor } from '@/utils/appointment-colors';
+import {
+  SLOT_INTERVAL_MINUTES,
+  minutesToTime,
+  timeToMinutes,
+} from '@/utils/scheduling';
+import { Appointment } from '@/types';
+
+export const HOUR_HEIGHT = 64;
+export const DAY_START_HOUR = 7;
+export const DAY_END_HOUR = 20;
+const TIME_GUTTER_WIDTH = 56;
+const COLUMN_WIDTH = 168;
+const SNAP_HEIGHT = (SLOT_INTERVAL_MINUTES / 60) * HOUR_HEIGHT;
+const LONG_PRESS_MS = 400;
+const RESIZE_HANDLE_HEIGHT = 10;
+const MOVABLE_STATUSES: Appointment['status'][] = ['scheduled', 'confirmed'];
+
+// Touch needs a long press so scrolling still works; a mouse drags straight away
+const withActivation = <T extends ReturnType<typeof Gesture.Pan>>(pan: T) =>
+  Platform.OS === 'web' ? pan : pan.activateAfterLongPress(LONG_PRESS_MS);
+
+interface AppointmentBlockProps {
+  appointment: Appointment;
+  top: number;
+  height: number;
+  left: number;
+  width: number;
+  onPress?: () => void;
+  // Offsets are whole columns and minutes on the slot grid
+  onDrop?: (columnOffset: number, minuteOffset: number) => void;
+  onResize?: (minuteOffset: number) => void;
+}
+
+function AppointmentBlock({
+  appointment,
+  top,
+  height,
+  left,
+  width,
+  onPress,
+  onDrop,
+  onResize,
+}: AppointmentBlockProps) {
+  const { theme } = useTheme();
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const extraHeight = useSharedValue(0);
+  const active = useSharedValue(false);
+  const minHeight = SNAP_HEIGHT - 2;
+
+  const reset = () => {
+    translateX.value = 0;
+    translateY.value = 0;
+    extraHeight.value = 0;
+  };
+
+  const finishDrag = (x: number, y: number) => {
+    onDrop?.(
+      Math.round(x / COLUMN_WIDTH),
+      Math.round(y / SNAP_HEIGHT) * SLOT_INTERVAL_MINUTES
+    );
+    reset();
+  };
+
+  const finishResize = (extra: number) => {
+    onResize?.(Math.round(extra / SNAP_HEIGHT) * SLOT_INTERVAL_MINUTES);
+    reset();
+  };
+
+  const tap = Gesture.Tap()
+    .enabled(!!onPress)
+    .onEnd(() => {
+      if (onPress) {
+        runOnJS(onPress)();
+      }
+    });
+
+  const drag = withActivation(Gesture.Pan())
+    .enabled(!!onDrop)
+    .onStart(() => {
+      active.value = true;
+    })
+    .onUpdate((event) => {
+      translateX.value =
+        Math.round(event.translationX / COLUMN_WIDTH) * COLUMN_WIDTH;
+      translateY.value =
+        Math.round(event.translationY / SNAP_HEIGHT) * SNAP_HEIGHT;
+    })
+    .onEnd(() => {
+      runOnJS(finishDrag)(translateX.value, translateY.value);
+    })
+    .onFinalize(() => {
+      active.value = false;
+    });
+
+  const resize = withActivation(Gesture.Pan())
+    .enabled(!!onResize)
+    .onStart(() => {
+      active.value = true;
+    })
+    .onUpdate((event) => {
+      extraHeight.value = Math.max(
+        Math.round(event.translationY / SNAP_HEIGHT) * SNAP_HEIGHT,
+        minHeight - height
+      );
+    })
+    .onEnd(() => {
+      runOnJS(finishResize)(extraHeight.value);
+    })
+    .onFinalize(() => {
+      active.value = false;
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    height: height + extraHeight.value,
+    opacity: active.value ? 0.85 : 1,
+    zIndex: active.value ? 10 : 1,
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+    ],
+  }));
+
+  const styles = StyleSheet.create({
+    block: {
+      position: 'absolute',
+      borderRadius: 6,
+      borderLeftWidth: 4,
+      paddingHorizontal: 6,
+      paddingVertical: 4,
+      overflow: 'hidden',
+    },
+    blockTime: {
+      fontSize: 11,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    blockTitle: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    blockMeta: {
+      fontSize: 11,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textTransform: 'capitalize',
+    },
+    resizeHandle: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      bottom: 0,
+      height: RESIZE_HANDLE_HEIGHT,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    resizeGrip: {
+      width: 24,
+      height: 3,
+      borderRadius: 2,
+      backgroundColor: theme.colors.textSecondary,
+      opacity: 0.5,
+    },
+  });
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(drag, tap)}>
+      <Animated.View
+        style={[
+          styles.block,
+          {
+            top,
+            left,
+            width,
+            backgroundColor: getTypeColor(appointment.type) + '26',
+            borderLeftColor: getStatusColor(appointment.status),
+          },
+          animatedStyle,
+        ]}
+        accessibilityLabel={`${appointment.time}, ${appointment.patientName}, ${appointment.type}, ${appointment.status}`}
+        accessibilityHint={
+          onDrop ? 'Long press and drag to move this appointment' : undefined
+        }
+      >
+        <Text style={styles.blockTime}>
+          {appointment.time} · {appointment.duration}m
+        </Text>
+        <Text style={styles.blockTitle} numberOfLines={1}>
+          {appointment.patientName}
+        </Text>
+        <Text style={styles.blockMeta} numberOfLines={1}>
+          {appointment.type} · {appointment.status}
+        </Text>
+
+        {onResize && (
+          <GestureDetector gesture={resize}>
+            <View style={styles.resizeHandle}>
+              <View style={styles.resizeGrip} />
+            </View>
+          </GestureDetector>
+        )}
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+interface CalendarDayViewProps {
+  appointments: Appointment[];
+  columns: CalendarColumn[];
+  onSelectAppointment?: (appointment: Appointment) => void;
+  // Set when the user may reschedule; enables dragging and resizing
+  onMoveAppointment?: (
+    appointment: Appointment,
+    changes: Partial<AppointmentSchedule>
+  ) => void;
+}
+
+export default function CalendarDayView({
+  appointments,
+  columns,
+  onSelectAppointment,
+  onMoveAppointment,
+}: CalendarDayViewProps) {
+  const { theme } = useTheme();
+
+  // Widen the grid if anything is booked outside the usual hours
+  const startHour = Math.min(
+    DAY_START_HOUR,
+    ...appointments.map(({ time }) => Math.floor(timeToMinutes(time) / 60))
+  );
+  const endHour = Math.max(
+    DAY_END_HOUR,
+    ...appointments.map(({ time, duration }) =>
+      Math.ceil((timeToMinutes(time) + duration) / 60)
+    )
+  );
+  const hours = Array.from(
+    { length: endHour - startHour },
+    (_, index) => startHour + index
+  );
+  const gridHeight = hours.length * HOUR_HEIGHT;
+
+  // Drops are clamped to the visible columns and hours
+  const moveAppointment = (
+    appointment: Appointment,
+    columnIndex: number,
+    columnOffset: number,
+    minuteOffset: number
+  ) => {
+    const column =
+      columns[
+        Math.min(Math.max(columnIndex + columnOffset, 0), columns.length - 1)
+      ];
+    const start = Math.min(
+      Math.max(timeToMinutes(appointment.time) + minuteOffset, startHour * 60),
+      endHour * 60 - appointment.duration
+    );
+
+    onMoveAppointment?.(appointment, {
+      doctorId: column.id,
+      doctorName: column.name,
+      time: minutesToTime(start),
+    });
+  };
+
+  const resizeAppointment = (appointment: Appointment, minuteOffset: number) =>
+    onMoveAppointment?.(appointment, {
+      duration: Math.min(
+        Math.max(appointment.duration + minuteOffset, SLOT_INTERVAL_MINUTES),
+        endHour * 60 - timeToMinutes(appointment.time)
+      ),
+    });
+
+  const styles = StyleSheet.create({
+    body: {
+      flex: 1,
+    },
+    header: {
+      flexDirection: 'row',
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    gutter: {
+      width: TIME_GUTTER_WIDTH,
+    },
+    columnHeader: {
+      width: COLUMN_WIDTH,
+      paddingVertical: 10,
+      paddingHorizontal: 8,
+      borderLeftWidth: 1,
+      borderLeftColor: theme.colors.border,
+    },
+    columnTitle: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    grid: {
+      flexDirection: 'row',
+      height: gridHeight,
+    },
+    hourLabel: {
+      height: HOUR_HEIGHT,
+      paddingRight: 8,
+      alignItems: 'flex-end',
+    },
+    hourText: {
+      fontSize: 11,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+      marginTop: -7,
+    },
+    column: {
+      width: COLUMN_WIDTH,
+      borderLeftWidth: 1,
+      borderLeftColor: theme.colors.border,
+    },
+    hourLine: {
+      height: HOUR_HEIGHT,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+    },
+  });
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View style={styles.body}>
+        <View style={styles.header}>
+          <View style={styles.gutter} />
+          {columns.map((column) => (
+            <View key={column.id} style={styles.columnHeader}>
+              <Text style={styles.columnTitle} numberOfLines={1}>
+                {column.name}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+          <View style={styles.grid}>
+            <View style={styles.gutter}>
+              {hours.map((hour) => (
+                <View key={hour} style={styles.hourLabel}>
+                  <Text style={styles.hourText}>
+                    {minutesToTime(hour * 60)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {columns.map((column, columnIndex) => (
+              <View key={column.id} style={styles.column}>
+                {hours.map((hour) => (
+                  <View key={hour} style={styles.hourLine} />
+                ))}
+
+                {layoutDayColumn(
+                  appointments.filter(({ doctorId }) => doctorId === column.id)
+                ).map(({ appointment, lane, laneCount }) => {
+                  const laneWidth = (COLUMN_WIDTH - 8) / laneCount;
+                  const movable =
+                    !!onMoveAppointment &&
+                    MOVABLE_STATUSES.includes(appointment.status);
+
+                  return (
+                    <AppointmentBlock
+                      key={appointment.id}
+                      appointment={appointment}
+                      top={
+                        ((timeToMinutes(appointment.time) - startHour * 60) /
+                          60) *
+                        HOUR_HEIGHT
+                      }
+                      height={Math.max(
+                        (appointment.duration / 60) * HOUR_HEIGHT - 2,
+                        20
+                      )}
+                      left={4 + lane * laneWidth}
+                      width={laneWidth - 2}
+                      onPress={
+                        onSelectAppointment &&
+                        (() => onSelectAppointment(appointment))
+                      }
+                      onDrop={
+                        movable
+                          ? (columnOffset, minuteOffset) =>
+                              moveAppointment(
+                                appointment,
+                                columnIndex,
+                                columnOffset,
+                                minuteOffset
+                              )
+                          : undefined
+                      }
+                      onResize={
+                        movable
+                          ? (minuteOffset) =>
+                              resizeAppointment(appointment, minuteOffset)
+                          : undefined
+                      }
+                    />
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,583 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Platform,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  X,
+  FileUp,
+  CircleAlert,
+  User as UserIcon,
+  Stethoscope,
+  Repeat,
+} from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { NetworkError, appointmentsApi, usersApi } from '@/utils/api';
+import { OccurrenceCheck, checkOccurrences } from '@/utils/availability';
+import { pickTextFile } from '@/utils/files';
+import {
+  ICSEvent,
+  eventDates,
+  matchDoctor,
+  matchPatient,
+  parseCalendar,
+} from '@/utils/ics';
+import { createSeriesId, describeRecurrence } from '@/utils/recurrence';
+import { useSchedulingRules } from '@/hooks/useSchedulingRules';
+import { Patient, User } from '@/types';
+
+const ICS_PICKER_TYPES = [
+  'text/calendar',
+  'application/ics',
+  'text/x-vcalendar',
+  'application/octet-stream',
+];
+
+// Statuses an import may set; visit progress is left to the clinic
+const IMPORTABLE_STATUSES = ['scheduled', 'confirmed'];
+
+interface ImportRow {
+  key: string;
+  event: ICSEvent;
+  patient?: Patient;
+  doctor?: User;
+  checks: OccurrenceCheck[];
+  include: boolean;
+}
+
+interface CalendarImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const participantNames = (event: ICSEvent) =>
+  event.participants
+    .map(({ name, email }) => name ?? email)
+    .filter(Boolean)
+    .join(', ') || 'no attendees';
+
+// Reads an .ics file, matches its attendees to patients and doctors, and
+// shows what would be booked before anything is created
+export default function CalendarImportModal({
+  visible,
+  onClose,
+}: CalendarImportModalProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const { rules, canOverbook } = useSchedulingRules();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [skipped, setSkipped] = useState<{ summary: string; reason: string }[]>(
+    []
+  );
+  const [preparing, setPreparing] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setRows(null);
+    setSkipped([]);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const prepareRows = async (events: ICSEvent[]): Promise<ImportRow[]> => {
+    const doctors = (await usersApi.getDoctors()).data ?? [];
+    const matched = [];
+
+    for (const event of events) {
+      const doctor = matchDoctor(event.participants, doctors);
+      const patient = await matchPatient(
+        event.participants.filter(
+          (participant) =>
+            !doctor || matchDoctor([participant], [doctor]) === undefined
+        )
+      );
+      matched.push({ event, patient, doctor });
+    }
+
+    const targets = matched.flatMap(({ event, patient, doctor }, index) =>
+      patient && doctor
+        ? eventDates(event).map((date) => ({
+            index,
+            patientId: patient.id,
+            doctorId: doctor.id,
+            date,
+            time: event.time,
+            duration: event.duration,
+          }))
+        : []
+    );
+    const checks = await checkOccurrences(targets, { rules, canOverbook });
+
+    return matched.map(({ event, patient, doctor }, index) => {
+      const rowChecks = checks.filter((_, i) => targets[i].index === index);
+      return {
+        key: `${event.uid}-${event.date}-${event.time}`,
+        event,
+        patient,
+        doctor,
+        checks: rowChecks,
+        include: rowChecks.some(({ free }) => free),
+      };
+    });
+  };
+
+  const chooseFile = async () => {
+    try {
+      const file = await pickTextFile(ICS_PICKER_TYPES);
+      if (!file) {
+        return;
+      }
+
+      setPreparing(true);
+      const { events, skipped: unreadable } = parseCalendar(file.contents);
+
+      if (events.length === 0 && unreadable.length === 0) {
+        Alert.alert('Nothing to Import', 'No events were found in this file.');
+        return;
+      }
+
+      setFileName(file.name);
+      setSkipped(unreadable);
+      setRows(await prepareRows(events));
+    } catch (error: any) {
+      console.error('Error importing calendar:', error);
+      Alert.alert(
+        error instanceof NetworkError ? 'Offline' : 'Error',
+        error instanceof NetworkError
+          ? 'Connect to the internet to match attendees and check availability.'
+          : error.message || 'Failed to read the calendar file'
+      );
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (selected: ImportRow[]) => {
+      const result = { booked: 0, skipped: 0, queued: false };
+
+      for (const { event, patient, doctor, checks } of selected) {
+        const free = checks.filter(({ free }) => free);
+        const seriesId =
+          event.recurrence && free.length > 1 ? createSeriesId() : undefined;
+        result.skipped += checks.length - free.length;
+
+        for (const check of free) {
+          const response = await appointmentsApi.create({
+            patient: patient!.id,
+            doctor: doctor!.id,
+            type: event.type,
+            date: check.date,
+            time: check.time,
+            duration: check.duration,
+            reason: event.summary,
+            notes: event.description,
+            ...(event.status &&
+              IMPORTABLE_STATUSES.includes(event.status) && {
+                status: event.status,
+              }),
+            ...(seriesId && { seriesId, recurrence: event.recurrence }),
+          });
+          result.booked++;
+          result.queued = result.queued || !!response.queued;
+        }
+      }
+
+      return result;
+    },
+    onSuccess: ({ booked, skipped: unavailable, queued }) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      Alert.alert(
+        'Import Complete',
+        [
+          `${booked} ${booked === 1 ? 'appointment' : 'appointments'} created.`,
+          unavailable > 0 &&
+            `${unavailable} unavailable ${unavailable === 1 ? 'date was' : 'dates were'} skipped.`,
+          queued && 'They will sync when you reconnect.',
+        ]
+          .filter(Boolean)
+          .join(' ')
+      );
+      close();
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      Alert.alert('Error', error.message || 'Failed to import appointments');
+    },
+  });
+
+  const toggleRow = (key: string) =>
+    setRows(
+      (current) =>
+        current?.map((row) =>
+          row.key === key ? { ...row, include: !row.include } : row
+        ) ?? null
+    );
+
+  const selected = (rows ?? []).filter(({ include }) => include);
+  const bookingCount = selected.reduce(
+    (total, { checks }) => total + checks.filter(({ free }) => free).length,
+    0
+  );
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: Platform.OS === 'ios' ? 24 : 16,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    headerTitle: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    closeButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
+    content: {
+      flex: 1,
+    },
+    contentInner: {
+      padding: theme.spacing.lg,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingTop: 60,
+      paddingHorizontal: theme.spacing.lg,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 24,
+    },
+    fileName: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    row: {
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      marginBottom: theme.spacing.md,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    excludedRow: {
+      opacity: 0.6,
+    },
+    rowHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    rowTitle: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    rowWhen: {
+      fontSize: 13,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+      marginBottom: 8,
+    },
+    detail: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 4,
+    },
+    detailText: {
+      flex: 1,
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginLeft: 8,
+    },
+    missingText: {
+      color: theme.colors.error,
+    },
+    warningText: {
+      color: theme.colors.warning,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginTop: theme.spacing.md,
+      marginBottom: theme.spacing.sm,
+    },
+    footer: {
+      flexDirection: 'row',
+      padding: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: theme.borderRadius.lg,
+      alignItems: 'center',
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.surface,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderRow = (row: ImportRow) => {
+    const { event, patient, doctor, checks } = row;
+    const blocked = checks.filter(({ free }) => !free);
+    const warned = checks.filter(
+      ({ free, conflicts }) => free && conflicts.length > 0
+    );
+    const bookable = checks.length - blocked.length;
+
+    return (
+      <View
+        key={row.key}
+        style={[styles.row, !row.include && styles.excludedRow]}
+      >
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowTitle}>{event.summary}</Text>
+          <Switch
+            value={row.include}
+            onValueChange={() => toggleRow(row.key)}
+            disabled={bookable === 0}
+            trackColor={{
+              false: theme.colors.border,
+              true: theme.colors.primary,
+            }}
+            thumbColor={row.include ? '#FFFFFF' : theme.colors.disabled}
+          />
+        </View>
+        <Text style={styles.rowWhen}>
+          {formatDate(event.date)} · {event.time} · {event.duration} min ·{' '}
+          {event.type}
+        </Text>
+
+        <View style={styles.detail}>
+          <UserIcon size={14} color={theme.colors.textSecondary} />
+          <Text style={[styles.detailText, !patient && styles.missingText]}>
+            {patient
+              ? `${patient.firstName} ${patient.lastName}`
+              : `No patient matches ${participantNames(event)}`}
+          </Text>
+        </View>
+        <View style={styles.detail}>
+          <Stethoscope size={14} color={theme.colors.textSecondary} />
+          <Text style={[styles.detailText, !doctor && styles.missingText]}>
+            {doctor
+              ? `Dr. ${doctor.firstName} ${doctor.lastName}`
+              : `No doctor matches ${participantNames(event)}`}
+          </Text>
+        </View>
+        {event.recurrence && (
+          <View style={styles.detail}>
+            <Repeat size={14} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>
+              {describeRecurrence(event.recurrence)} ·{' '}
+              {eventDates(event).length} dates
+            </Text>
+          </View>
+        )}
+        {[
+          ...event.warnings,
+          ...(blocked.length > 0
+            ? [
+                `Will be skipped: ${blocked
+                  .map(({ date }) => formatDate(date))
+                  .join(', ')}`,
+              ]
+            : []),
+          ...warned.flatMap(({ date, conflicts }) =>
+            conflicts.map(({ message }) => `${formatDate(date)}: ${message}`)
+          ),
+        ].map((message) => (
+          <View key={message} style={styles.detail}>
+            <CircleAlert size={14} color={theme.colors.warning} />
+            <Text style={[styles.detailText, styles.warningText]}>
+              {message}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (preparing) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <Text style={styles.emptyText}>
+            Matching attendees and checking availability...
+          </Text>
+        </View>
+      );
+    }
+
+    if (!rows) {
+      return (
+        <View style={styles.emptyState}>
+          <FileUp size={48} color={theme.colors.disabled} />
+          <Text style={styles.emptyTitle}>Import from a calendar file</Text>
+          <Text style={styles.emptyText}>
+            Choose an .ics file, such as a referral invite. Attendees are
+            matched to patients and doctors, and you can review every
+            appointment before it is booked.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.fileName}>{fileName}</Text>
+        {rows.map(renderRow)}
+        {skipped.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Not imported</Text>
+            {skipped.map(({ summary, reason }, index) => (
+              <View key={`${summary}-${index}`} style={styles.detail}>
+                <CircleAlert size={14} color={theme.colors.textSecondary} />
+                <Text style={styles.detailText}>
+                  {summary}: {reason}
+                </Text>
+              </View>
+            ))}
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={close}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Import Calendar</Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={close}
+            accessibilityLabel="Close"
+          >
+            <X size={20} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+        >
+          {renderContent()}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.secondaryButton,
+              preparing && styles.disabledButton,
+            ]}
+            onPress={chooseFile}
+            disabled={preparing || importMutation.isPending}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {rows ? 'Choose Another' : 'Choose File'}
+            </Text>
+          </TouchableOpacity>
+          {rows && (
+            <TouchableOpacity
+              style={[
+                styles.footerButton,
+                styles.primaryButton,
+                (bookingCount === 0 || importMutation.isPending) &&
+                  styles.disabledButton,
+              ]}
+              onPress={() => importMutation.mutate(selected)}
+              disabled={bookingCount === 0 || importMutation.isPending}
+            >
+              <Text style={styles.primaryButtonText}>
+                {importMutation.isPending
+                  ? 'Importing...'
+                  : `Book ${bookingCount}`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { groupByDate } from '@/utils/calendar';
+import { STATUS_COLORS } from '@/utils/appointment-colors';
+import { toDateKey } from '@/utils/scheduling';
+import { Appointment } from '@/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface CalendarMonthViewProps {
+  month: Date;
+  days: Date[];
+  appointments: Appointment[];
+  onSelectDay?: (date: Date) => void;
+}
+
+export default function CalendarMonthView({
+  month,
+  days,
+  appointments,
+  onSelectDay,
+}: CalendarMonthViewProps) {
+  const { theme } = useTheme();
+  const byDate = groupByDate(appointments);
+  const todayKey = toDateKey(new Date());
+
+  const styles = StyleSheet.create({
+    container: {
+      padding: 12,
+    },
+    weekdays: {
+      flexDirection: 'row',
+      marginBottom: 4,
+    },
+    weekday: {
+      flex: 1,
+      textAlign: 'center',
+      fontSize: 11,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    cell: {
+      width: `${100 / 7}%`,
+      aspectRatio: 0.8,
+      padding: 2,
+    },
+    cellInner: {
+      flex: 1,
+      borderRadius: 8,
+      padding: 6,
+      backgroundColor: theme.colors.card,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    todayCell: {
+      borderColor: theme.colors.primary,
+      borderWidth: 2,
+    },
+    outsideMonth: {
+      opacity: 0.4,
+    },
+    dayNumber: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    count: {
+      fontSize: 18,
+      fontFamily: 'Inter-Bold',
+      color: theme.colors.primary,
+      marginTop: 2,
+    },
+    statusBar: {
+      flexDirection: 'row',
+      height: 4,
+      borderRadius: 2,
+      overflow: 'hidden',
+      marginTop: 'auto',
+    },
+  });
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.weekdays}>
+        {WEEKDAYS.map((day) => (
+          <Text key={day} style={styles.weekday}>
+            {day}
+          </Text>
+        ))}
+      </View>
+      <View style={styles.grid}>
+        {days.map((day) => {
+          const key = toDateKey(day);
+          const dayAppointments = byDate[key] ?? [];
+          const statusCounts = Object.entries(STATUS_COLORS)
+            .map(([status, color]) => ({
+              color,
+              count: dayAppointments.filter((a) => a.status === status).length,
+            }))
+            .filter(({ count }) => count > 0);
+
+          return (
+            <TouchableOpacity
+              key={key}
+              style={styles.cell}
+              onPress={() => onSelectDay?.(day)}
+              accessibilityLabel={`${day.toDateString()}, ${dayAppointments.length} appointments`}
+            >
+              <View
+                style={[
+                  styles.cellInner,
+                  key === todayKey && styles.todayCell,
+                  day.getMonth() !== month.getMonth() && styles.outsideMonth,
+                ]}
+              >
+                <Text style={styles.dayNumber}>{day.getDate()}</Text>
+                {dayAppointments.length > 0 && (
+                  <Text style={styles.count}>{dayAppointments.length}</Text>
+                )}
+                <View style={styles.statusBar}>
+                  {statusCounts.map(({ color, count }) => (
+                    <View
+                      key={color}
+                      style={{ flex: count, backgroundColor: color }}
+                    />
+                  ))}
+                </View>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,179 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { CalendarColumn, groupByDate } from '@/utils/calendar';
+import { getStatusColor, getTypeColor } from '@/utils/appointment-colors';
+import { timeToMinutes, toDateKey } from '@/utils/scheduling';
+import { Appointment } from '@/types';
+
+const DOCTOR_COLUMN_WIDTH = 112;
+const DAY_COLUMN_WIDTH = 132;
+const MAX_VISIBLE_PER_CELL = 3;
+
+interface CalendarWeekViewProps {
+  days: Date[];
+  appointments: Appointment[];
+  doctors: CalendarColumn[];
+  onSelectAppointment?: (appointment: Appointment) => void;
+  onSelectDay?: (date: Date) => void;
+}
+
+export default function CalendarWeekView({
+  days,
+  appointments,
+  doctors,
+  onSelectAppointment,
+  onSelectDay,
+}: CalendarWeekViewProps) {
+  const { theme } = useTheme();
+  const byDate = groupByDate(appointments);
+  const todayKey = toDateKey(new Date());
+
+  const styles = StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    headerRow: {
+      backgroundColor: theme.colors.card,
+    },
+    doctorCell: {
+      width: DOCTOR_COLUMN_WIDTH,
+      padding: 8,
+      justifyContent: 'center',
+      backgroundColor: theme.colors.card,
+    },
+    doctorName: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    dayHeader: {
+      width: DAY_COLUMN_WIDTH,
+      paddingVertical: 10,
+      alignItems: 'center',
+      borderLeftWidth: 1,
+      borderLeftColor: theme.colors.border,
+    },
+    dayName: {
+      fontSize: 11,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+    },
+    dayNumber: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    today: {
+      color: theme.colors.primary,
+    },
+    cell: {
+      width: DAY_COLUMN_WIDTH,
+      minHeight: 88,
+      padding: 4,
+      borderLeftWidth: 1,
+      borderLeftColor: theme.colors.border,
+    },
+    chip: {
+      borderRadius: 4,
+      borderLeftWidth: 3,
+      paddingHorizontal: 4,
+      paddingVertical: 2,
+      marginBottom: 3,
+    },
+    chipText: {
+      fontSize: 11,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    more: {
+      fontSize: 11,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+      paddingHorizontal: 4,
+    },
+  });
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={[styles.row, styles.headerRow]}>
+          <View style={styles.doctorCell} />
+          {days.map((day) => {
+            const isToday = toDateKey(day) === todayKey;
+            return (
+              <TouchableOpacity
+                key={day.toISOString()}
+                style={styles.dayHeader}
+                onPress={() => onSelectDay?.(day)}
+              >
+                <Text style={[styles.dayName, isToday && styles.today]}>
+                  {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                </Text>
+                <Text style={[styles.dayNumber, isToday && styles.today]}>
+                  {day.getDate()}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {doctors.map((doctor) => (
+          <View key={doctor.id} style={styles.row}>
+            <View style={styles.doctorCell}>
+              <Text style={styles.doctorName} numberOfLines={2}>
+                {doctor.name}
+              </Text>
+            </View>
+            {days.map((day) => {
+              const cellAppointments = (byDate[toDateKey(day)] ?? [])
+                .filter(({ doctorId }) => doctorId === doctor.id)
+                .sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+              const hidden = cellAppointments.length - MAX_VISIBLE_PER_CELL;
+
+              return (
+                <View key={day.toISOString()} style={styles.cell}>
+                  {cellAppointments
+                    .slice(0, MAX_VISIBLE_PER_CELL)
+                    .map((appointment) => (
+                      <TouchableOpacity
+                        key={appointment.id}
+                        style={[
+                          styles.chip,
+                          {
+                            backgroundColor:
+                              getTypeColor(appointment.type) + '26',
+                            borderLeftColor: getStatusColor(appointment.status),
+                          },
+                        ]}
+                        onPress={() => onSelectAppointment?.(appointment)}
+                        accessibilityLabel={`${appointment.time}, ${appointment.patientName}, ${appointment.type}, ${appointment.status}`}
+                      >
+                        <Text style={styles.chipText} numberOfLines={1}>
+                          {appointment.time} {appointment.patientName}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  {hidden > 0 && (
+                    <TouchableOpacity onPress={() => onSelectDay?.(day)}>
+                      <Text style={styles.more}>+{hidden} more</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </ScrollView>
+    </ScrollView>
+  );
+}
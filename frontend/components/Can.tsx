@@ -0,0 +1,18 @@
+import React from 'react';
+import { usePermission } from '@/hooks/usePermission';
+import { Permission } from '@/utils/permissions';
+
+interface CanProps {
+  permission: Permission;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export default function Can({
+  permission,
+  fallback = null,
+  children,
+}: CanProps) {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+}
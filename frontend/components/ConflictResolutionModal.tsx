@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { PatientConflict } from '@/hooks/usePatientUpdate';
+import {
+  ConflictChoice,
+  formatConflictValue,
+  getPatientConflicts,
+} from '@/utils/conflicts';
+
+interface ConflictResolutionModalProps {
+  conflict: PatientConflict | null;
+  submitting?: boolean;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+export default function ConflictResolutionModal({
+  conflict,
+  submitting = false,
+  onResolve,
+  onCancel,
+}: ConflictResolutionModalProps) {
+  const { theme } = useTheme();
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const fields = useMemo(
+    () =>
+      conflict
+        ? getPatientConflicts(conflict.base, conflict.local, conflict.server)
+        : [],
+    [conflict]
+  );
+
+  // Nothing is preselected, so neither side's edit is dropped by default
+  useEffect(() => {
+    setChoices({});
+  }, [fields]);
+
+  const allChosen = fields.every((field) => choices[field.path]);
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: theme.colors.overlay,
+      justifyContent: 'center',
+      padding: theme.spacing.md,
+    },
+    card: {
+      maxHeight: '90%',
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.xl,
+      padding: theme.spacing.lg,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: theme.spacing.xs,
+    },
+    title: {
+      marginLeft: theme.spacing.sm,
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    patientName: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginBottom: theme.spacing.xs,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      textTransform: 'uppercase',
+      marginBottom: theme.spacing.xs,
+    },
+    options: {
+      flexDirection: 'row',
+    },
+    option: {
+      flex: 1,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+    },
+    optionSpacing: {
+      marginLeft: theme.spacing.sm,
+    },
+    selectedOption: {
+      borderColor: theme.colors.primary,
+      borderWidth: 2,
+    },
+    optionLabel: {
+      fontSize: 10,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 2,
+    },
+    optionValue: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: theme.spacing.sm,
+    },
+    button: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      marginLeft: theme.spacing.sm,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.5,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderOption = (
+    path: string,
+    choice: ConflictChoice,
+    label: string,
+    value: unknown
+  ) => (
+    <TouchableOpacity
+      style={[
+        styles.option,
+        choice === 'server' && styles.optionSpacing,
+        choices[path] === choice && styles.selectedOption,
+      ]}
+      onPress={() => setChoices((prev) => ({ ...prev, [path]: choice }))}
+      accessibilityRole="radio"
+      accessibilityState={{ selected: choices[path] === choice }}
+    >
+      <Text style={styles.optionLabel}>{label}</Text>
+      <Text style={styles.optionValue}>{formatConflictValue(value)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={conflict !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <AlertTriangle size={20} color={theme.colors.warning} />
+            <Text style={styles.title}>Edit Conflict</Text>
+          </View>
+          {conflict && (
+            <Text style={styles.patientName}>
+              {conflict.server.firstName} {conflict.server.lastName}
+            </Text>
+          )}
+          <Text style={styles.subtitle}>
+            Someone else changed these fields while you were editing them.
+            Choose which value to keep for each. Their changes to other fields
+            are kept.
+          </Text>
+
+          <ScrollView>
+            {fields.length === 0 ? (
+              <Text style={styles.emptyText}>
+                Your changes match the latest server version.
+              </Text>
+            ) : (
+              fields.map((field) => (
+                <View key={field.path} style={styles.field}>
+                  <Text style={styles.fieldLabel}>{field.label}</Text>
+                  <View style={styles.options}>
+                    {renderOption(field.path, 'local', 'Yours', field.local)}
+                    {renderOption(field.path, 'server', 'Server', field.server)}
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primaryButton,
+                !allChosen && styles.disabledButton,
+              ]}
+              onPress={() => onResolve(choices)}
+              disabled={submitting || !allChosen}
+            >
+              <Text style={[styles.buttonText, styles.primaryButtonText]}>
+                {submitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
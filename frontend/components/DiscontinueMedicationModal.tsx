@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Medication } from '@/types';
+
+interface DiscontinueMedicationModalProps {
+  medication: Medication | null;
+  submitting?: boolean;
+  onSubmit: (reason: string) => void;
+  onClose: () => void;
+}
+
+export default function DiscontinueMedicationModal({
+  medication,
+  submitting = false,
+  onSubmit,
+  onClose,
+}: DiscontinueMedicationModalProps) {
+  const { theme } = useTheme();
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [medication]);
+
+  const handleSubmit = () => {
+    if (!reason.trim()) {
+      Alert.alert('Error', 'Please enter a reason for discontinuing');
+      return;
+    }
+
+    onSubmit(reason);
+  };
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: theme.colors.overlay,
+      justifyContent: 'center',
+      padding: theme.spacing.lg,
+    },
+    card: {
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.xl,
+      padding: theme.spacing.lg,
+    },
+    title: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.xs,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    input: {
+      minHeight: 80,
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.md,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+      textAlignVertical: 'top',
+      marginBottom: theme.spacing.md,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+    },
+    button: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      marginLeft: theme.spacing.sm,
+    },
+    destructiveButton: {
+      backgroundColor: theme.colors.error,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    destructiveButtonText: {
+      color: '#FFFFFF',
+    },
+  });
+
+  return (
+    <Modal
+      visible={medication !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Discontinue Medication</Text>
+          <Text style={styles.subtitle}>
+            {medication
+              ? `Stop ${medication.name} ${medication.dosage} as of today.`
+              : ''}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (e.g. side effects, course completed)"
+            placeholderTextColor={theme.colors.placeholder}
+            multiline
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.button} onPress={onClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.destructiveButton]}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              <Text style={[styles.buttonText, styles.destructiveButtonText]}>
+                {submitting ? 'Saving...' : 'Discontinue'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { InteractionAlert, InteractionSeverity } from '@/utils/interactions';
+
+interface InteractionAlertsProps {
+  alerts: InteractionAlert[];
+}
+
+export default function InteractionAlerts({ alerts }: InteractionAlertsProps) {
+  const { theme } = useTheme();
+
+  const severityColor: Record<InteractionSeverity, string> = {
+    severe: theme.colors.error,
+    moderate: theme.colors.warning,
+    mild: theme.colors.info,
+  };
+
+  const styles = StyleSheet.create({
+    alert: {
+      flexDirection: 'row',
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      borderLeftWidth: 4,
+      backgroundColor: theme.colors.surface,
+      marginBottom: theme.spacing.sm,
+    },
+    body: {
+      flex: 1,
+      marginLeft: theme.spacing.sm,
+    },
+    severity: {
+      fontSize: 11,
+      fontFamily: 'Inter-SemiBold',
+      textTransform: 'uppercase',
+    },
+    message: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+      marginTop: 2,
+    },
+    detail: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+  });
+
+  return (
+    <View accessibilityRole="alert">
+      {alerts.map((alert) => {
+        const color = severityColor[alert.severity];
+        return (
+          <View
+            key={`${alert.kind}-${alert.drug}-${alert.conflictsWith}`}
+            style={[styles.alert, { borderLeftColor: color }]}
+          >
+            <AlertTriangle size={16} color={color} />
+            <View style={styles.body}>
+              <Text style={[styles.severity, { color }]}>
+                {alert.severity}{' '}
+                {alert.kind === 'allergy' ? 'allergy alert' : 'interaction'}
+              </Text>
+              <Text style={styles.message}>{alert.message}</Text>
+              <Text style={styles.detail}>
+                {alert.kind === 'allergy'
+                  ? `${alert.drug} · allergy: ${alert.conflictsWith}`
+                  : `${alert.drug} + ${alert.conflictsWith}`}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
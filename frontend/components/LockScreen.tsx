@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Lock } from 'lucide-react-native';
+import { useAuth } from '@/providers/AuthProvider';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  MAX_PIN_ATTEMPTS,
+  useInactivityLock,
+} from '@/providers/InactivityLockProvider';
+
+export default function LockScreen() {
+  const { user, logout } = useAuth();
+  const { unlock, failedAttempts } = useInactivityLock();
+  const { theme, isDark } = useTheme();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!pin) {
+      return;
+    }
+
+    setChecking(true);
+    try {
+      await unlock(pin);
+    } finally {
+      setPin('');
+      setChecking(false);
+    }
+  };
+
+  const attemptsLeft = MAX_PIN_ATTEMPTS - failedAttempts;
+
+  const styles = StyleSheet.create({
+    overlay: {
+      ...StyleSheet.absoluteFillObject,
+      zIndex: 100,
+    },
+    gradient: {
+      flex: 1,
+      justifyContent: 'center',
+      padding: theme.spacing.lg,
+    },
+    header: {
+      alignItems: 'center',
+      marginBottom: theme.spacing.xl,
+    },
+    iconContainer: {
+      width: 80,
+      height: 80,
+      borderRadius: 40,
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginBottom: theme.spacing.md,
+    },
+    title: {
+      fontSize: theme.typography.h2.fontSize,
+      fontFamily: theme.typography.h2.fontWeight,
+      color: '#FFFFFF',
+      marginBottom: theme.spacing.xs,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: theme.typography.body.fontWeight,
+      color: 'rgba(255, 255, 255, 0.8)',
+    },
+    form: {
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.xl,
+      padding: theme.spacing.lg,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingVertical: theme.spacing.md,
+      fontSize: 24,
+      fontFamily: 'Inter-SemiBold',
+      letterSpacing: 8,
+      textAlign: 'center',
+      color: theme.colors.text,
+      marginBottom: theme.spacing.md,
+    },
+    attemptsText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.error,
+      textAlign: 'center',
+      marginBottom: theme.spacing.md,
+    },
+    unlockButton: {
+      backgroundColor: theme.colors.primary,
+      borderRadius: theme.borderRadius.lg,
+      paddingVertical: theme.spacing.md,
+      alignItems: 'center',
+      marginBottom: theme.spacing.md,
+    },
+    unlockButtonDisabled: {
+      opacity: 0.6,
+    },
+    unlockButtonText: {
+      color: '#FFFFFF',
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: 'Inter-SemiBold',
+    },
+    signOutText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.error,
+      textAlign: 'center',
+    },
+  });
+
+  return (
+    <View style={styles.overlay}>
+      <LinearGradient
+        colors={isDark ? ['#1E40AF', '#0891B2'] : ['#2563EB', '#06B6D4']}
+        style={styles.gradient}
+      >
+        <View style={styles.header}>
+          <View style={styles.iconContainer}>
+            <Lock size={40} color="#FFFFFF" />
+          </View>
+          <Text style={styles.title}>Session Locked</Text>
+          <Text style={styles.subtitle}>
+            Enter the PIN for {user?.firstName} {user?.lastName}
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={setPin}
+            placeholder="PIN"
+            placeholderTextColor={theme.colors.placeholder}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            onSubmitEditing={handleUnlock}
+            autoFocus
+          />
+
+          {failedAttempts > 0 && (
+            <Text style={styles.attemptsText}>
+              Incorrect PIN. {attemptsLeft}{' '}
+              {attemptsLeft === 1 ? 'attempt' : 'attempts'} left before sign
+              out.
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.unlockButton,
+              (checking || !pin) && styles.unlockButtonDisabled,
+            ]}
+            onPress={handleUnlock}
+            disabled={checking || !pin}
+          >
+            <Text style={styles.unlockButtonText}>
+              {checking ? 'Checking...' : 'Unlock'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity onPress={() => logout()}>
+            <Text style={styles.signOutText}>Sign out instead</Text>
+          </TouchableOpacity>
+        </View>
+      </LinearGradient>
+    </View>
+  );
+}
@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  TextInputProps,
+} from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useInteractionDataset } from '@/hooks/useInteractionDataset';
+import InteractionAlerts from '@/components/InteractionAlerts';
+import { checkMedication, requiresOverride } from '@/utils/interactions';
+import {
+  MedicationFormErrors,
+  MedicationInput,
+  emptyMedicationInput,
+  validateMedicationInput,
+} from '@/utils/medications';
+import { Medication } from '@/types';
+
+interface MedicationFormProps {
+  visible: boolean;
+  // When set, the form records a dose change for this entry
+  medication: Medication | null;
+  // What the new entry is checked against
+  allergies: string[];
+  currentMedications: Medication[];
+  submitting?: boolean;
+  onSubmit: (input: MedicationInput) => void;
+  onClose: () => void;
+}
+
+export default function MedicationForm({
+  visible,
+  medication,
+  allergies,
+  currentMedications,
+  submitting = false,
+  onSubmit,
+  onClose,
+}: MedicationFormProps) {
+  const { theme } = useTheme();
+  const [values, setValues] = useState<MedicationInput>(emptyMedicationInput);
+  const [errors, setErrors] = useState<MedicationFormErrors>({});
+  const dataset = useInteractionDataset();
+
+  const alerts = useMemo(
+    () =>
+      values.name.trim()
+        ? checkMedication(
+            values.name,
+            {
+              allergies,
+              medications: currentMedications.filter(
+                ({ id }) => id !== medication?.id
+              ),
+            },
+            dataset
+          )
+        : [],
+    [values.name, allergies, currentMedications, medication, dataset]
+  );
+  const overrideRequired = requiresOverride(alerts);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setValues(
+      medication
+        ? {
+            ...emptyMedicationInput(),
+            name: medication.name,
+            dosage: medication.dosage,
+            frequency: medication.frequency,
+          }
+        : emptyMedicationInput()
+    );
+    setErrors({});
+  }, [visible, medication]);
+
+  const handleSubmit = () => {
+    const nextErrors = validateMedicationInput(values);
+
+    if (
+      medication &&
+      values.dosage.trim() === medication.dosage &&
+      values.frequency.trim() === medication.frequency
+    ) {
+      nextErrors.dosage = 'Enter the new dose or frequency';
+    }
+
+    if (overrideRequired && !values.overrideReason?.trim()) {
+      nextErrors.overrideReason =
+        'A reason is required to prescribe despite a severe alert';
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) {
+      onSubmit({
+        ...values,
+        overrideReason: overrideRequired ? values.overrideReason : undefined,
+      });
+    }
+  };
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: theme.colors.overlay,
+      justifyContent: 'center',
+      padding: theme.spacing.lg,
+    },
+    card: {
+      maxHeight: '90%',
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.xl,
+      padding: theme.spacing.lg,
+    },
+    title: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.xs,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    label: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 12,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+    disabledInput: {
+      opacity: 0.6,
+    },
+    inputError: {
+      borderColor: theme.colors.error,
+    },
+    errorText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.error,
+      marginTop: 4,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: theme.spacing.sm,
+    },
+    button: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      marginLeft: theme.spacing.sm,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderInput = (
+    field: keyof MedicationInput,
+    label: string,
+    inputProps?: TextInputProps
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          errors[field] && styles.inputError,
+          inputProps?.editable === false && styles.disabledInput,
+        ]}
+        value={values[field] ?? ''}
+        onChangeText={(text) =>
+          setValues((prev) => ({ ...prev, [field]: text }))
+        }
+        placeholderTextColor={theme.colors.placeholder}
+        {...inputProps}
+      />
+      {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.card}>
+          <Text style={styles.title}>
+            {medication ? 'Change Dose' : 'Add Medication'}
+          </Text>
+          <Text style={styles.subtitle}>
+            {medication
+              ? `The current ${medication.dosage} entry will be closed on the effective date.`
+              : 'Prescribe a new medication for this patient'}
+          </Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {renderInput('name', 'Medication', {
+              placeholder: 'e.g. Lisinopril',
+              editable: !medication,
+            })}
+            {renderInput('dosage', 'Dosage', { placeholder: 'e.g. 10 mg' })}
+            {renderInput('frequency', 'Frequency', {
+              placeholder: 'e.g. Once daily',
+            })}
+            {renderInput(
+              'startDate',
+              medication ? 'Effective Date' : 'Start Date',
+              {
+                placeholder: 'YYYY-MM-DD',
+                keyboardType: 'numbers-and-punctuation',
+                maxLength: 10,
+              }
+            )}
+
+            {alerts.length > 0 && <InteractionAlerts alerts={alerts} />}
+            {overrideRequired &&
+              renderInput('overrideReason', 'Override Reason', {
+                placeholder: 'Why is this medication still appropriate?',
+                multiline: true,
+              })}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.button} onPress={onClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton]}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              <Text style={[styles.buttonText, styles.primaryButtonText]}>
+                {submitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
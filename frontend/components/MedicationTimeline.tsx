@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { MedicationEvent, getMedicationTimeline } from '@/utils/medications';
+import { Medication } from '@/types';
+
+interface MedicationTimelineProps {
+  medications: Medication[];
+}
+
+export default function MedicationTimeline({
+  medications,
+}: MedicationTimelineProps) {
+  const { theme } = useTheme();
+  const events = getMedicationTimeline(medications);
+
+  const styles = StyleSheet.create({
+    event: {
+      flexDirection: 'row',
+    },
+    rail: {
+      alignItems: 'center',
+      width: 20,
+      marginRight: theme.spacing.sm,
+    },
+    dot: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginTop: 4,
+    },
+    line: {
+      flex: 1,
+      width: 2,
+      backgroundColor: theme.colors.border,
+    },
+    body: {
+      flex: 1,
+      paddingBottom: theme.spacing.md,
+    },
+    date: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    title: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginTop: 2,
+    },
+    detail: {
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+    },
+  });
+
+  const eventColor: Record<MedicationEvent['type'], string> = {
+    started: theme.colors.success,
+    'dose-changed': theme.colors.warning,
+    discontinued: theme.colors.error,
+  };
+
+  const describe = ({ type, medication, previous }: MedicationEvent) => {
+    switch (type) {
+      case 'started':
+        return {
+          title: `Started ${medication.name} ${medication.dosage}`,
+          detail: `${medication.frequency} · prescribed by ${medication.prescribedBy}`,
+        };
+      case 'dose-changed':
+        return {
+          title: `${medication.name} changed to ${medication.dosage}`,
+          detail: `From ${previous?.dosage} ${previous?.frequency} to ${medication.frequency} · by ${medication.prescribedBy}`,
+        };
+      case 'discontinued':
+        return {
+          title: `Stopped ${medication.name} ${medication.dosage}`,
+          detail: medication.discontinuedReason
+            ? `Reason: ${medication.discontinuedReason}`
+            : 'Course ended',
+        };
+    }
+  };
+
+  if (events.length === 0) {
+    return <Text style={styles.emptyText}>No medication history yet.</Text>;
+  }
+
+  return (
+    <View>
+      {events.map((event, index) => {
+        const { title, detail } = describe(event);
+        return (
+          <View
+            key={`${event.medication.id}-${event.type}`}
+            style={styles.event}
+          >
+            <View style={styles.rail}>
+              <View
+                style={[
+                  styles.dot,
+                  { backgroundColor: eventColor[event.type] },
+                ]}
+              />
+              {index < events.length - 1 && <View style={styles.line} />}
+            </View>
+            <View style={styles.body}>
+              <Text style={styles.date}>
+                {new Date(event.date).toLocaleDateString()}
+              </Text>
+              <Text style={styles.title}>{title}</Text>
+              <Text style={styles.detail}>{detail}</Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Check } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+interface OptionPickerModalProps<T> {
+  visible: boolean;
+  title: string;
+  options: { value: T; label: string }[];
+  // Null when none of the options is the current choice
+  selected: T | null;
+  onSelect: (value: T) => void;
+  onClose: () => void;
+}
+
+export default function OptionPickerModal<T>({
+  visible,
+  title,
+  options,
+  selected,
+  onSelect,
+  onClose,
+}: OptionPickerModalProps<T>) {
+  const { theme } = useTheme();
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: theme.colors.overlay,
+      justifyContent: 'flex-end',
+    },
+    sheet: {
+      backgroundColor: theme.colors.card,
+      borderTopLeftRadius: theme.borderRadius.xl,
+      borderTopRightRadius: theme.borderRadius.xl,
+      paddingTop: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl,
+    },
+    title: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+      paddingHorizontal: theme.spacing.lg,
+      marginBottom: theme.spacing.sm,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: theme.spacing.lg,
+      paddingVertical: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    optionText: {
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{title}</Text>
+          {options.map((option) => (
+            <TouchableOpacity
+              key={String(option.value)}
+              style={styles.option}
+              onPress={() => {
+                onSelect(option.value);
+                onClose();
+              }}
+            >
+              <Text style={styles.optionText}>{option.label}</Text>
+              {option.value === selected && (
+                <Check size={20} color={theme.colors.primary} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
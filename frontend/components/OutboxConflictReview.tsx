@@ -0,0 +1,74 @@
+import React, { useEffect } from 'react';
+import { Alert } from 'react-native';
+import ConflictResolutionModal from '@/components/ConflictResolutionModal';
+import { usePatientUpdate } from '@/hooks/usePatientUpdate';
+import { useInactivityLock } from '@/providers/InactivityLockProvider';
+import { useSync } from '@/providers/SyncProvider';
+import { Outbox } from '@/utils/outbox';
+
+// Offline patient edits that lost to a newer version when they replayed.
+// Each is merged the same way as an online edit, one at a time, and leaves
+// the outbox once it is saved or the user discards it.
+export default function OutboxConflictReview() {
+  const { conflicts, deferConflict } = useSync();
+  const { locked } = useInactivityLock();
+  const entry = locked ? undefined : conflicts[0];
+
+  const {
+    reviewQueuedUpdate,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+    isUpdating,
+  } = usePatientUpdate({
+    onSuccess: () => {
+      if (entry) {
+        Outbox.remove(entry.id);
+      }
+    },
+  });
+
+  useEffect(() => {
+    if (!entry) {
+      return;
+    }
+
+    const patientId = entry.endpoint.split('/').pop()!;
+    reviewQueuedUpdate(patientId, entry.base, entry.data).then((reviewing) => {
+      // The server version can't be loaded, try again on the next sync
+      if (!reviewing) {
+        deferConflict(entry.id);
+      }
+    });
+  }, [entry?.id]);
+
+  const handleCancel = () => {
+    if (!entry) {
+      return;
+    }
+
+    dismissConflict();
+    Alert.alert(
+      'Keep Offline Change?',
+      'Your change is kept on this device until you review it again.',
+      [
+        {
+          text: 'Discard It',
+          style: 'destructive',
+          onPress: () => Outbox.remove(entry.id),
+        },
+        { text: 'Review Later', onPress: () => deferConflict(entry.id) },
+      ],
+      { cancelable: false }
+    );
+  };
+
+  return (
+    <ConflictResolutionModal
+      conflict={entry ? conflict : null}
+      submitting={isUpdating}
+      onResolve={resolveConflict}
+      onCancel={handleCancel}
+    />
+  );
+}
@@ -0,0 +1,879 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  TextInputProps,
+} from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Plus } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { usePatientUpdate } from '@/hooks/usePatientUpdate';
+import ConflictResolutionModal from '@/components/ConflictResolutionModal';
+import { patientsApi } from '@/utils/api';
+import { Drafts } from '@/utils/drafts';
+import {
+  BLOOD_TYPES,
+  PATIENT_FORM_STEPS,
+  PatientFormErrors,
+  PatientFormStep,
+  PatientFormValues,
+  emptyPatientForm,
+  normalizePatientForm,
+  patientToForm,
+  validatePatientForm,
+  validatePatientStep,
+} from '@/utils/patient-form';
+import { Patient } from '@/types';
+
+const DRAFT_SAVE_DELAY_MS = 800;
+
+interface PatientFormProps {
+  visible: boolean;
+  patient: Patient | null;
+  onClose: () => void;
+}
+
+type NestedKey = keyof Pick<PatientFormValues, 'address' | 'emergencyContact'>;
+
+const isNestedKey = (key: string): key is NestedKey =>
+  key === 'address' || key === 'emergencyContact';
+
+const setPath = (
+  values: PatientFormValues,
+  path: string,
+  value: unknown
+): PatientFormValues => {
+  const [key, nested] = path.split('.');
+
+  if (!nested || !isNestedKey(key)) {
+    return { ...values, [key]: value };
+  }
+
+  return {
+    ...values,
+    [key]: { ...values[key], [nested]: value },
+  };
+};
+
+const getPath = (values: PatientFormValues, path: string): string => {
+  const [key, nested] = path.split('.');
+
+  if (nested && isNestedKey(key)) {
+    const group: Record<string, string> = values[key];
+    return group[nested] ?? '';
+  }
+
+  const fields: Record<string, unknown> = values;
+  const field = fields[key];
+  return typeof field === 'string' ? field : '';
+};
+
+export default function PatientForm({
+  visible,
+  patient,
+  onClose,
+}: PatientFormProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<PatientFormValues>(emptyPatientForm);
+  const [errors, setErrors] = useState<PatientFormErrors>({});
+  const [stepIndex, setStepIndex] = useState(0);
+  const [draftReady, setDraftReady] = useState(false);
+  const [tagInputs, setTagInputs] = useState({
+    medicalHistory: '',
+    allergies: '',
+  });
+  const initialValues = useRef<PatientFormValues>(emptyPatientForm());
+
+  const draftKey = `patient_${patient?.id ?? 'new'}`;
+  const step = PATIENT_FORM_STEPS[stepIndex].key;
+  const isDirty = useMemo(
+    () => JSON.stringify(values) !== JSON.stringify(initialValues.current),
+    [values]
+  );
+
+  const finish = async (queued: boolean) => {
+    await Drafts.clear(draftKey);
+    onClose();
+    Alert.alert(
+      'Success',
+      queued
+        ? 'Saved offline. The patient will sync when you reconnect.'
+        : patient
+          ? 'Patient updated successfully'
+          : 'Patient created successfully'
+    );
+  };
+
+  const createPatientMutation = useMutation({
+    mutationFn: (patientData: PatientFormValues) =>
+      patientsApi.create(patientData),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      finish(!!response.queued);
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.message || 'Failed to create patient');
+    },
+  });
+
+  const {
+    updatePatient,
+    isUpdating,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+  } = usePatientUpdate({ onSuccess: finish });
+
+  const submitting = createPatientMutation.isPending || isUpdating;
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    const initial = patient ? patientToForm(patient) : emptyPatientForm();
+    initialValues.current = initial;
+    setValues(initial);
+    setErrors({});
+    setStepIndex(0);
+    setDraftReady(false);
+
+    Drafts.load<PatientFormValues>(draftKey).then((draft) => {
+      if (!draft) {
+        setDraftReady(true);
+        return;
+      }
+
+      Alert.alert(
+        'Resume Draft',
+        `You have unsaved changes from ${new Date(
+          draft.savedAt
+        ).toLocaleString()}. Continue where you left off?`,
+        [
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => {
+              Drafts.clear(draftKey);
+              setDraftReady(true);
+            },
+          },
+          {
+            text: 'Resume',
+            onPress: () => {
+              setValues(draft.values);
+              setDraftReady(true);
+            },
+          },
+        ]
+      );
+    });
+  }, [visible, patient?.id]);
+
+  // Autosave once the user has actually changed something
+  useEffect(() => {
+    if (!visible || !draftReady || !isDirty) {
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => Drafts.save(draftKey, values),
+      DRAFT_SAVE_DELAY_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [values, visible, draftReady, isDirty]);
+
+  const setField = (path: string, value: unknown) => {
+    setValues((prev) => setPath(prev, path, value));
+    if (errors[path]) {
+      setErrors((prev) => ({ ...prev, [path]: undefined }));
+    }
+  };
+
+  const goToStep = (index: number) => {
+    if (index > stepIndex) {
+      const stepErrors = validatePatientStep(step, values);
+      if (Object.values(stepErrors).some(Boolean)) {
+        setErrors(stepErrors);
+        return;
+      }
+    }
+
+    setStepIndex(index);
+  };
+
+  const handleSubmit = () => {
+    const formErrors = validatePatientForm(values);
+    const firstInvalidStep = PATIENT_FORM_STEPS.findIndex(({ key }) =>
+      Object.values(validatePatientStep(key, values)).some(Boolean)
+    );
+
+    if (firstInvalidStep !== -1) {
+      setErrors(formErrors);
+      setStepIndex(firstInvalidStep);
+      return;
+    }
+
+    const patientData = normalizePatientForm(values);
+
+    if (patient) {
+      updatePatient(patient, patientData);
+    } else {
+      createPatientMutation.mutate(patientData);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isDirty) {
+      onClose();
+      return;
+    }
+
+    Alert.alert('Unsaved Changes', 'Your changes are saved as a draft.', [
+      { text: 'Keep Editing', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          await Drafts.clear(draftKey);
+          onClose();
+        },
+      },
+      {
+        text: 'Keep Draft',
+        onPress: async () => {
+          await Drafts.save(draftKey, values);
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const addTag = (field: 'medicalHistory' | 'allergies') => {
+    const tag = tagInputs[field].trim();
+
+    if (tag && !values[field].includes(tag)) {
+      setField(field, [...values[field], tag]);
+    }
+    setTagInputs((prev) => ({ ...prev, [field]: '' }));
+  };
+
+  const removeTag = (field: 'medicalHistory' | 'allergies', tag: string) =>
+    setField(
+      field,
+      values[field].filter((item) => item !== tag)
+    );
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: Platform.OS === 'ios' ? 24 : 16,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    headerTitle: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    closeButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
+    steps: {
+      flexGrow: 0,
+      paddingVertical: theme.spacing.md,
+      paddingHorizontal: theme.spacing.md,
+      backgroundColor: theme.colors.card,
+    },
+    stepChip: {
+      paddingHorizontal: 14,
+      paddingVertical: 6,
+      borderRadius: 16,
+      marginHorizontal: 4,
+      backgroundColor: theme.colors.surface,
+    },
+    activeStepChip: {
+      backgroundColor: theme.colors.primary,
+    },
+    stepChipText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.textSecondary,
+    },
+    activeStepChipText: {
+      color: '#FFFFFF',
+    },
+    content: {
+      flex: 1,
+    },
+    contentInner: {
+      padding: theme.spacing.lg,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginBottom: theme.spacing.md,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    label: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 12,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+    inputError: {
+      borderColor: theme.colors.error,
+    },
+    errorText: {
+      fontSize: 12,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.error,
+      marginTop: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      marginHorizontal: -6,
+    },
+    rowItem: {
+      flex: 1,
+      marginHorizontal: 6,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    selectedChip: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+      textTransform: 'capitalize',
+    },
+    selectedChipText: {
+      color: '#FFFFFF',
+    },
+    tagInputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: theme.spacing.sm,
+    },
+    tagInput: {
+      flex: 1,
+    },
+    tagAddButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      marginLeft: theme.spacing.sm,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.primary,
+    },
+    reviewSection: {
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      marginBottom: theme.spacing.md,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    reviewHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: theme.spacing.sm,
+    },
+    reviewTitle: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    reviewEdit: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+    },
+    reviewRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 4,
+    },
+    reviewLabel: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginRight: theme.spacing.md,
+    },
+    reviewValue: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+      textAlign: 'right',
+    },
+    footer: {
+      flexDirection: 'row',
+      padding: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: theme.borderRadius.lg,
+      alignItems: 'center',
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.surface,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderInput = (
+    path: string,
+    label: string,
+    inputProps?: TextInputProps
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, errors[path] && styles.inputError]}
+        value={getPath(values, path)}
+        onChangeText={(text) => setField(path, text)}
+        placeholderTextColor={theme.colors.placeholder}
+        {...inputProps}
+      />
+      {errors[path] && <Text style={styles.errorText}>{errors[path]}</Text>}
+    </View>
+  );
+
+  const renderChoice = (
+    path: string,
+    label: string,
+    options: { value: string; label: string }[]
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.chips}>
+        {options.map((option) => {
+          const selected = getPath(values, path) === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, selected && styles.selectedChip]}
+              onPress={() => setField(path, selected ? '' : option.value)}
+            >
+              <Text
+                style={[styles.chipText, selected && styles.selectedChipText]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {errors[path] && <Text style={styles.errorText}>{errors[path]}</Text>}
+    </View>
+  );
+
+  const renderTags = (
+    field: 'medicalHistory' | 'allergies',
+    label: string,
+    placeholder: string
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.tagInputRow}>
+        <TextInput
+          style={[styles.input, styles.tagInput]}
+          value={tagInputs[field]}
+          onChangeText={(text) =>
+            setTagInputs((prev) => ({ ...prev, [field]: text }))
+          }
+          onSubmitEditing={() => addTag(field)}
+          placeholder={placeholder}
+          placeholderTextColor={theme.colors.placeholder}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={styles.tagAddButton}
+          onPress={() => addTag(field)}
+          accessibilityLabel={`Add ${label.toLowerCase()}`}
+        >
+          <Plus size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.chips}>
+        {values[field].map((tag) => (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.chip, styles.selectedChip]}
+            onPress={() => removeTag(field, tag)}
+            accessibilityLabel={`Remove ${tag}`}
+          >
+            <Text style={[styles.chipText, styles.selectedChipText]}>
+              {tag} ×
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const reviewSections: {
+    step: PatientFormStep;
+    title: string;
+    rows: [string, string][];
+  }[] = [
+    {
+      step: 'personal',
+      title: 'Personal',
+      rows: [
+        ['Name', `${values.firstName} ${values.lastName}`],
+        ['Date of birth', values.dateOfBirth],
+        ['Gender', values.gender],
+      ],
+    },
+    {
+      step: 'contact',
+      title: 'Contact',
+      rows: [
+        ['Email', values.email],
+        ['Phone', values.phone],
+        [
+          'Address',
+          `${values.address.street}, ${values.address.city}, ${values.address.state} ${values.address.zipCode}`,
+        ],
+      ],
+    },
+    {
+      step: 'emergency',
+      title: 'Emergency Contact',
+      rows: [
+        ['Name', values.emergencyContact.name],
+        ['Relationship', values.emergencyContact.relationship],
+        ['Phone', values.emergencyContact.phone],
+      ],
+    },
+    {
+      step: 'medical',
+      title: 'Medical',
+      rows: [
+        ['Blood type', values.bloodType || '—'],
+        ['Allergies', values.allergies.join(', ') || 'None recorded'],
+        ['History', values.medicalHistory.join(', ') || 'None recorded'],
+      ],
+    },
+    {
+      step: 'insurance',
+      title: 'Insurance',
+      rows: [
+        ['Provider', values.insuranceProvider || '—'],
+        ['Policy number', values.insuranceNumber || '—'],
+      ],
+    },
+  ];
+
+  const renderStep = () => {
+    switch (step) {
+      case 'personal':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Personal Information</Text>
+            <View style={styles.row}>
+              <View style={styles.rowItem}>
+                {renderInput('firstName', 'First Name', {
+                  placeholder: 'Jane',
+                })}
+              </View>
+              <View style={styles.rowItem}>
+                {renderInput('lastName', 'Last Name', { placeholder: 'Doe' })}
+              </View>
+            </View>
+            {renderInput('dateOfBirth', 'Date of Birth', {
+              placeholder: 'YYYY-MM-DD',
+              keyboardType: 'numbers-and-punctuation',
+              maxLength: 10,
+            })}
+            {renderChoice('gender', 'Gender', [
+              { value: 'female', label: 'Female' },
+              { value: 'male', label: 'Male' },
+              { value: 'other', label: 'Other' },
+            ])}
+          </>
+        );
+      case 'contact':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Contact & Address</Text>
+            {renderInput('email', 'Email', {
+              placeholder: 'jane.doe@example.com',
+              keyboardType: 'email-address',
+              autoCapitalize: 'none',
+            })}
+            {renderInput('phone', 'Phone', {
+              placeholder: '+1 555 123 4567',
+              keyboardType: 'phone-pad',
+            })}
+            {renderInput('address.street', 'Street', {
+              placeholder: '123 Main St',
+            })}
+            <View style={styles.row}>
+              <View style={styles.rowItem}>
+                {renderInput('address.city', 'City')}
+              </View>
+              <View style={styles.rowItem}>
+                {renderInput('address.state', 'State')}
+              </View>
+            </View>
+            {renderInput('address.zipCode', 'ZIP Code', {
+              keyboardType: 'numbers-and-punctuation',
+            })}
+          </>
+        );
+      case 'emergency':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Emergency Contact</Text>
+            {renderInput('emergencyContact.name', 'Name')}
+            {renderInput('emergencyContact.relationship', 'Relationship', {
+              placeholder: 'Spouse, parent, friend...',
+            })}
+            {renderInput('emergencyContact.phone', 'Phone', {
+              keyboardType: 'phone-pad',
+            })}
+          </>
+        );
+      case 'medical':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Medical Information</Text>
+            {renderChoice(
+              'bloodType',
+              'Blood Type',
+              BLOOD_TYPES.map((type) => ({ value: type, label: type }))
+            )}
+            {renderTags('allergies', 'Allergies', 'e.g. Penicillin')}
+            {renderTags(
+              'medicalHistory',
+              'Medical History',
+              'e.g. Hypertension'
+            )}
+          </>
+        );
+      case 'insurance':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Insurance</Text>
+            {renderInput('insuranceProvider', 'Provider', {
+              placeholder: 'Insurance company',
+            })}
+            {renderInput('insuranceNumber', 'Policy Number')}
+          </>
+        );
+      case 'review':
+        return (
+          <>
+            <Text style={styles.sectionTitle}>Review</Text>
+            {reviewSections.map((section) => (
+              <View key={section.step} style={styles.reviewSection}>
+                <View style={styles.reviewHeader}>
+                  <Text style={styles.reviewTitle}>{section.title}</Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      setStepIndex(
+                        PATIENT_FORM_STEPS.findIndex(
+                          ({ key }) => key === section.step
+                        )
+                      )
+                    }
+                  >
+                    <Text style={styles.reviewEdit}>Edit</Text>
+                  </TouchableOpacity>
+                </View>
+                {section.rows.map(([label, value]) => (
+                  <View key={label} style={styles.reviewRow}>
+                    <Text style={styles.reviewLabel}>{label}</Text>
+                    <Text style={styles.reviewValue}>{value}</Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </>
+        );
+    }
+  };
+
+  const isLastStep = stepIndex === PATIENT_FORM_STEPS.length - 1;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>
+            {patient ? 'Edit Patient' : 'New Patient'}
+          </Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={handleClose}
+            accessibilityLabel="Close"
+          >
+            <X size={20} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.steps}
+        >
+          {PATIENT_FORM_STEPS.map(({ key, title }, index) => (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.stepChip,
+                index === stepIndex && styles.activeStepChip,
+              ]}
+              onPress={() => goToStep(index)}
+            >
+              <Text
+                style={[
+                  styles.stepChipText,
+                  index === stepIndex && styles.activeStepChipText,
+                ]}
+              >
+                {index + 1}. {title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderStep()}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.secondaryButton,
+              stepIndex === 0 && styles.disabledButton,
+            ]}
+            onPress={() => setStepIndex(stepIndex - 1)}
+            disabled={stepIndex === 0}
+          >
+            <Text style={styles.secondaryButtonText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.primaryButton,
+              submitting && styles.disabledButton,
+            ]}
+            onPress={isLastStep ? handleSubmit : () => goToStep(stepIndex + 1)}
+            disabled={submitting}
+          >
+            {isLastStep ? (
+              <Text style={styles.primaryButtonText}>
+                {submitting
+                  ? 'Saving...'
+                  : patient
+                    ? 'Save Changes'
+                    : 'Create Patient'}
+              </Text>
+            ) : (
+              <Text style={styles.primaryButtonText}>Next</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+
+      <ConflictResolutionModal
+        conflict={conflict}
+        submitting={isUpdating}
+        onResolve={resolveConflict}
+        onCancel={dismissConflict}
+      />
+    </Modal>
+  );
+}
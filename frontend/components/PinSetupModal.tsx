@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const MIN_PIN_LENGTH = 4;
+
+interface PinSetupModalProps {
+  visible: boolean;
+  onSubmit: (pin: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function PinSetupModal({
+  visible,
+  onSubmit,
+  onClose,
+}: PinSetupModalProps) {
+  const { theme } = useTheme();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleClose = () => {
+    setPin('');
+    setConfirmPin('');
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (!/^\d+$/.test(pin) || pin.length < MIN_PIN_LENGTH) {
+      Alert.alert('Error', `PIN must be at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+
+    if (pin !== confirmPin) {
+      Alert.alert('Error', 'PINs do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(pin);
+      handleClose();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save PIN');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: theme.colors.overlay,
+      justifyContent: 'center',
+      padding: theme.spacing.lg,
+    },
+    card: {
+      backgroundColor: theme.colors.card,
+      borderRadius: theme.borderRadius.xl,
+      padding: theme.spacing.lg,
+    },
+    title: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.xs,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.md,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.md,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+    },
+    button: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      marginLeft: theme.spacing.sm,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      color: '#FFFFFF',
+    },
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Set Unlock PIN</Text>
+          <Text style={styles.subtitle}>
+            Used to unlock this device after inactivity
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={setPin}
+            placeholder="New PIN"
+            placeholderTextColor={theme.colors.placeholder}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+          />
+          <TextInput
+            style={styles.input}
+            value={confirmPin}
+            onChangeText={setConfirmPin}
+            placeholder="Confirm PIN"
+            placeholderTextColor={theme.colors.placeholder}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.button} onPress={handleClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={[styles.buttonText, styles.primaryButtonText]}>
+                {saving ? 'Saving...' : 'Save PIN'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  REPORT_COMPARISONS,
+  REPORT_PERIODS,
+  ReportSelection,
+  comparisonRange,
+  formatReportRange,
+  selectedRange,
+  validateReportRange,
+} from '@/utils/reports';
+
+const PERIOD_OPTIONS: { value: ReportSelection['period']; label: string }[] = [
+  ...REPORT_PERIODS,
+  { value: 'custom', label: 'Custom' },
+];
+
+interface ReportRangeModalProps {
+  visible: boolean;
+  selection: ReportSelection;
+  onApply: (selection: ReportSelection) => void;
+  onClose: () => void;
+}
+
+export default function ReportRangeModal({
+  visible,
+  selection,
+  onApply,
+  onClose,
+}: ReportRangeModalProps) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState(selection);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(selection);
+    }
+  }, [visible]);
+
+  const error =
+    draft.period === 'custom' ? validateReportRange(draft.customRange) : null;
+  const range = selectedRange(draft);
+  const compared = error ? null : comparisonRange(range, draft.comparison);
+
+  const setCustomDate = (field: 'dateFrom' | 'dateTo', value: string) =>
+    setDraft((current) => ({
+      ...current,
+      customRange: { ...current.customRange, [field]: value },
+    }));
+
+  const selectPeriod = (period: ReportSelection['period']) =>
+    setDraft((current) => ({
+      ...current,
+      period,
+      // Custom dates start from whatever was showing, so small adjustments
+      // don't mean typing both dates
+      customRange:
+        period === 'custom' && current.period !== 'custom'
+          ? selectedRange(current)
+          : current.customRange,
+    }));
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: Platform.OS === 'ios' ? 24 : 16,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    headerTitle: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    closeButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
+    content: {
+      flex: 1,
+    },
+    contentInner: {
+      padding: theme.spacing.lg,
+    },
+    label: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 6,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    dateRow: {
+      flexDirection: 'row',
+      marginHorizontal: -6,
+    },
+    dateField: {
+      flex: 1,
+      marginHorizontal: 6,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 12,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+    error: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.error,
+      marginTop: -4,
+      marginBottom: theme.spacing.md,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    selectedChip: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    selectedChipText: {
+      color: '#FFFFFF',
+    },
+    summary: {
+      padding: theme.spacing.md,
+      borderRadius: theme.borderRadius.lg,
+      backgroundColor: theme.colors.card,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    summaryText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    summaryDetail: {
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 4,
+    },
+    footer: {
+      flexDirection: 'row',
+      padding: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: theme.borderRadius.lg,
+      alignItems: 'center',
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.surface,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, isSelected && styles.selectedChip]}
+            onPress={() => onSelect(option.value)}
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text
+              style={[styles.chipText, isSelected && styles.selectedChipText]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Report Range</Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityLabel="Close"
+          >
+            <X size={20} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.field}>
+            <Text style={styles.label}>Period</Text>
+            {renderChips(PERIOD_OPTIONS, draft.period, selectPeriod)}
+          </View>
+
+          {draft.period === 'custom' && (
+            <>
+              <View style={[styles.field, styles.dateRow]}>
+                <View style={styles.dateField}>
+                  <Text style={styles.label}>From</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={draft.customRange.dateFrom}
+                    onChangeText={(text) => setCustomDate('dateFrom', text)}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={theme.colors.placeholder}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={10}
+                  />
+                </View>
+                <View style={styles.dateField}>
+                  <Text style={styles.label}>To</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={draft.customRange.dateTo}
+                    onChangeText={(text) => setCustomDate('dateTo', text)}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={theme.colors.placeholder}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={10}
+                  />
+                </View>
+              </View>
+              {error && <Text style={styles.error}>{error}</Text>}
+            </>
+          )}
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Compare With</Text>
+            {renderChips(REPORT_COMPARISONS, draft.comparison, (comparison) =>
+              setDraft((current) => ({ ...current, comparison }))
+            )}
+          </View>
+
+          {!error && (
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>{formatReportRange(range)}</Text>
+              {compared && (
+                <Text style={styles.summaryDetail}>
+                  Compared with {formatReportRange(compared)}
+                </Text>
+              )}
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.footerButton, styles.secondaryButton]}
+            onPress={onClose}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.primaryButton,
+              !!error && styles.disabledButton,
+            ]}
+            onPress={() => onApply(draft)}
+            disabled={!!error}
+          >
+            <Text style={styles.primaryButtonText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
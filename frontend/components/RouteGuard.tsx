@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+import { router, useSegments } from 'expo-router';
+import { useAuth } from '@/providers/AuthProvider';
+import { getRoutePermission, hasPermission } from '@/utils/permissions';
+
+// Sends users back to the dashboard when they open a route, for example via
+// a deep link, that their role is not allowed to see.
+export default function RouteGuard({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { user, isAuthenticated } = useAuth();
+  const segments = useSegments();
+  const permission = getRoutePermission(segments);
+  const denied =
+    isAuthenticated &&
+    permission !== null &&
+    !hasPermission(user?.role, permission);
+
+  useEffect(() => {
+    if (denied) {
+      router.replace('/');
+    }
+  }, [denied]);
+
+  return <>{children}</>;
+}
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Clock } from 'lucide-react-native';
+import { useAuth } from '@/providers/AuthProvider';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export default function SessionExpiryBanner() {
+  const { expiresAt, sessionExpiring, extendSession } = useAuth();
+  const { theme } = useTheme();
+  const [now, setNow] = useState(Date.now());
+  const [extending, setExtending] = useState(false);
+
+  useEffect(() => {
+    if (!sessionExpiring) {
+      return;
+    }
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000 * 15);
+    return () => clearInterval(interval);
+  }, [sessionExpiring]);
+
+  if (!sessionExpiring || !expiresAt) {
+    return null;
+  }
+
+  const minutesLeft = Math.max(Math.ceil((expiresAt - now) / 60000), 0);
+
+  const handleExtend = async () => {
+    setExtending(true);
+    try {
+      await extendSession();
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    banner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.colors.warning,
+      paddingTop: 48,
+      paddingBottom: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+    },
+    message: {
+      flex: 1,
+      marginLeft: theme.spacing.sm,
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: '#FFFFFF',
+    },
+    extendButton: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 6,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    },
+    extendButtonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  return (
+    <View style={styles.banner} accessibilityRole="alert">
+      <Clock size={18} color="#FFFFFF" />
+      <Text style={styles.message}>
+        Your session will end in {minutesLeft}{' '}
+        {minutesLeft === 1 ? 'minute' : 'minutes'}
+      </Text>
+      <TouchableOpacity
+        style={styles.extendButton}
+        onPress={handleExtend}
+        disabled={extending}
+      >
+        <Text style={styles.extendButtonText}>
+          {extending ? 'Extending...' : 'Extend'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { CloudOff, RefreshCw } from 'lucide-react-native';
+import { useSync } from '@/providers/SyncProvider';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export default function SyncStatusIndicator() {
+  const { isOnline, pendingCount, conflictCount, syncing, syncNow } = useSync();
+  const { theme } = useTheme();
+
+  if (isOnline && pendingCount === 0) {
+    return null;
+  }
+
+  const pendingLabel = `${pendingCount} ${
+    pendingCount === 1 ? 'change' : 'changes'
+  } pending`;
+
+  let message = pendingLabel;
+  if (!isOnline) {
+    message = pendingCount > 0 ? `Offline · ${pendingLabel}` : 'Offline';
+  } else if (syncing) {
+    message = `Syncing ${pendingCount} ${
+      pendingCount === 1 ? 'change' : 'changes'
+    }...`;
+  } else if (conflictCount === pendingCount) {
+    // Syncing brings back any conflicts put off for later
+    message = `${conflictCount} ${
+      conflictCount === 1 ? 'change needs' : 'changes need'
+    } review`;
+  }
+
+  const styles = StyleSheet.create({
+    indicator: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: isOnline ? theme.colors.info : theme.colors.disabled,
+      paddingVertical: 6,
+      paddingHorizontal: theme.spacing.md,
+    },
+    text: {
+      marginLeft: theme.spacing.sm,
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const Icon = isOnline ? RefreshCw : CloudOff;
+
+  return (
+    <TouchableOpacity
+      style={styles.indicator}
+      onPress={syncNow}
+      disabled={!isOnline || syncing}
+      accessibilityRole="button"
+      accessibilityLabel={message}
+    >
+      <Icon size={14} color="#FFFFFF" />
+      <Text style={styles.text}>{message}</Text>
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const AUTO_DISMISS_MS = 8000;
+
+interface UndoSnackbarProps {
+  message: string | null;
+  disabled?: boolean;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoSnackbar({
+  message,
+  disabled = false,
+  onUndo,
+  onDismiss,
+}: UndoSnackbarProps) {
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!message) {
+      return;
+    }
+
+    const timeout = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss]);
+
+  if (!message) {
+    return null;
+  }
+
+  const styles = StyleSheet.create({
+    snackbar: {
+      position: 'absolute',
+      left: theme.spacing.md,
+      right: theme.spacing.md,
+      bottom: theme.spacing.md,
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.colors.text,
+      borderRadius: theme.borderRadius.lg,
+      paddingVertical: theme.spacing.sm,
+      paddingLeft: theme.spacing.md,
+      paddingRight: theme.spacing.sm,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.15,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    message: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.background,
+    },
+    undoButton: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 6,
+      marginLeft: theme.spacing.sm,
+    },
+    undoButtonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+      textTransform: 'uppercase',
+    },
+  });
+
+  return (
+    <View style={styles.snackbar} accessibilityRole="alert">
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+      <TouchableOpacity
+        style={styles.undoButton}
+        onPress={onUndo}
+        disabled={disabled}
+      >
+        <Text style={styles.undoButtonText}>Undo</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,499 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { X, Search, Check } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { patientsApi, usersApi } from '@/utils/api';
+import { APPOINTMENT_DURATIONS } from '@/utils/scheduling';
+import { TIME_WINDOW_PRESETS, WEEKDAY_OPTIONS } from '@/utils/waitlist';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { Appointment, Patient } from '@/types';
+
+const APPOINTMENT_TYPES: { value: Appointment['type']; label: string }[] = [
+  { value: 'consultation', label: 'Consultation' },
+  { value: 'checkup', label: 'Checkup' },
+  { value: 'followup', label: 'Follow-up' },
+  { value: 'emergency', label: 'Emergency' },
+];
+
+interface WaitlistValues {
+  patient: Patient | null;
+  doctorIds: string[];
+  days: number[];
+  windows: string[];
+  type: Appointment['type'];
+  duration: number;
+  notes: string;
+}
+
+const emptyValues = (): WaitlistValues => ({
+  patient: null,
+  doctorIds: [],
+  days: [],
+  windows: [],
+  type: 'consultation',
+  duration: 30,
+  notes: '',
+});
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...list, value];
+
+interface WaitlistEntryModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function WaitlistEntryModal({
+  visible,
+  onClose,
+}: WaitlistEntryModalProps) {
+  const { theme } = useTheme();
+  const { addEntry, isAdding } = useWaitlist(false);
+  const [values, setValues] = useState<WaitlistValues>(emptyValues);
+  const [patientSearch, setPatientSearch] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setValues(emptyValues());
+      setPatientSearch('');
+    }
+  }, [visible]);
+
+  const { data: patientsResponse, isLoading: patientsLoading } = useQuery({
+    queryKey: ['patients', patientSearch],
+    queryFn: () =>
+      patientsApi.getAll(patientSearch ? { search: patientSearch } : undefined),
+    enabled: visible && !values.patient,
+  });
+  const patients = patientsResponse?.data ?? [];
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors'],
+    queryFn: async () => {
+      const response = await usersApi.getDoctors();
+      return response.data ?? [];
+    },
+    enabled: visible,
+  });
+
+  const setField = <K extends keyof WaitlistValues>(
+    key: K,
+    value: WaitlistValues[K]
+  ) => setValues((prev) => ({ ...prev, [key]: value }));
+
+  const save = () => {
+    const { patient } = values;
+    if (!patient) {
+      return;
+    }
+
+    addEntry(
+      {
+        patientId: patient.id,
+        patientName: `${patient.firstName} ${patient.lastName}`,
+        doctorIds: values.doctorIds,
+        days: values.days,
+        timeWindows: TIME_WINDOW_PRESETS.filter(({ value }) =>
+          values.windows.includes(value)
+        ).map(({ window }) => window),
+        type: values.type,
+        duration: values.duration,
+        notes: values.notes.trim() || undefined,
+      },
+      onClose
+    );
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: Platform.OS === 'ios' ? 24 : 16,
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    headerTitle: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+    },
+    closeButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.surface,
+    },
+    content: {
+      flex: 1,
+    },
+    contentInner: {
+      padding: theme.spacing.lg,
+    },
+    label: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 6,
+    },
+    hint: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.sm,
+    },
+    field: {
+      marginBottom: theme.spacing.md,
+    },
+    input: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 12,
+      fontSize: theme.typography.body.fontSize,
+      fontFamily: theme.typography.body.fontWeight,
+      color: theme.colors.text,
+    },
+    multilineInput: {
+      minHeight: 80,
+      textAlignVertical: 'top',
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: theme.spacing.md,
+    },
+    searchInput: {
+      flex: 1,
+      marginLeft: theme.spacing.sm,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: theme.spacing.md,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+      marginBottom: theme.spacing.sm,
+    },
+    selectedOption: {
+      borderColor: theme.colors.primary,
+      borderWidth: 2,
+    },
+    optionTitle: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    optionSubtitle: {
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    changeText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.primary,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    selectedChip: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Medium',
+      color: theme.colors.text,
+    },
+    selectedChipText: {
+      color: '#FFFFFF',
+    },
+    message: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    footer: {
+      flexDirection: 'row',
+      padding: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: theme.borderRadius.lg,
+      alignItems: 'center',
+      marginHorizontal: 6,
+    },
+    secondaryButton: {
+      backgroundColor: theme.colors.surface,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+  });
+
+  const renderChips = <T extends string | number>(
+    options: { value: T; label: string }[],
+    isSelected: (value: T) => boolean,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const selected = isSelected(option.value);
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.chip, selected && styles.selectedChip]}
+            onPress={() => onSelect(option.value)}
+            accessibilityState={{ selected }}
+          >
+            <Text
+              style={[styles.chipText, selected && styles.selectedChipText]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderPatient = () => {
+    if (values.patient) {
+      const { patient } = values;
+      return (
+        <TouchableOpacity
+          style={[styles.option, styles.selectedOption]}
+          onPress={() => setField('patient', null)}
+        >
+          <View>
+            <Text style={styles.optionTitle}>
+              {patient.firstName} {patient.lastName}
+            </Text>
+            <Text style={styles.optionSubtitle}>{patient.phone}</Text>
+          </View>
+          <Text style={styles.changeText}>Change</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <>
+        <View style={[styles.input, styles.searchRow]}>
+          <Search size={18} color={theme.colors.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.colors.text }]}
+            value={patientSearch}
+            onChangeText={setPatientSearch}
+            placeholder="Search patients..."
+            placeholderTextColor={theme.colors.placeholder}
+          />
+        </View>
+        {patientsLoading ? (
+          <ActivityIndicator color={theme.colors.primary} />
+        ) : patients.length === 0 ? (
+          <Text style={styles.message}>No patients found</Text>
+        ) : (
+          patients.map((patient) => (
+            <TouchableOpacity
+              key={patient.id}
+              style={styles.option}
+              onPress={() => setField('patient', patient)}
+            >
+              <View>
+                <Text style={styles.optionTitle}>
+                  {patient.firstName} {patient.lastName}
+                </Text>
+                <Text style={styles.optionSubtitle}>{patient.phone}</Text>
+              </View>
+              <Check size={20} color={theme.colors.disabled} />
+            </TouchableOpacity>
+          ))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Add to Waitlist</Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityLabel="Close"
+          >
+            <X size={20} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.field}>
+            <Text style={styles.label}>Patient</Text>
+            {renderPatient()}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Preferred Doctors</Text>
+            <Text style={styles.hint}>Leave empty for any doctor</Text>
+            {renderChips(
+              doctors.map((doctor) => ({
+                value: doctor.id,
+                label: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+              })),
+              (id) => values.doctorIds.includes(id),
+              (id) => setField('doctorIds', toggle(values.doctorIds, id))
+            )}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Preferred Days</Text>
+            <Text style={styles.hint}>Leave empty for any day</Text>
+            {renderChips(
+              WEEKDAY_OPTIONS,
+              (day) => values.days.includes(day),
+              (day) => setField('days', toggle(values.days, day))
+            )}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Preferred Times</Text>
+            <Text style={styles.hint}>Leave empty for any time</Text>
+            {renderChips(
+              TIME_WINDOW_PRESETS.map(({ value, label, window }) => ({
+                value,
+                label: `${label} ${window.start}-${window.end}`,
+              })),
+              (window) => values.windows.includes(window),
+              (window) => setField('windows', toggle(values.windows, window))
+            )}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Appointment Type</Text>
+            {renderChips(
+              APPOINTMENT_TYPES,
+              (type) => values.type === type,
+              (type) => setField('type', type)
+            )}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Duration</Text>
+            {renderChips(
+              APPOINTMENT_DURATIONS.map((minutes) => ({
+                value: minutes,
+                label: `${minutes} min`,
+              })),
+              (minutes) => values.duration === minutes,
+              (minutes) => setField('duration', minutes)
+            )}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={values.notes}
+              onChangeText={(notes) => setField('notes', notes)}
+              placeholder="Anything the booking desk should know"
+              placeholderTextColor={theme.colors.placeholder}
+              multiline
+            />
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.footerButton, styles.secondaryButton]}
+            onPress={onClose}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.footerButton,
+              styles.primaryButton,
+              (!values.patient || isAdding) && styles.disabledButton,
+            ]}
+            onPress={save}
+            disabled={!values.patient || isAdding}
+          >
+            <Text style={styles.primaryButtonText}>
+              {isAdding ? 'Adding...' : 'Add to Waitlist'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,348 @@
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, User as UserIcon } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  ConflictError,
+  NetworkError,
+  appointmentsApi,
+  waitlistApi,
+} from '@/utils/api';
+import { checkOccurrences } from '@/utils/availability';
+import { ScheduleConflictError } from '@/utils/schedule-conflicts';
+import { FreedSlot, WaitlistMatch, rankWaitlist } from '@/utils/waitlist';
+import { useSchedulingRules } from '@/hooks/useSchedulingRules';
+import { useWaitlist } from '@/hooks/useWaitlist';
+
+interface WaitlistOfferModalProps {
+  // The slot a cancellation just freed; null hides the sheet
+  slot: FreedSlot | null;
+  onClose: () => void;
+}
+
+interface OfferRequest {
+  slot: FreedSlot;
+  match: WaitlistMatch;
+  acknowledgeWarnings?: boolean;
+}
+
+const formatSlot = ({ date, time }: FreedSlot) =>
+  `${new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  })} at ${time}`;
+
+// Offers a freed slot to the best-matching waitlisted patients. Booking one
+// creates their appointment and takes them off the list in a single step.
+export default function WaitlistOfferModal({
+  slot,
+  onClose,
+}: WaitlistOfferModalProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const { rules, canOverbook } = useSchedulingRules();
+  const { entries, isLoading } = useWaitlist(!!slot);
+  const matches = slot ? rankWaitlist(entries, slot) : [];
+
+  // The slot is re-checked against the patient's own bookings, since the
+  // waitlist doesn't know what else they have that day
+  const offerMutation = useMutation({
+    mutationFn: async ({ slot, match, acknowledgeWarnings }: OfferRequest) => {
+      const { entry } = match;
+      const [check] = await checkOccurrences(
+        [
+          {
+            patientId: entry.patientId,
+            doctorId: slot.doctorId,
+            date: slot.date,
+            time: slot.time,
+            duration: entry.duration,
+          },
+        ],
+        { rules, canOverbook }
+      );
+
+      if (!check.free) {
+        throw new ScheduleConflictError(check.conflicts);
+      }
+      if (check.conflicts.length > 0 && !acknowledgeWarnings) {
+        throw new ScheduleConflictError(check.conflicts);
+      }
+
+      const response = await appointmentsApi.create({
+        patient: entry.patientId,
+        doctor: slot.doctorId,
+        type: entry.type,
+        date: slot.date,
+        time: slot.time,
+        duration: entry.duration,
+        reason: 'Booked from the waitlist',
+        notes: entry.notes,
+      });
+      await waitlistApi.delete(entry.id);
+      return response;
+    },
+    onSuccess: (response, { slot, match }) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      onClose();
+
+      Alert.alert(
+        'Slot Filled',
+        response.queued
+          ? `Saved offline. ${match.entry.patientName} will be booked when you reconnect.`
+          : `${match.entry.patientName} is booked with ${slot.doctorName} on ${formatSlot(slot)}.`
+      );
+    },
+    onError: (error: any, request) => {
+      if (error instanceof ScheduleConflictError && !error.blocking) {
+        Alert.alert('Scheduling Warnings', error.message, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Book Anyway',
+            onPress: () =>
+              offerMutation.mutate({ ...request, acknowledgeWarnings: true }),
+          },
+        ]);
+        return;
+      }
+
+      if (error instanceof ScheduleConflictError) {
+        Alert.alert(
+          'Slot Unavailable',
+          `${error.message}\n\nChoose someone else for this slot.`
+        );
+        return;
+      }
+
+      if (error instanceof ConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['appointments'] });
+        Alert.alert(
+          'Slot Unavailable',
+          'That time was just booked by someone else.'
+        );
+        onClose();
+        return;
+      }
+
+      if (error instanceof NetworkError) {
+        Alert.alert(
+          'Offline',
+          'Connect to the internet to confirm the slot is still free.'
+        );
+        return;
+      }
+
+      Alert.alert('Error', error.message || 'Failed to book from the waitlist');
+    },
+  });
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: theme.colors.overlay,
+      justifyContent: 'flex-end',
+    },
+    sheet: {
+      maxHeight: '80%',
+      backgroundColor: theme.colors.card,
+      borderTopLeftRadius: theme.borderRadius.xl,
+      borderTopRightRadius: theme.borderRadius.xl,
+      paddingTop: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl,
+    },
+    title: {
+      fontSize: theme.typography.h3.fontSize,
+      fontFamily: theme.typography.h3.fontWeight,
+      color: theme.colors.text,
+      paddingHorizontal: theme.spacing.lg,
+    },
+    slot: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: theme.spacing.lg,
+      marginTop: theme.spacing.xs,
+      marginBottom: theme.spacing.md,
+    },
+    slotText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginLeft: 6,
+    },
+    match: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: theme.spacing.lg,
+      paddingVertical: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+    },
+    avatar: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.primary,
+      marginRight: 12,
+    },
+    matchInfo: {
+      flex: 1,
+    },
+    patientName: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    reasons: {
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    bookButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: theme.colors.primary,
+      marginLeft: 8,
+    },
+    disabledButton: {
+      opacity: 0.6,
+    },
+    bookButtonText: {
+      fontSize: 14,
+      fontFamily: 'Inter-SemiBold',
+      color: '#FFFFFF',
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      paddingHorizontal: theme.spacing.lg,
+      paddingVertical: theme.spacing.md,
+    },
+    dismissButton: {
+      alignItems: 'center',
+      paddingTop: theme.spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+    },
+    dismissText: {
+      fontSize: 16,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+  });
+
+  const bookingId = offerMutation.isPending
+    ? offerMutation.variables?.match.entry.id
+    : undefined;
+
+  const confirmOffer = (match: WaitlistMatch) =>
+    Alert.alert(
+      'Book from Waitlist',
+      `Book ${match.entry.patientName} with ${slot!.doctorName} on ${formatSlot(slot!)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Book',
+          onPress: () => offerMutation.mutate({ slot: slot!, match }),
+        },
+      ]
+    );
+
+  const renderMatches = () => {
+    if (isLoading) {
+      return (
+        <ActivityIndicator
+          style={{ padding: theme.spacing.lg }}
+          color={theme.colors.primary}
+        />
+      );
+    }
+
+    if (matches.length === 0) {
+      return (
+        <Text style={styles.emptyText}>
+          No one on the waitlist fits this slot.
+        </Text>
+      );
+    }
+
+    return matches.map((match) => (
+      <View key={match.entry.id} style={styles.match}>
+        <View style={styles.avatar}>
+          <UserIcon size={16} color="#FFFFFF" />
+        </View>
+        <View style={styles.matchInfo}>
+          <Text style={styles.patientName}>{match.entry.patientName}</Text>
+          <Text style={styles.reasons}>
+            {match.entry.type} · {match.entry.duration} min ·{' '}
+            {match.reasons.join(' · ')}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[
+            styles.bookButton,
+            offerMutation.isPending && styles.disabledButton,
+          ]}
+          onPress={() => confirmOffer(match)}
+          disabled={offerMutation.isPending}
+          accessibilityLabel={`Book ${match.entry.patientName} into this slot`}
+        >
+          {bookingId === match.entry.id ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.bookButtonText}>Book</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    ));
+  };
+
+  return (
+    <Modal
+      visible={!!slot}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>Offer Freed Slot</Text>
+          {slot && (
+            <View style={styles.slot}>
+              <CalendarClock size={14} color={theme.colors.textSecondary} />
+              <Text style={styles.slotText}>
+                {slot.doctorName} · {formatSlot(slot)} · {slot.duration} min
+              </Text>
+            </View>
+          )}
+          <ScrollView>{renderMatches()}</ScrollView>
+          <TouchableOpacity style={styles.dismissButton} onPress={onClose}>
+            <Text style={styles.dismissText}>Leave Open</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
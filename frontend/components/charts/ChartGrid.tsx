@@ -0,0 +1,85 @@
+import React from 'react';
+import { G, Line, Text as SvgText } from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+
+// Space around the plot for the axis labels
+export const CHART_PADDING = { top: 8, right: 8, bottom: 20, left: 36 };
+
+interface ChartGridProps {
+  ticks: number[];
+  // Maps a value to its y coordinate
+  y: (value: number) => number;
+  width: number;
+  formatValue: (value: number) => string;
+}
+
+// Horizontal grid lines with the value axis labelled down the left
+export default function ChartGrid({
+  ticks,
+  y,
+  width,
+  formatValue,
+}: ChartGridProps) {
+  const { theme } = useTheme();
+
+  return (
+    <G>
+      {ticks.map((tick) => (
+        <G key={tick}>
+          <Line
+            x1={CHART_PADDING.left}
+            x2={width - CHART_PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            stroke={theme.colors.border}
+            strokeWidth={1}
+            strokeDasharray={tick === 0 ? undefined : '3 3'}
+          />
+          <SvgText
+            x={CHART_PADDING.left - 6}
+            y={y(tick) + 3}
+            fontSize={10}
+            fontFamily="Inter-Regular"
+            fill={theme.colors.textSecondary}
+            textAnchor="end"
+          >
+            {formatValue(tick)}
+          </SvgText>
+        </G>
+      ))}
+    </G>
+  );
+}
+
+interface ChartLabelsProps {
+  labels: string[];
+  // Maps an index to the x coordinate its label is centred on
+  x: (index: number) => number;
+  height: number;
+  stride: number;
+}
+
+// Category labels along the bottom, thinned out by `stride`
+export function ChartLabels({ labels, x, height, stride }: ChartLabelsProps) {
+  const { theme } = useTheme();
+
+  return (
+    <G>
+      {labels.map((label, index) =>
+        index % stride === 0 ? (
+          <SvgText
+            key={`${label}-${index}`}
+            x={x(index)}
+            y={height - 6}
+            fontSize={10}
+            fontFamily="Inter-Regular"
+            fill={theme.colors.textSecondary}
+            textAnchor="middle"
+          >
+            {label}
+          </SvgText>
+        ) : null
+      )}
+    </G>
+  );
+}
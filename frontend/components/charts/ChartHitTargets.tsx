@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Pressable, StyleSheet } from 'react-native';
+import { SELECT_HINT } from '@/utils/charts';
+
+interface ChartHitTargetsProps {
+  count: number;
+  // The plot area the targets divide between them
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  direction?: 'columns' | 'rows';
+  activeIndex: number | null;
+  onChange: (index: number | null) => void;
+  // Called instead of hiding the tooltip when the active point is tapped again
+  onSelect?: (index: number) => void;
+  // Spoken for each target, so the points can be explored one by one
+  describe: (index: number) => string;
+}
+
+// Invisible bands over a chart: tapping shows a point's tooltip and tapping
+// it again hides it, or opens it for charts that can be drilled into, while
+// on web hovering shows the tooltip
+export default function ChartHitTargets({
+  count,
+  left,
+  top,
+  width,
+  height,
+  direction = 'columns',
+  activeIndex,
+  onChange,
+  onSelect,
+  describe,
+}: ChartHitTargetsProps) {
+  const columns = direction === 'columns';
+  const size = (columns ? width : height) / Math.max(1, count);
+
+  return (
+    <View
+      style={[
+        StyleSheet.absoluteFill,
+        { left, top, width, height, flexDirection: columns ? 'row' : 'column' },
+      ]}
+    >
+      {Array.from({ length: count }, (_, index) => (
+        <Pressable
+          key={index}
+          style={columns ? { width: size } : { height: size }}
+          onPress={() => {
+            if (activeIndex !== index) {
+              onChange(index);
+            } else if (onSelect) {
+              onSelect(index);
+            } else {
+              onChange(null);
+            }
+          }}
+          onHoverIn={() => onChange(index)}
+          onHoverOut={() => onChange(null)}
+          accessibilityRole="button"
+          accessibilityLabel={describe(index)}
+          accessibilityHint={onSelect ? SELECT_HINT : undefined}
+        />
+      ))}
+    </View>
+  );
+}
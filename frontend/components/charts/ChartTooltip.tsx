@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const TOOLTIP_WIDTH = 140;
+
+interface ChartTooltipProps {
+  // Horizontal centre of the point being described, in chart coordinates
+  x: number;
+  // Width of the chart, so the tooltip never hangs off either edge
+  chartWidth: number;
+  // Which edge of the chart the tooltip sits against
+  placement?: 'top' | 'bottom';
+  title: string;
+  rows: { label: string; value: string; color: string }[];
+  // A line under the rows, such as how to open the records behind the point
+  hint?: string;
+}
+
+export default function ChartTooltip({
+  x,
+  chartWidth,
+  placement = 'top',
+  title,
+  rows,
+  hint,
+}: ChartTooltipProps) {
+  const { theme } = useTheme();
+  const left = Math.min(
+    Math.max(0, x - TOOLTIP_WIDTH / 2),
+    Math.max(0, chartWidth - TOOLTIP_WIDTH)
+  );
+
+  const styles = StyleSheet.create({
+    tooltip: {
+      position: 'absolute',
+      [placement]: 0,
+      left,
+      width: TOOLTIP_WIDTH,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: theme.colors.card,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      shadowColor: theme.colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    title: {
+      fontSize: 12,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginBottom: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 2,
+    },
+    swatch: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginRight: 6,
+    },
+    label: {
+      flex: 1,
+      fontSize: 11,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+    },
+    value: {
+      fontSize: 11,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+    },
+    hint: {
+      fontSize: 10,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.primary,
+      marginTop: 4,
+    },
+  });
+
+  return (
+    <View style={styles.tooltip} pointerEvents="none">
+      <Text style={styles.title}>{title}</Text>
+      {rows.map(({ label, value, color }) => (
+        <View key={label} style={styles.row}>
+          <View style={[styles.swatch, { backgroundColor: color }]} />
+          <Text style={styles.label} numberOfLines={1}>
+            {label}
+          </Text>
+          <Text style={styles.value}>{value}</Text>
+        </View>
+      ))}
+      {hint && <Text style={styles.hint}>{hint}</Text>}
+    </View>
+  );
+}
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import Svg, { Circle, Path } from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  ChartSlice,
+  SELECT_HINT,
+  arcPath,
+  describeSlices,
+  formatCount,
+} from '@/utils/charts';
+
+interface DonutChartProps {
+  // Used for the screen reader summary
+  title: string;
+  slices: ChartSlice[];
+  size?: number;
+  // Shown in the middle when no slice is selected
+  totalLabel?: string;
+  // The same slices in an earlier period, drawn as a thin inner ring
+  comparison?: ChartSlice[];
+  comparisonLabel?: string;
+  formatValue?: (value: number) => string;
+  // Opens the records behind a slice once it is highlighted
+  onSelect?: (key: string) => void;
+}
+
+// A ring split by share with a legend beside it; selecting a slice or its
+// legend row shows that slice in the middle, and selecting it again opens it
+// when the chart has onSelect
+export default function DonutChart({
+  title,
+  slices,
+  size = 132,
+  totalLabel = 'Total',
+  comparison,
+  comparisonLabel = 'Comparison period',
+  formatValue = formatCount,
+  onSelect,
+}: DonutChartProps) {
+  const { theme } = useTheme();
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+
+  const total = slices.reduce((sum, { value }) => sum + value, 0);
+  const active = slices.find(({ key }) => key === activeKey);
+  const center = size / 2;
+  const outer = center - 4;
+  const inner = outer * 0.62;
+  const share = (value: number) =>
+    total > 0 ? Math.round((value / total) * 100) : 0;
+
+  const toArcs = (list: ChartSlice[]) => {
+    const sum = list.reduce((total, { value }) => total + value, 0);
+    let angle = 0;
+    return list.map((slice) => {
+      const start = angle;
+      angle += sum > 0 ? (slice.value / sum) * Math.PI * 2 : 0;
+      return { ...slice, start, end: angle };
+    });
+  };
+  const arcs = toArcs(slices);
+  const comparisonArcs = comparison ? toArcs(comparison) : [];
+  const comparisonTotal = (comparison ?? []).reduce(
+    (total, { value }) => total + value,
+    0
+  );
+  const comparisonShare = (key: string) => {
+    const value = comparison?.find((slice) => slice.key === key)?.value ?? 0;
+    return comparisonTotal > 0
+      ? Math.round((value / comparisonTotal) * 100)
+      : 0;
+  };
+
+  const toggle = (key: string) => {
+    if (key !== activeKey) {
+      setActiveKey(key);
+    } else if (onSelect) {
+      onSelect(key);
+    } else {
+      setActiveKey(null);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    chart: {
+      width: size,
+      height: size,
+    },
+    center: {
+      ...StyleSheet.absoluteFillObject,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    centerValue: {
+      fontSize: 20,
+      fontFamily: 'Inter-Bold',
+      color: theme.colors.text,
+    },
+    centerLabel: {
+      fontSize: 11,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      maxWidth: inner * 1.6,
+      textAlign: 'center',
+    },
+    legend: {
+      flex: 1,
+      marginLeft: theme.spacing.md,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 5,
+      paddingHorizontal: theme.spacing.xs,
+      borderRadius: theme.borderRadius.sm,
+    },
+    legendItemActive: {
+      backgroundColor: theme.colors.border,
+    },
+    swatch: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginRight: theme.spacing.sm,
+    },
+    legendLabel: {
+      flex: 1,
+      fontSize: 13,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.text,
+    },
+    legendValue: {
+      fontSize: 13,
+      fontFamily: 'Inter-SemiBold',
+      color: theme.colors.text,
+      marginLeft: theme.spacing.sm,
+    },
+    legendShare: {
+      width: 40,
+      fontSize: 12,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'right',
+    },
+    legendComparison: {
+      width: 48,
+      fontSize: 11,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'right',
+      opacity: 0.8,
+    },
+    hint: {
+      fontSize: 11,
+      fontFamily: 'Inter-Regular',
+      color: theme.colors.primary,
+      paddingHorizontal: theme.spacing.xs,
+      marginTop: theme.spacing.xs,
+    },
+  });
+
+  return (
+    <View
+      style={styles.container}
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={[
+        describeSlices(title, slices, formatValue),
+        comparison && describeSlices(comparisonLabel, comparison, formatValue),
+      ]
+        .filter(Boolean)
+        .join(' ')}
+    >
+      <View style={styles.chart}>
+        <Svg width={size} height={size}>
+          {total === 0 ? (
+            <Circle
+              cx={center}
+              cy={center}
+              r={(outer + inner) / 2}
+              stroke={theme.colors.border}
+              strokeWidth={outer - inner}
+              fill="none"
+            />
+          ) : (
+            arcs.map(({ key, color, start, end }) =>
+              end > start ? (
+                <Path
+                  key={key}
+                  d={arcPath(
+                    center,
+                    center,
+                    key === activeKey ? outer + 3 : outer,
+                    inner,
+                    start,
+                    end
+                  )}
+                  fill={color}
+                  opacity={activeKey === null || key === activeKey ? 1 : 0.45}
+                  onPress={() => toggle(key)}
+                />
+              ) : null
+            )
+          )}
+          {comparisonArcs.map(({ key, color, start, end }) =>
+            end > start ? (
+              <Path
+                key={`comparison-${key}`}
+                d={arcPath(center, center, inner - 4, inner - 9, start, end)}
+                fill={color}
+                opacity={activeKey === null || key === activeKey ? 0.6 : 0.25}
+              />
+            ) : null
+          )}
+        </Svg>
+        <View style={styles.center} pointerEvents="none">
+          <Text style={styles.centerValue}>
+            {total === 0
+              ? '0'
+              : active
+                ? `${share(active.value)}%`
+                : formatValue(total)}
+          </Text>
+          <Text style={styles.centerLabel} numberOfLines={1}>
+            {total === 0 ? 'No data' : active ? active.label : totalLabel}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.legend}>
+        {slices.map(({ key, label, value, color }) => (
+          <Pressable
+            key={key}
+            style={[
+              styles.legendItem,
+              key === activeKey && styles.legendItemActive,
+            ]}
+            onPress={() => toggle(key)}
+            onHoverIn={() => setActiveKey(key)}
+            onHoverOut={() => setActiveKey(null)}
+          >
+            <View style={[styles.swatch, { backgroundColor: color }]} />
+            <Text style={styles.legendLabel} numberOfLines={1}>
+              {label}
+            </Text>
+            <Text style={styles.legendValue}>{formatValue(value)}</Text>
+            <Text style={styles.legendShare}>{share(value)}%</Text>
+            {comparison && (
+              <Text style={styles.legendComparison}>
+                vs {comparisonShare(key)}%
+              </Text>
+            )}
+          </Pressable>
+        ))}
+        {onSelect && active && <Text style={styles.hint}>{SELECT_HINT}</Text>}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { View, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Path } from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  ChartSeries,
+  describeSeries,
+  formatCount,
+  labelStride,
+  niceTicks,
+  seriesMax,
+} from '@/utils/charts';
+import ChartGrid, { CHART_PADDING, ChartLabels } from './ChartGrid';
+import ChartHitTargets from './ChartHitTargets';
+import ChartTooltip from './ChartTooltip';
+
+interface LineChartProps {
+  // Used for the screen reader summary
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+export default function LineChart({
+  title,
+  labels,
+  series,
+  height = 180,
+  formatValue = formatCount,
+}: LineChartProps) {
+  const { theme } = useTheme();
+  const [width, setWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const plotWidth = Math.max(
+    0,
+    width - CHART_PADDING.left - CHART_PADDING.right
+  );
+  const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+  const ticks = niceTicks(seriesMax(series));
+  const top = ticks[ticks.length - 1];
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : plotWidth;
+
+  const x = (index: number) =>
+    CHART_PADDING.left + (labels.length > 1 ? index * step : plotWidth / 2);
+  const y = (value: number) =>
+    CHART_PADDING.top + plotHeight - (value / top) * plotHeight;
+
+  const pathFor = (values: number[]) =>
+    values
+      .map(
+        (value, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(value)}`
+      )
+      .join(' ');
+
+  const describePoint = (index: number) =>
+    `${labels[index]}: ${series
+      .map(({ label, values }) => `${label} ${formatValue(values[index] ?? 0)}`)
+      .join(', ')}`;
+
+  return (
+    <View
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={describeSeries(title, labels, series, formatValue)}
+      onLayout={(event: LayoutChangeEvent) =>
+        setWidth(event.nativeEvent.layout.width)
+      }
+      style={{ height }}
+    >
+      {width > 0 && (
+        <>
+          <Svg width={width} height={height}>
+            <ChartGrid
+              ticks={ticks}
+              y={y}
+              width={width}
+              formatValue={formatValue}
+            />
+            <ChartLabels
+              labels={labels}
+              x={x}
+              height={height}
+              stride={labelStride(labels.length)}
+            />
+            {activeIndex !== null && (
+              <Line
+                x1={x(activeIndex)}
+                x2={x(activeIndex)}
+                y1={CHART_PADDING.top}
+                y2={CHART_PADDING.top + plotHeight}
+                stroke={theme.colors.textSecondary}
+                strokeWidth={1}
+              />
+            )}
+            {series.map(({ key, color, values, dashed }) => (
+              <Path
+                key={key}
+                d={pathFor(values)}
+                stroke={color}
+                strokeWidth={2}
+                strokeDasharray={dashed ? '5 4' : undefined}
+                strokeLinejoin="round"
+                strokeLinecap="round"
+                fill="none"
+              />
+            ))}
+            {series.map(({ key, color, values, dashed }) =>
+              values.map((value, index) =>
+                (labels.length <= 14 && !dashed) || index === activeIndex ? (
+                  <Circle
+                    key={`${key}-${index}`}
+                    cx={x(index)}
+                    cy={y(value)}
+                    r={index === activeIndex ? 4 : 2.5}
+                    fill={index === activeIndex ? color : theme.colors.card}
+                    stroke={color}
+                    strokeWidth={1.5}
+                  />
+                ) : null
+              )
+            )}
+          </Svg>
+          <ChartHitTargets
+            count={labels.length}
+            left={CHART_PADDING.left - step / 2}
+            top={CHART_PADDING.top}
+            width={plotWidth + step}
+            height={plotHeight}
+            activeIndex={activeIndex}
+            onChange={setActiveIndex}
+            describe={describePoint}
+          />
+          {activeIndex !== null && (
+            <ChartTooltip
+              x={x(activeIndex)}
+              chartWidth={width}
+              title={labels[activeIndex]}
+              rows={series.map(({ label, color, values }) => ({
+                label,
+                color,
+                value: formatValue(values[activeIndex] ?? 0),
+              }))}
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+}
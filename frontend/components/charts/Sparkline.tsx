@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { View, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Path } from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+import { describeSeries, formatCount } from '@/utils/charts';
+
+interface SparklineProps {
+  // Used for the screen reader summary
+  title: string;
+  labels: string[];
+  values: number[];
+  color: string;
+  // An earlier period's values, drawn dashed on the same scale
+  comparison?: number[];
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+// A bare trend line for metric cards, scaled to its own range
+export default function Sparkline({
+  title,
+  labels,
+  values,
+  color,
+  comparison,
+  height = 28,
+  formatValue = formatCount,
+}: SparklineProps) {
+  const { theme } = useTheme();
+  const [width, setWidth] = useState(0);
+
+  const inset = 3;
+  const min = Math.min(...values, ...(comparison ?? []));
+  const max = Math.max(...values, ...(comparison ?? []));
+  const spread = max - min || 1;
+  const x = (index: number) =>
+    inset +
+    (values.length > 1
+      ? (index / (values.length - 1)) * (width - inset * 2)
+      : (width - inset * 2) / 2);
+  const y = (value: number) =>
+    // A flat series sits in the middle rather than on the floor
+    max === min
+      ? height / 2
+      : inset + (1 - (value - min) / spread) * (height - inset * 2);
+
+  const pathFor = (points: number[]) =>
+    points
+      .map(
+        (value, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(value)}`
+      )
+      .join(' ');
+  const last = values.length - 1;
+
+  return (
+    <View
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={describeSeries(
+        title,
+        labels,
+        [
+          { key: 'value', label: title, color, values },
+          ...(comparison
+            ? [
+                {
+                  key: 'comparison',
+                  label: 'Comparison',
+                  color,
+                  values: comparison,
+                },
+              ]
+            : []),
+        ],
+        formatValue
+      )}
+      onLayout={(event: LayoutChangeEvent) =>
+        setWidth(event.nativeEvent.layout.width)
+      }
+      style={{ height }}
+    >
+      {width > 0 && values.length > 0 && (
+        <Svg width={width} height={height}>
+          {comparison && (
+            <Path
+              d={pathFor(comparison)}
+              stroke={theme.colors.textSecondary}
+              strokeWidth={1}
+              strokeDasharray="3 3"
+              fill="none"
+            />
+          )}
+          <Path
+            d={pathFor(values)}
+            stroke={color}
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            fill="none"
+          />
+          <Circle cx={x(last)} cy={y(values[last])} r={2.5} fill={color} />
+        </Svg>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import { View, LayoutChangeEvent } from 'react-native';
+import Svg, {
+  Circle,
+  G,
+  Line,
+  Path,
+  Rect,
+  Text as SvgText,
+} from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  ChartSeries,
+  describeCategories,
+  describeSeries,
+  SELECT_HINT,
+  formatCount,
+  labelStride,
+  niceTicks,
+  seriesMax,
+} from '@/utils/charts';
+import ChartGrid, { CHART_PADDING, ChartLabels } from './ChartGrid';
+import ChartHitTargets from './ChartHitTargets';
+import ChartTooltip from './ChartTooltip';
+
+// Height of each category in the horizontal layout: its label, then its bar
+const ROW_HEIGHT = 34;
+const ROW_BAR_HEIGHT = 10;
+
+interface StackedBarChartProps {
+  // Used for the screen reader summary
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  // Vertical charts only; horizontal ones grow with their rows
+  height?: number;
+  // Lays categories out as rows, for long labels such as condition names
+  horizontal?: boolean;
+  // Series drawn over the bars instead of stacked in them, as lines in the
+  // vertical layout and markers in the horizontal one
+  overlay?: ChartSeries[];
+  formatValue?: (value: number) => string;
+  // Opens the records behind a category once it is highlighted
+  onSelect?: (index: number) => void;
+}
+
+export default function StackedBarChart({
+  title,
+  labels,
+  series,
+  height = 180,
+  horizontal = false,
+  overlay = [],
+  formatValue = formatCount,
+  onSelect,
+}: StackedBarChartProps) {
+  const { theme } = useTheme();
+  const [width, setWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const chartHeight = horizontal ? labels.length * ROW_HEIGHT : height;
+  const total = (index: number) =>
+    series.reduce((sum, { values }) => sum + (values[index] ?? 0), 0);
+
+  // Each category's bar pieces, bottom (or left) first, as fractions of the
+  // largest total
+  const max = Math.max(seriesMax(series, true), seriesMax(overlay));
+  const ticks = horizontal ? [] : niceTicks(max);
+  const scaleTop = horizontal ? Math.max(1, max) : ticks[ticks.length - 1];
+  const segments = (index: number) => {
+    let offset = 0;
+    return series.map(({ key, color, values }) => {
+      const value = values[index] ?? 0;
+      const segment = { key, color, start: offset, size: value / scaleTop };
+      offset += segment.size;
+      return segment;
+    });
+  };
+
+  const allSeries = [...series, ...overlay];
+  const describeBar = (index: number) =>
+    `${labels[index]}: ${allSeries
+      .map(({ label, values }) => `${label} ${formatValue(values[index] ?? 0)}`)
+      .join(', ')}`;
+  const tooltipRows = (index: number) =>
+    allSeries.map(({ label, color, values }) => ({
+      label,
+      color,
+      value: formatValue(values[index] ?? 0),
+    }));
+
+  const renderVertical = () => {
+    const plotWidth = Math.max(
+      0,
+      width - CHART_PADDING.left - CHART_PADDING.right
+    );
+    const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+    const band = plotWidth / Math.max(1, labels.length);
+    const barWidth = Math.min(32, band * 0.6);
+    const center = (index: number) => CHART_PADDING.left + band * (index + 0.5);
+    const y = (value: number) =>
+      CHART_PADDING.top + plotHeight - (value / scaleTop) * plotHeight;
+
+    return (
+      <>
+        <Svg width={width} height={height}>
+          {activeIndex !== null && (
+            <Rect
+              x={CHART_PADDING.left + band * activeIndex}
+              y={CHART_PADDING.top}
+              width={band}
+              height={plotHeight}
+              fill={theme.colors.border}
+              opacity={0.4}
+            />
+          )}
+          <ChartGrid
+            ticks={ticks}
+            y={y}
+            width={width}
+            formatValue={formatValue}
+          />
+          <ChartLabels
+            labels={labels}
+            x={center}
+            height={height}
+            stride={labelStride(labels.length)}
+          />
+          {labels.map((label, index) => (
+            <G key={`${label}-${index}`}>
+              {segments(index).map(({ key, color, start, size }) =>
+                size > 0 ? (
+                  <Rect
+                    key={key}
+                    x={center(index) - barWidth / 2}
+                    y={CHART_PADDING.top + plotHeight * (1 - start - size)}
+                    width={barWidth}
+                    height={plotHeight * size}
+                    fill={color}
+                  />
+                ) : null
+              )}
+            </G>
+          ))}
+          {overlay.map(({ key, color, values }) => (
+            <G key={key}>
+              <Path
+                d={values
+                  .map(
+                    (value, index) =>
+                      `${index === 0 ? 'M' : 'L'} ${center(index)} ${y(value)}`
+                  )
+                  .join(' ')}
+                stroke={color}
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                fill="none"
+              />
+              {values.map((value, index) => (
+                <Circle
+                  key={index}
+                  cx={center(index)}
+                  cy={y(value)}
+                  r={index === activeIndex ? 3.5 : 2}
+                  fill={color}
+                />
+              ))}
+            </G>
+          ))}
+        </Svg>
+        <ChartHitTargets
+          count={labels.length}
+          left={CHART_PADDING.left}
+          top={CHART_PADDING.top}
+          width={plotWidth}
+          height={plotHeight}
+          activeIndex={activeIndex}
+          onChange={setActiveIndex}
+          onSelect={onSelect}
+          describe={describeBar}
+        />
+        {activeIndex !== null && (
+          <ChartTooltip
+            x={center(activeIndex)}
+            chartWidth={width}
+            title={labels[activeIndex]}
+            rows={tooltipRows(activeIndex)}
+            hint={onSelect && SELECT_HINT}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderHorizontal = () => {
+    // Room on the right for each row's total
+    const valueWidth = 40;
+    const barWidth = Math.max(0, width - valueWidth);
+
+    return (
+      <>
+        <Svg width={width} height={chartHeight}>
+          {labels.map((label, index) => {
+            const top = index * ROW_HEIGHT;
+            const barTop = top + ROW_HEIGHT - ROW_BAR_HEIGHT - 6;
+            const active = index === activeIndex;
+
+            return (
+              <G
+                key={`${label}-${index}`}
+                opacity={activeIndex === null || active ? 1 : 0.5}
+              >
+                <SvgText
+                  x={0}
+                  y={top + 12}
+                  fontSize={12}
+                  fontFamily={active ? 'Inter-SemiBold' : 'Inter-Regular'}
+                  fill={theme.colors.text}
+                >
+                  {label}
+                </SvgText>
+                <Rect
+                  x={0}
+                  y={barTop}
+                  width={barWidth}
+                  height={ROW_BAR_HEIGHT}
+                  rx={ROW_BAR_HEIGHT / 2}
+                  fill={theme.colors.border}
+                />
+                {segments(index).map(({ key, color, start, size }) =>
+                  size > 0 ? (
+                    <Rect
+                      key={key}
+                      x={barWidth * start}
+                      y={barTop}
+                      width={barWidth * size}
+                      height={ROW_BAR_HEIGHT}
+                      rx={series.length === 1 ? ROW_BAR_HEIGHT / 2 : 0}
+                      fill={color}
+                    />
+                  ) : null
+                )}
+                {overlay.map(({ key, color, values }) => {
+                  const markerX = Math.min(
+                    barWidth - 1,
+                    (barWidth * (values[index] ?? 0)) / scaleTop
+                  );
+                  return (
+                    <Line
+                      key={key}
+                      x1={markerX}
+                      x2={markerX}
+                      y1={barTop - 3}
+                      y2={barTop + ROW_BAR_HEIGHT + 3}
+                      stroke={color}
+                      strokeWidth={2}
+                    />
+                  );
+                })}
+                <SvgText
+                  x={width}
+                  y={barTop + ROW_BAR_HEIGHT - 1}
+                  fontSize={12}
+                  fontFamily="Inter-SemiBold"
+                  fill={theme.colors.text}
+                  textAnchor="end"
+                >
+                  {formatValue(total(index))}
+                </SvgText>
+              </G>
+            );
+          })}
+        </Svg>
+        <ChartHitTargets
+          count={labels.length}
+          left={0}
+          top={0}
+          width={width}
+          height={chartHeight}
+          direction="rows"
+          activeIndex={activeIndex}
+          onChange={setActiveIndex}
+          onSelect={onSelect}
+          describe={describeBar}
+        />
+        {/* Single series rows already show their value, so only stacked or
+            compared rows need the breakdown, or the hint for opening them */}
+        {activeIndex !== null && (allSeries.length > 1 || onSelect) && (
+          <ChartTooltip
+            x={width / 2}
+            chartWidth={width}
+            placement={activeIndex < labels.length / 2 ? 'bottom' : 'top'}
+            title={labels[activeIndex]}
+            rows={tooltipRows(activeIndex)}
+            hint={onSelect && SELECT_HINT}
+          />
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={(horizontal ? describeCategories : describeSeries)(
+        title,
+        labels,
+        allSeries,
+        formatValue
+      )}
+      onLayout={(event: LayoutChangeEvent) =>
+        setWidth(event.nativeEvent.layout.width)
+      }
+      style={{ height: chartHeight }}
+    >
+      {width > 0 && (horizontal ? renderHorizontal() : renderVertical())}
+    </View>
+  );
+}
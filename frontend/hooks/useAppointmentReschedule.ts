@@ -0,0 +1,173 @@
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { appointmentsApi, ConflictError, NetworkError } from '@/utils/api';
+import { checkOccurrences } from '@/utils/availability';
+import { ScheduleConflictError } from '@/utils/schedule-conflicts';
+import { useSchedulingRules } from '@/hooks/useSchedulingRules';
+import { patchRangeAppointment } from '@/hooks/useAppointmentsInRange';
+import { Appointment } from '@/types';
+
+export type AppointmentSchedule = Pick<
+  Appointment,
+  'doctorId' | 'doctorName' | 'date' | 'time' | 'duration'
+>;
+
+export interface AppointmentMove {
+  appointment: Appointment;
+  previous: AppointmentSchedule;
+  next: AppointmentSchedule;
+}
+
+interface MoveVariables extends AppointmentMove {
+  isUndo?: boolean;
+  // Set once the user has chosen to move despite scheduling warnings
+  acknowledgeWarnings?: boolean;
+}
+
+const scheduleOf = ({
+  doctorId,
+  doctorName,
+  date,
+  time,
+  duration,
+}: Appointment): AppointmentSchedule => ({
+  doctorId,
+  doctorName,
+  date: date.split('T')[0],
+  time,
+  duration,
+});
+
+// Moves and resizes from the calendar. Every move is run through the conflict
+// engine against fresh bookings, and the last move is kept so it can be undone.
+export function useAppointmentReschedule() {
+  const queryClient = useQueryClient();
+  const { rules, canOverbook } = useSchedulingRules();
+  const [lastMove, setLastMove] = useState<AppointmentMove | null>(null);
+
+  const applyToCache = (id: string, schedule: AppointmentSchedule) =>
+    patchRangeAppointment(queryClient, id, schedule);
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      appointment,
+      next,
+      acknowledgeWarnings,
+    }: MoveVariables) => {
+      const [check] = await checkOccurrences(
+        [{ ...next, patientId: appointment.patientId, appointment }],
+        { rules, canOverbook }
+      );
+
+      if (check.conflicts.length > 0 && (!check.free || !acknowledgeWarnings)) {
+        throw new ScheduleConflictError(check.conflicts);
+      }
+
+      return appointmentsApi.update(appointment.id, {
+        doctor: next.doctorId,
+        date: next.date,
+        time: next.time,
+        duration: next.duration,
+      });
+    },
+    onMutate: ({ appointment, next }) => {
+      applyToCache(appointment.id, next);
+    },
+    onSuccess: (response, { appointment, previous, next, isUndo }) => {
+      setLastMove(
+        isUndo
+          ? null
+          : { appointment: { ...appointment, ...next }, previous, next }
+      );
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+
+      if (response.queued) {
+        Alert.alert(
+          'Saved Offline',
+          'The new time will sync when you reconnect.'
+        );
+      }
+    },
+    onError: (error: any, variables) => {
+      applyToCache(variables.appointment.id, variables.previous);
+
+      if (error instanceof ScheduleConflictError) {
+        if (error.blocking) {
+          Alert.alert('Cannot Move Appointment', error.message);
+          return;
+        }
+
+        Alert.alert('Scheduling Warnings', error.message, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Move Anyway',
+            onPress: () =>
+              mutation.mutate({ ...variables, acknowledgeWarnings: true }),
+          },
+        ]);
+        return;
+      }
+
+      if (error instanceof ConflictError) {
+        Alert.alert('Time Unavailable', error.message);
+        return;
+      }
+
+      if (error instanceof NetworkError) {
+        Alert.alert(
+          'Offline',
+          'Connect to the internet to confirm the new time is free.'
+        );
+        return;
+      }
+
+      Alert.alert('Error', error.message || 'Failed to move appointment');
+    },
+  });
+
+  const reschedule = (
+    appointment: Appointment,
+    changes: Partial<AppointmentSchedule>
+  ) => {
+    const previous = scheduleOf(appointment);
+    const next = { ...previous, ...changes };
+
+    if (
+      next.doctorId === previous.doctorId &&
+      next.date === previous.date &&
+      next.time === previous.time &&
+      next.duration === previous.duration
+    ) {
+      return;
+    }
+
+    mutation.mutate({ appointment, previous, next });
+  };
+
+  // Undo is itself a move back, so it goes through the same availability check
+  const undo = () => {
+    if (!lastMove) {
+      return;
+    }
+
+    mutation.mutate({
+      appointment: lastMove.appointment,
+      previous: lastMove.next,
+      next: lastMove.previous,
+      isUndo: true,
+    });
+  };
+
+  const dismissUndo = useCallback(() => setLastMove(null), []);
+
+  return {
+    reschedule,
+    undo,
+    lastMove,
+    dismissUndo,
+    isPending: mutation.isPending,
+  };
+}
@@ -0,0 +1,318 @@
+import { Alert } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { appointmentsApi, NetworkError } from '@/utils/api';
+import { OccurrenceCheck, checkOccurrences } from '@/utils/availability';
+import {
+  MAX_OCCURRENCES,
+  SeriesEditScope,
+  createSeriesId,
+  daysBetween,
+  selectSeriesScope,
+  shiftDateKey,
+  splitRecurrence,
+} from '@/utils/recurrence';
+import { toDateKey } from '@/utils/scheduling';
+import { isAwaited } from '@/utils/waiting-room';
+import { AppointmentSchedule } from '@/hooks/useAppointmentReschedule';
+import { useSchedulingRules } from '@/hooks/useSchedulingRules';
+import { Appointment, RecurrenceRule } from '@/types';
+
+type SeriesScope = Exclude<SeriesEditScope, 'this'>;
+
+// "This and following" ends the original series the day before the chosen
+// occurrence. Occurrences before it keep the shortened rule.
+interface SeriesSplit {
+  earlier: Appointment[];
+  rules?: { before: RecurrenceRule; after: RecurrenceRule };
+}
+
+interface SeriesEdit {
+  checks: OccurrenceCheck[];
+  // Edited occurrences move to a new series with the rest of the rule
+  split?: SeriesSplit & { seriesId: string };
+}
+
+interface SeriesCancel {
+  appointments: Appointment[];
+  split?: SeriesSplit;
+}
+
+const formatDates = (checks: OccurrenceCheck[]) =>
+  checks
+    .map(({ date }) =>
+      new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+      })
+    )
+    .join(', ');
+
+// The occurrences a scope covers, and how the series splits for "this and
+// following". Splitting at the first occurrence leaves nothing to split.
+async function loadSeriesScope(appointment: Appointment, scope: SeriesScope) {
+  const response = await appointmentsApi.getAll({
+    seriesId: appointment.seriesId!,
+    limit: String(MAX_OCCURRENCES),
+  });
+  const series = (response.data ?? []).filter(
+    ({ seriesId }) => seriesId === appointment.seriesId
+  );
+  const occurrences = series.length > 0 ? series : [appointment];
+  const selected = selectSeriesScope(occurrences, appointment, scope);
+  const splitDate = appointment.date.split('T')[0];
+  const earlier = occurrences.filter(
+    ({ date }) => date.split('T')[0] < splitDate
+  );
+
+  const split: SeriesSplit | undefined =
+    scope === 'following' && earlier.length > 0
+      ? {
+          earlier,
+          rules:
+            appointment.recurrence &&
+            splitRecurrence(appointment.recurrence, splitDate, selected.length),
+        }
+      : undefined;
+
+  return { selected, split };
+}
+
+// Ends the earlier half of a split series at the day before the split
+async function shortenEarlierHalf(split?: SeriesSplit) {
+  let queued = false;
+
+  if (split?.rules) {
+    for (const appointment of split.earlier) {
+      const response = await appointmentsApi.update(appointment.id, {
+        recurrence: split.rules.before,
+      });
+      queued = queued || !!response.queued;
+    }
+  }
+
+  return queued;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+
+// Applies a change or a cancellation to several occurrences of a series.
+// Every moved occurrence is checked first and the ones that no longer fit
+// are listed before saving.
+export function useAppointmentSeries() {
+  const queryClient = useQueryClient();
+  const { rules, canOverbook } = useSchedulingRules();
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['appointments'] });
+    queryClient.invalidateQueries({ queryKey: ['availability'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+  };
+
+  const mutation = useMutation({
+    mutationFn: async ({ checks, split }: SeriesEdit) => {
+      let queued = false;
+
+      // Occurrences that can't move still join the new series when it splits
+      for (const check of checks.filter(({ free }) => free || split)) {
+        const response = await appointmentsApi.update(check.appointment!.id, {
+          ...(check.free && {
+            doctor: check.doctorId,
+            date: check.date,
+            time: check.time,
+            duration: check.duration,
+          }),
+          ...(split && {
+            seriesId: split.seriesId,
+            ...(split.rules && { recurrence: split.rules.after }),
+          }),
+        });
+        queued = queued || !!response.queued;
+      }
+
+      return (await shortenEarlierHalf(split)) || queued;
+    },
+    onSuccess: (queued) => {
+      onSettled();
+      Alert.alert(
+        'Success',
+        queued
+          ? 'Saved offline. The series will sync when you reconnect.'
+          : 'Series updated successfully'
+      );
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      Alert.alert('Error', error.message || 'Failed to update series');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ appointments, split }: SeriesCancel) => {
+      let queued = false;
+
+      // The cancelled occurrences stay in the series, which now ends before
+      // them
+      for (const appointment of appointments) {
+        const response = await appointmentsApi.update(appointment.id, {
+          status: 'cancelled',
+          ...(split?.rules && { recurrence: split.rules.before }),
+        });
+        queued = queued || !!response.queued;
+      }
+
+      return (await shortenEarlierHalf(split)) || queued;
+    },
+    onSuccess: (queued) => {
+      onSettled();
+      Alert.alert(
+        'Success',
+        queued
+          ? 'Saved offline. The cancellations will sync when you reconnect.'
+          : 'Appointments cancelled'
+      );
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      Alert.alert('Error', error.message || 'Failed to cancel appointments');
+    },
+  });
+
+  const showLoadError = (error: any) => {
+    console.error('Error loading series:', error);
+    Alert.alert(
+      error instanceof NetworkError ? 'Offline' : 'Error',
+      error instanceof NetworkError
+        ? 'Connect to the internet to check the series against availability.'
+        : error.message || 'Failed to check availability'
+    );
+  };
+
+  const editSeries = async (
+    appointment: Appointment,
+    changes: Partial<AppointmentSchedule>,
+    scope: SeriesScope
+  ) => {
+    let checks: OccurrenceCheck[];
+    let split: SeriesSplit | undefined;
+
+    try {
+      const scoped = await loadSeriesScope(appointment, scope);
+      split = scoped.split;
+      const dayShift = changes.date
+        ? daysBetween(appointment.date, changes.date)
+        : 0;
+
+      checks = await checkOccurrences(
+        scoped.selected.map((occurrence) => ({
+          appointment: occurrence,
+          patientId: occurrence.patientId,
+          doctorId: changes.doctorId ?? occurrence.doctorId,
+          date: shiftDateKey(occurrence.date, dayShift),
+          time: changes.time ?? occurrence.time,
+          duration: changes.duration ?? occurrence.duration,
+        })),
+        {
+          rules,
+          canOverbook,
+          excludeIds: scoped.selected.map(({ id }) => id),
+        }
+      );
+    } catch (error: any) {
+      showLoadError(error);
+      return;
+    }
+
+    const edit: SeriesEdit = {
+      checks,
+      split: split && { ...split, seriesId: createSeriesId() },
+    };
+    const skipped = checks.filter(({ free }) => !free);
+    const warned = checks.filter(
+      ({ free, conflicts }) => free && conflicts.length > 0
+    );
+
+    if (skipped.length === checks.length) {
+      Alert.alert(
+        'No Occurrences Can Move',
+        'None of the selected occurrences are free at the new time.'
+      );
+      return;
+    }
+
+    if (skipped.length === 0 && warned.length === 0) {
+      mutation.mutate(edit);
+      return;
+    }
+
+    Alert.alert(
+      skipped.length > 0 ? 'Some Dates Unavailable' : 'Scheduling Warnings',
+      [
+        skipped.length > 0 &&
+          `These occurrences will be left unchanged: ${formatDates(skipped)}`,
+        warned.length > 0 &&
+          `These occurrences have scheduling warnings: ${formatDates(warned)}`,
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', onPress: () => mutation.mutate(edit) },
+      ]
+    );
+  };
+
+  // Only occurrences still to come are cancelled; past visits keep their
+  // outcome
+  const cancelSeries = async (appointment: Appointment, scope: SeriesScope) => {
+    let cancel: SeriesCancel;
+
+    try {
+      const { selected, split } = await loadSeriesScope(appointment, scope);
+      const today = toDateKey(new Date());
+      cancel = {
+        appointments: selected.filter(
+          (occurrence) =>
+            isAwaited(occurrence) && occurrence.date.split('T')[0] >= today
+        ),
+        split,
+      };
+    } catch (error: any) {
+      showLoadError(error);
+      return;
+    }
+
+    const count = cancel.appointments.length;
+    if (count === 0) {
+      Alert.alert(
+        'Nothing to Cancel',
+        'None of these appointments are still to come.'
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Cancel Appointments',
+      `Cancel ${count} ${count === 1 ? 'appointment' : 'appointments'} for ${
+        appointment.patientName
+      } from ${formatDay(cancel.appointments[0].date)}? Their slots will be freed.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Appointments',
+          style: 'destructive',
+          onPress: () => cancelMutation.mutate(cancel),
+        },
+      ]
+    );
+  };
+
+  return {
+    editSeries,
+    cancelSeries,
+    isPending: mutation.isPending || cancelMutation.isPending,
+  };
+}
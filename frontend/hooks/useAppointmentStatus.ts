@@ -0,0 +1,127 @@
+import { Alert } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { appointmentsApi, ConflictError } from '@/utils/api';
+import { VISIT_STATUS_LABELS, VisitStatus } from '@/utils/waiting-room';
+import { patchRangeAppointment } from '@/hooks/useAppointmentsInRange';
+import { Appointment } from '@/types';
+
+interface StatusVariables {
+  appointment: Appointment;
+  status: VisitStatus;
+  // Status plus its timestamp, shared by the cache and the request
+  changes: Partial<Appointment>;
+}
+
+// Arrival and start times are stamped here so wait times survive a refresh
+const timestampsFor = (status: VisitStatus): Partial<Appointment> => {
+  const now = new Date().toISOString();
+  switch (status) {
+    case 'checked-in':
+      return { checkedInAt: now };
+    case 'in-progress':
+      return { startedAt: now };
+    default:
+      return {};
+  }
+};
+
+// Moves an appointment through the visit: check-in, start, complete,
+// no-show or cancellation. The waiting room updates straight away and rolls back on failure.
+export function useAppointmentStatus() {
+  const queryClient = useQueryClient();
+
+  const applyToCache = (id: string, changes: Partial<Appointment>) =>
+    patchRangeAppointment(queryClient, id, changes);
+
+  const mutation = useMutation({
+    mutationFn: ({ appointment, changes }: StatusVariables) =>
+      appointmentsApi.update(appointment.id, changes),
+    onMutate: ({ appointment, changes }) => {
+      applyToCache(appointment.id, changes);
+    },
+    onSuccess: (response, { appointment, status }) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+
+      if (response.queued) {
+        Alert.alert(
+          'Saved Offline',
+          `${appointment.patientName} will show as ${VISIT_STATUS_LABELS[status].toLowerCase()} once you reconnect.`
+        );
+      }
+    },
+    onError: (error: any, { appointment }) => {
+      applyToCache(appointment.id, {
+        status: appointment.status,
+        checkedInAt: appointment.checkedInAt,
+        startedAt: appointment.startedAt,
+      });
+
+      if (error instanceof ConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['appointments'] });
+        Alert.alert('Appointment Changed', error.message);
+        return;
+      }
+
+      Alert.alert('Error', error.message || 'Failed to update appointment');
+    },
+  });
+
+  // onUpdated only runs once the server has the change, not for queued writes
+  const updateStatus = (
+    appointment: Appointment,
+    status: VisitStatus,
+    onUpdated?: () => void
+  ) =>
+    mutation.mutate(
+      {
+        appointment,
+        status,
+        changes: { status, ...timestampsFor(status) },
+      },
+      { onSuccess: (response) => !response.queued && onUpdated?.() }
+    );
+
+  const markNoShow = (appointment: Appointment) =>
+    Alert.alert(
+      'Mark as No-show',
+      `${appointment.patientName} did not arrive for ${appointment.time}? Their slot will be freed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'No-show',
+          style: 'destructive',
+          onPress: () => updateStatus(appointment, 'no-show'),
+        },
+      ]
+    );
+
+  // Cancelling frees the slot, so callers can offer it on from onCancelled
+  const cancel = (appointment: Appointment, onCancelled?: () => void) =>
+    Alert.alert(
+      'Cancel Appointment',
+      `Cancel ${appointment.patientName}'s appointment at ${appointment.time}? Their slot will be freed.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Appointment',
+          style: 'destructive',
+          onPress: () => updateStatus(appointment, 'cancelled', onCancelled),
+        },
+      ]
+    );
+
+  return {
+    checkIn: (appointment: Appointment) =>
+      updateStatus(appointment, 'checked-in'),
+    updateStatus,
+    markNoShow,
+    cancel,
+    isPending: mutation.isPending,
+    // The appointment being updated, so only its button shows a spinner
+    pendingId: mutation.isPending
+      ? mutation.variables?.appointment.id
+      : undefined,
+  };
+}
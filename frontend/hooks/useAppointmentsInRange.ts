@@ -0,0 +1,40 @@
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { ListResult, fetchAllPages } from '@/utils/api';
+import { Appointment } from '@/types';
+
+export const fetchAllAppointments = (params: Record<string, string>) =>
+  fetchAllPages<Appointment>('/appointments', params);
+
+// Updates one appointment in every loaded range, ahead of the server
+export const patchRangeAppointment = (
+  queryClient: QueryClient,
+  id: string,
+  changes: Partial<Appointment>
+) =>
+  queryClient.setQueriesData<ListResult<Appointment>>(
+    { queryKey: ['appointments', 'range'] },
+    (range) =>
+      range && {
+        ...range,
+        items: range.items.map((appointment) =>
+          appointment.id === id ? { ...appointment, ...changes } : appointment
+        ),
+      }
+  );
+
+// Calendar views need every appointment in the visible range at once, so
+// this walks the server's pages instead of scrolling through them. Live
+// boards pass a refetch interval to keep polling. `partial` on the result
+// says the range held more than could be loaded.
+export function useAppointmentsInRange(
+  params: Record<string, string>,
+  enabled = true,
+  refetchInterval?: number
+) {
+  return useQuery({
+    queryKey: ['appointments', 'range', params],
+    queryFn: () => fetchAllAppointments(params),
+    enabled,
+    refetchInterval,
+  });
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  BUNDLED_INTERACTION_DATASET,
+  InteractionData,
+  InteractionDataset,
+} from '@/utils/interactions';
+
+// Resolves straight to the bundled dataset so checks never wait on storage
+export function useInteractionDataset(): InteractionDataset {
+  const { data } = useQuery({
+    queryKey: ['interaction-dataset'],
+    queryFn: InteractionData.load,
+    staleTime: Infinity,
+    networkMode: 'always',
+  });
+
+  return data ?? BUNDLED_INTERACTION_DATASET;
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Alert } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ConflictError, patientsApi, WritePrecondition } from '@/utils/api';
+import {
+  ConflictChoice,
+  getPatientConflicts,
+  mergePatientConflicts,
+} from '@/utils/conflicts';
+import { Patient } from '@/types';
+
+export interface PatientConflict {
+  patientId: string;
+  // The version the edit started from
+  base: Patient;
+  local: Partial<Patient>;
+  server: Patient;
+  precondition: WritePrecondition;
+}
+
+interface UpdateVariables {
+  id: string;
+  base: Patient;
+  changes: Partial<Patient>;
+  precondition: WritePrecondition;
+}
+
+// Conditional patient updates. A lost race is merged against the version
+// the edit started from: the other editor's changes are kept automatically,
+// and only fields both changed surface as `conflict` for the user to decide.
+export function usePatientUpdate(options?: {
+  onSuccess?: (queued: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [conflict, setConflict] = useState<PatientConflict | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: ({ id, base, changes, precondition }: UpdateVariables) =>
+      patientsApi.update(id, changes, precondition, base),
+    onSuccess: (response, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient', id] });
+      setConflict(null);
+      options?.onSuccess?.(!!response.queued);
+    },
+    onError: async (error: any, { id, base, changes }) => {
+      if (
+        error instanceof ConflictError &&
+        (await mergeWithServer(id, base, changes, error.serverData))
+      ) {
+        return;
+      }
+
+      Alert.alert('Error', error.message || 'Failed to update patient');
+    },
+  });
+
+  // Saves the merge straight away when only one side changed each field,
+  // otherwise raises `conflict`. False when there's no server version.
+  async function mergeWithServer(
+    id: string,
+    base: Patient,
+    changes: Partial<Patient>,
+    fallback?: Patient
+  ): Promise<boolean> {
+    try {
+      const response = await patientsApi.getById(id);
+      const server = response.data ?? fallback;
+
+      if (!server) {
+        return false;
+      }
+
+      const precondition = {
+        etag: response.etag,
+        updatedAt: server.updatedAt,
+      };
+
+      if (getPatientConflicts(base, changes, server).length === 0) {
+        mutation.mutate({
+          id,
+          base: server,
+          changes: mergePatientConflicts(base, changes, server, {}),
+          precondition,
+        });
+      } else {
+        setConflict({
+          patientId: id,
+          base,
+          local: changes,
+          server,
+          precondition,
+        });
+      }
+      return true;
+    } catch (fetchError) {
+      console.error('Error loading server version:', fetchError);
+      return false;
+    }
+  }
+
+  // `base` is the patient as loaded when the edit started
+  const updatePatient = (base: Patient, changes: Partial<Patient>) =>
+    mutation.mutate({
+      id: base.id,
+      base,
+      changes,
+      precondition: { updatedAt: base.updatedAt },
+    });
+
+  // Picks up an offline edit that lost to a newer version when it replayed
+  const reviewQueuedUpdate = (
+    id: string,
+    base: Patient,
+    changes: Partial<Patient>
+  ) => mergeWithServer(id, base, changes);
+
+  const resolveConflict = (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) {
+      return;
+    }
+
+    mutation.mutate({
+      id: conflict.patientId,
+      base: conflict.server,
+      changes: mergePatientConflicts(
+        conflict.base,
+        conflict.local,
+        conflict.server,
+        choices
+      ),
+      precondition: conflict.precondition,
+    });
+  };
+
+  return {
+    updatePatient,
+    reviewQueuedUpdate,
+    isUpdating: mutation.isPending,
+    conflict,
+    resolveConflict,
+    dismissConflict: () => setConflict(null),
+  };
+}
@@ -0,0 +1,7 @@
+import { useAuth } from '@/providers/AuthProvider';
+import { hasPermission, Permission } from '@/utils/permissions';
+
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
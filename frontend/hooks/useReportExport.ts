@@ -0,0 +1,187 @@
+import { Alert } from 'react-native';
+import { useMutation } from '@tanstack/react-query';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/providers/AuthProvider';
+import { usePermission } from '@/hooks/usePermission';
+import { MAX_LIST_ITEMS, NetworkError, reportsApi } from '@/utils/api';
+import { ExportFile, shareFile } from '@/utils/files';
+import { ReportRange } from '@/utils/reports';
+import {
+  CSV_MIME_TYPE,
+  CSV_UTI,
+  ExportFormat,
+  ReportExportData,
+  ReportTable,
+  SPREADSHEET_MIME_TYPE,
+  SPREADSHEET_UTI,
+  buildCsv,
+  buildSpreadsheet,
+  conditionsTable,
+  demographicsTable,
+  patientSummaryTable,
+  reportFilename,
+  summaryTable,
+  trendsTable,
+} from '@/utils/report-export';
+import {
+  HTML_MIME_TYPE,
+  HTML_UTI,
+  PrintSection,
+  buildPrintableReport,
+  conditionsSection,
+  demographicsSection,
+  trendsSection,
+} from '@/utils/report-print';
+import { ReportData } from '@/types';
+
+export type ReportExportKind =
+  'analytics' | 'patients' | 'demographics' | 'trends' | 'conditions';
+
+export const REPORT_EXPORT_TITLES: Record<ReportExportKind, string> = {
+  analytics: 'Analytics Report',
+  patients: 'Patient Summary',
+  demographics: 'Patient Demographics',
+  trends: 'Appointment Trends',
+  conditions: 'Most Common Conditions',
+};
+
+interface ReportExportOptions {
+  range: ReportRange;
+  compareRange: ReportRange | null;
+  compareLabel: string;
+  report?: ReportData;
+  previous?: ReportData;
+}
+
+interface ExportVariables {
+  kind: ReportExportKind;
+  format: ExportFormat;
+}
+
+// Builds the chosen report as a file and hands it to the share sheet, or to
+// the browser as a download on web
+export function useReportExport({
+  range,
+  compareRange,
+  compareLabel,
+  report,
+  previous,
+}: ReportExportOptions) {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const canViewRevenue = usePermission('reports:revenue');
+
+  const mutation = useMutation({
+    mutationFn: async ({ kind, format }: ExportVariables) => {
+      // The patient summary is fetched on its own; everything else is built
+      // from the report on screen
+      if (!report && kind !== 'patients') {
+        throw new Error('The report is still loading. Try again in a moment.');
+      }
+
+      const data: ReportExportData = {
+        report: report!,
+        previous,
+        compareLabel,
+        canViewRevenue,
+      };
+      const summary =
+        kind === 'patients'
+          ? await reportsApi.getPatientSummary(range)
+          : { items: [], partial: false };
+
+      const tables: ReportTable[] = {
+        analytics: () => [
+          summaryTable(data),
+          trendsTable(data),
+          demographicsTable(data),
+          conditionsTable(data),
+        ],
+        patients: () => [patientSummaryTable(summary.items)],
+        demographics: () => [demographicsTable(data)],
+        trends: () => [trendsTable(data)],
+        conditions: () => [conditionsTable(data)],
+      }[kind]();
+
+      const title = REPORT_EXPORT_TITLES[kind];
+      let file: ExportFile;
+
+      switch (format) {
+        case 'csv':
+          file = {
+            filename: reportFilename(title, range, 'csv'),
+            contents: buildCsv(tables),
+            mimeType: CSV_MIME_TYPE,
+            uti: CSV_UTI,
+          };
+          break;
+        case 'spreadsheet':
+          file = {
+            filename: reportFilename(title, range, 'xls'),
+            contents: buildSpreadsheet(tables),
+            mimeType: SPREADSHEET_MIME_TYPE,
+            uti: SPREADSHEET_UTI,
+          };
+          break;
+        case 'print': {
+          const sections: PrintSection[] = {
+            analytics: () => [
+              { title: 'Summary', table: tables[0] },
+              trendsSection(data, theme),
+              demographicsSection(data, theme),
+              conditionsSection(data, theme),
+            ],
+            patients: () => [{ title: 'Patients Seen', table: tables[0] }],
+            demographics: () => [demographicsSection(data, theme)],
+            trends: () => [trendsSection(data, theme)],
+            conditions: () => [conditionsSection(data, theme)],
+          }[kind]();
+
+          file = {
+            filename: reportFilename(title, range, 'html'),
+            contents: buildPrintableReport({
+              title,
+              range,
+              compareRange: previous ? compareRange : null,
+              preparedBy: user
+                ? `${user.firstName} ${user.lastName}`
+                : undefined,
+              sections,
+            }),
+            mimeType: HTML_MIME_TYPE,
+            uti: HTML_UTI,
+          };
+          break;
+        }
+      }
+
+      await shareFile(file);
+      // Whether the export was built from lists cut short at the page limit
+      return kind === 'patients' ? summary.partial : !!report?.partial;
+    },
+    onSuccess: (partial) => {
+      if (partial) {
+        Alert.alert(
+          'Export Incomplete',
+          `Only the first ${MAX_LIST_ITEMS.toLocaleString()} records could be loaded, so the exported figures may be too low.`
+        );
+      }
+    },
+    onError: (error: any) => {
+      console.error('Error exporting report:', error);
+      Alert.alert(
+        error instanceof NetworkError ? 'Offline' : 'Error',
+        error instanceof NetworkError
+          ? 'Connect to the internet to export this report.'
+          : error.message || 'Failed to export report'
+      );
+    },
+  });
+
+  return {
+    exportReport: (kind: ReportExportKind, format: ExportFormat) =>
+      mutation.mutate({ kind, format }),
+    isExporting: mutation.isPending,
+    exportingKind: mutation.isPending ? mutation.variables?.kind : undefined,
+  };
+}
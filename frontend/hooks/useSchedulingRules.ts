@@ -0,0 +1,44 @@
+import { Alert } from 'react-native';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { usePermission } from '@/hooks/usePermission';
+import { NetworkError, settingsApi } from '@/utils/api';
+import {
+  DEFAULT_SCHEDULING_RULES,
+  SchedulingRules,
+} from '@/utils/schedule-conflicts';
+
+// The clinic's scheduling rules plus whether the current user may book
+// through overridable conflicts
+export function useSchedulingRules() {
+  const queryClient = useQueryClient();
+  const canOverbook = usePermission('appointments:overbook');
+
+  const { data: rules = DEFAULT_SCHEDULING_RULES } = useQuery({
+    queryKey: ['scheduling-rules'],
+    queryFn: settingsApi.getSchedulingRules,
+  });
+
+  // Shown straight away and put back if the server turns the change down
+  const updateRules = async (changes: Partial<SchedulingRules>) => {
+    const next = { ...rules, ...changes };
+    queryClient.setQueryData(['scheduling-rules'], next);
+    try {
+      const response = await settingsApi.updateSchedulingRules(next);
+      queryClient.setQueryData(['scheduling-rules'], {
+        ...next,
+        ...response.data,
+      });
+    } catch (error: any) {
+      console.error('Error saving scheduling rules:', error);
+      queryClient.setQueryData(['scheduling-rules'], rules);
+      Alert.alert(
+        error instanceof NetworkError ? 'Offline' : 'Error',
+        error instanceof NetworkError
+          ? "Connect to the internet to change the clinic's scheduling rules."
+          : error.message || 'Failed to save scheduling rules'
+      );
+    }
+  };
+
+  return { rules, canOverbook, updateRules };
+}
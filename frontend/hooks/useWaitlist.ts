@@ -0,0 +1,78 @@
+import { Alert } from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { waitlistApi } from '@/utils/api';
+import { WaitlistEntry } from '@/types';
+
+// The clinic's waitlist plus adding and removing patients from it
+export function useWaitlist(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['waitlist'],
+    queryFn: async () => {
+      const response = await waitlistApi.getAll();
+      return response.data ?? [];
+    },
+    enabled,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: (entry: Omit<WaitlistEntry, 'id' | 'createdAt'>) =>
+      waitlistApi.create(entry),
+    onSuccess: (response, entry) => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      Alert.alert(
+        'Added to Waitlist',
+        response.queued
+          ? `${entry.patientName} will be added once you reconnect.`
+          : `${entry.patientName} will be offered matching cancellations.`
+      );
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.message || 'Failed to add to the waitlist');
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (entry: WaitlistEntry) => waitlistApi.delete(entry.id),
+    onMutate: (entry) => {
+      queryClient.setQueryData<WaitlistEntry[]>(['waitlist'], (entries) =>
+        entries?.filter(({ id }) => id !== entry.id)
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.message || 'Failed to update the waitlist');
+    },
+  });
+
+  const removeEntry = (entry: WaitlistEntry) =>
+    Alert.alert(
+      'Remove from Waitlist',
+      `Stop offering cancellations to ${entry.patientName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => removeMutation.mutate(entry),
+        },
+      ]
+    );
+
+  return {
+    entries: query.data ?? [],
+    isLoading: query.isLoading,
+    isRefetching: query.isRefetching,
+    error: query.error,
+    refetch: query.refetch,
+    addEntry: (
+      entry: Omit<WaitlistEntry, 'id' | 'createdAt'>,
+      onAdded?: () => void
+    ) => addMutation.mutate(entry, { onSuccess: onAdded }),
+    isAdding: addMutation.isPending,
+    removeEntry,
+  };
+}
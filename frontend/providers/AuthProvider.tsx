@@ -1,13 +1,34 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
 import { SecureStorage } from '@/utils/secure-storage';
-import { authApi } from '@/utils/api';
+import { Outbox } from '@/utils/outbox';
+import { Drafts } from '@/utils/drafts';
+import { LockStateStorage } from '@/utils/pin';
+import { apiClient, authApi, NetworkError } from '@/utils/api';
+import { getTokenExpiry } from '@/utils/jwt';
 import { User, AuthState } from '@/types';
 
+// Silently refresh this long before the token expires
+const SESSION_REFRESH_LEAD_MS = 1000 * 60 * 5; // 5 minutes
+// setTimeout overflows past this and fires immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<boolean>;
   register: (userData: any) => Promise<boolean>;
-  logout: () => Promise<void>;
+  // Queued writes and drafts are kept for the user's next sign-in unless
+  // discardPending is set, which callers confirm with the user first
+  logout: (options?: { discardPending?: boolean }) => Promise<void>;
+  extendSession: () => Promise<boolean>;
   loading: boolean;
+  expiresAt: number | null;
+  sessionExpiring: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -19,11 +40,87 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isAuthenticated: false,
   });
   const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const [sessionExpiring, setSessionExpiring] = useState(false);
+
+  const expiresAt = useMemo(
+    () => (authState.token ? getTokenExpiry(authState.token) : null),
+    [authState.token]
+  );
 
   useEffect(() => {
+    apiClient.setAuthHandlers({
+      onTokenRefreshed: (token) =>
+        setAuthState((prev) => ({ ...prev, token })),
+      // Refresh failed, the session cannot be recovered
+      onAuthFailure: () => {
+        clearAuth();
+      },
+    });
+
     loadStoredAuth();
+
+    return () => apiClient.setAuthHandlers({});
   }, []);
 
+  // Queued writes and drafts follow whoever is signed in
+  useEffect(() => {
+    const userId = authState.user?.id ?? null;
+    Outbox.setUser(userId);
+    Drafts.setUser(userId);
+  }, [authState.user?.id]);
+
+  useEffect(() => {
+    setSessionExpiring(false);
+
+    if (
+      !authState.isAuthenticated ||
+      !expiresAt ||
+      expiresAt - Date.now() > MAX_TIMER_DELAY_MS
+    ) {
+      return;
+    }
+
+    const refreshTimer = setTimeout(async () => {
+      const token = await refreshSession();
+      if (!token) {
+        // Silent refresh failed, let the user extend manually
+        setSessionExpiring(true);
+      }
+    }, Math.max(expiresAt - Date.now() - SESSION_REFRESH_LEAD_MS, 0));
+
+    // Offline, the stored session keeps the cached data usable. Signing out
+    // waits until a refresh can be tried again after reconnecting.
+    const expiryTimer = setTimeout(() => {
+      if (onlineManager.isOnline()) {
+        clearAuth();
+      }
+    }, Math.max(expiresAt - Date.now(), 0));
+
+    const unsubscribeOnline = onlineManager.subscribe(async (online) => {
+      if (!online || expiresAt > Date.now()) {
+        return;
+      }
+
+      try {
+        if (!(await apiClient.refreshAccessToken())) {
+          await clearAuth();
+        }
+      } catch (error) {
+        if (!(error instanceof NetworkError)) {
+          console.error('Session refresh error:', error);
+          await clearAuth();
+        }
+      }
+    });
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearTimeout(expiryTimer);
+      unsubscribeOnline();
+    };
+  }, [authState.isAuthenticated, expiresAt]);
+
   const loadStoredAuth = async () => {
     try {
       const token = await SecureStorage.getItemAsync('auth_token');
@@ -46,8 +143,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             await clearAuth();
           }
         } catch (error) {
-          // Token is invalid, clear storage
-          await clearAuth();
+          if (error instanceof NetworkError) {
+            // Offline launch, keep the stored session so cached data is usable
+            setAuthState({
+              user,
+              token,
+              isAuthenticated: true,
+            });
+          } else {
+            // Token is invalid, clear storage
+            await clearAuth();
+          }
         }
       }
     } catch (error) {
@@ -58,6 +164,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Offline or a server error leaves the session as it is
+  const refreshSession = async () => {
+    try {
+      return await apiClient.refreshAccessToken();
+    } catch (error) {
+      console.error('Session refresh error:', error);
+      return null;
+    }
+  };
+
+  // Ends the session only. Queued writes and drafts stay with the user, so
+  // an expired token never throws away work done offline.
   const clearAuth = async () => {
     try {
       await SecureStorage.deleteItemAsync('auth_token');
@@ -65,6 +183,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error('Error clearing auth:', error);
     }
+
+    queryClient.clear();
     
     setAuthState({
       user: null,
@@ -82,6 +202,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         
         await SecureStorage.setItemAsync('auth_token', token);
         await SecureStorage.setItemAsync('user_data', JSON.stringify(user));
+        // Signing in with the password lifts a PIN lock left behind
+        await LockStateStorage.clear(user.id);
         
         setAuthState({
           user,
@@ -125,13 +247,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const logout = async () => {
+  const extendSession = async (): Promise<boolean> => {
+    const token = await refreshSession();
+    return token !== null;
+  };
+
+  const logout = async ({ discardPending = false } = {}) => {
     try {
       // Call logout endpoint
       await authApi.logout();
     } catch (error) {
       console.error('Logout API error:', error);
     } finally {
+      if (discardPending) {
+        await Outbox.clear();
+        await Drafts.clearAll();
+      }
       await clearAuth();
     }
   };
@@ -142,7 +273,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       login,
       register,
       logout,
+      extendSession,
       loading,
+      expiresAt,
+      sessionExpiring,
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,255 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { AppState, Keyboard, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@/providers/AuthProvider';
+import { LockState, LockStateStorage, PinStorage } from '@/utils/pin';
+
+export const IDLE_TIMEOUT_OPTIONS = [0, 1, 5, 10, 15, 30]; // minutes, 0 = off
+export const MAX_PIN_ATTEMPTS = 5;
+
+const IDLE_TIMEOUT_STORAGE_KEY = '@idle_timeout_minutes';
+const DEFAULT_IDLE_TIMEOUT = 5;
+const IDLE_CHECK_INTERVAL_MS = 1000 * 10;
+
+interface InactivityLockContextType {
+  locked: boolean;
+  hasPin: boolean;
+  idleTimeout: number;
+  failedAttempts: number;
+  setIdleTimeout: (minutes: number) => Promise<void>;
+  setPin: (pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  unlock: (pin: string) => Promise<boolean>;
+  registerActivity: () => void;
+}
+
+const InactivityLockContext = createContext<InactivityLockContextType | null>(
+  null
+);
+
+export function InactivityLockProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { user, isAuthenticated, logout } = useAuth();
+  const [locked, setLocked] = useState(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [idleTimeout, setIdleTimeoutState] = useState(DEFAULT_IDLE_TIMEOUT);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const lastActivityRef = useRef(Date.now());
+
+  useEffect(() => {
+    loadIdleTimeout();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLocked(false);
+    setFailedAttempts(0);
+    lastActivityRef.current = Date.now();
+
+    if (user) {
+      PinStorage.hasPin(user.id).then(
+        (pinSet) => !cancelled && setHasPin(pinSet)
+      );
+      LockStateStorage.get(user.id).then((state) => {
+        if (!cancelled) {
+          setLocked(state.locked);
+          setFailedAttempts(state.failedAttempts);
+        }
+      });
+    } else {
+      setHasPin(false);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // Kept in secure storage too, so killing the app doesn't get past the lock
+  const updateLockState = async (state: LockState) => {
+    setLocked(state.locked);
+    setFailedAttempts(state.failedAttempts);
+
+    if (!user) {
+      return;
+    }
+
+    try {
+      await LockStateStorage.set(user.id, state);
+    } catch (error) {
+      console.error('Error saving lock state:', error);
+    }
+  };
+
+  const idleEnabled = isAuthenticated && idleTimeout > 0;
+
+  // Without a PIN there is nothing to unlock with, so idling signs out
+  const checkIdle = useCallback(() => {
+    if (
+      idleEnabled &&
+      !locked &&
+      Date.now() - lastActivityRef.current >= idleTimeout * 60 * 1000
+    ) {
+      if (hasPin) {
+        updateLockState({ locked: true, failedAttempts });
+      } else {
+        lastActivityRef.current = Date.now();
+        logout();
+      }
+    }
+  }, [idleEnabled, locked, hasPin, idleTimeout, failedAttempts]);
+
+  useEffect(() => {
+    if (!idleEnabled) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      // Keystrokes on the soft keyboard can't be observed, so an open
+      // keyboard in the foreground means someone is typing
+      if (Keyboard.isVisible()) {
+        lastActivityRef.current = Date.now();
+      } else {
+        checkIdle();
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+    // Timers are paused in the background, so re-check on resume
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        checkIdle();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [idleEnabled, checkIdle]);
+
+  const loadIdleTimeout = async () => {
+    try {
+      const saved = await AsyncStorage.getItem(IDLE_TIMEOUT_STORAGE_KEY);
+      if (saved !== null && IDLE_TIMEOUT_OPTIONS.includes(Number(saved))) {
+        setIdleTimeoutState(Number(saved));
+      }
+    } catch (error) {
+      console.error('Error loading idle timeout:', error);
+    }
+  };
+
+  const setIdleTimeout = async (minutes: number) => {
+    try {
+      setIdleTimeoutState(minutes);
+      lastActivityRef.current = Date.now();
+      await AsyncStorage.setItem(IDLE_TIMEOUT_STORAGE_KEY, String(minutes));
+    } catch (error) {
+      console.error('Error saving idle timeout:', error);
+    }
+  };
+
+  const setPin = async (pin: string) => {
+    if (!user) {
+      return;
+    }
+
+    await PinStorage.setPin(user.id, pin);
+    setHasPin(true);
+  };
+
+  const removePin = async () => {
+    if (!user) {
+      return;
+    }
+
+    await PinStorage.clearPin(user.id);
+    setHasPin(false);
+    await updateLockState({ locked: false, failedAttempts: 0 });
+  };
+
+  const unlock = async (pin: string): Promise<boolean> => {
+    if (!user) {
+      return false;
+    }
+
+    if (await PinStorage.verifyPin(user.id, pin)) {
+      await updateLockState({ locked: false, failedAttempts: 0 });
+      lastActivityRef.current = Date.now();
+      return true;
+    }
+
+    const attempts = failedAttempts + 1;
+    await updateLockState({ locked: true, failedAttempts: attempts });
+
+    if (attempts >= MAX_PIN_ATTEMPTS) {
+      await logout();
+    }
+
+    return false;
+  };
+
+  const registerActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  // Touches are picked up by the root layout; typing and scrolling never
+  // reach it, so they are listened for here
+  useEffect(() => {
+    if (!idleEnabled) {
+      return;
+    }
+
+    if (Platform.OS === 'web') {
+      const events = ['keydown', 'input', 'wheel'];
+      events.forEach((event) =>
+        window.addEventListener(event, registerActivity, true)
+      );
+      return () =>
+        events.forEach((event) =>
+          window.removeEventListener(event, registerActivity, true)
+        );
+    }
+
+    const subscriptions = (
+      ['keyboardDidShow', 'keyboardDidHide', 'keyboardDidChangeFrame'] as const
+    ).map((event) => Keyboard.addListener(event, registerActivity));
+    return () => subscriptions.forEach((subscription) => subscription.remove());
+  }, [idleEnabled, registerActivity]);
+
+  return (
+    <InactivityLockContext.Provider
+      value={{
+        locked,
+        hasPin,
+        idleTimeout,
+        failedAttempts,
+        setIdleTimeout,
+        setPin,
+        removePin,
+        unlock,
+        registerActivity,
+      }}
+    >
+      {children}
+    </InactivityLockContext.Provider>
+  );
+}
+
+export function useInactivityLock() {
+  const context = useContext(InactivityLockContext);
+  if (!context) {
+    throw new Error(
+      'useInactivityLock must be used within an InactivityLockProvider'
+    );
+  }
+  return context;
+}
@@ -0,0 +1,182 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useAuth } from '@/providers/AuthProvider';
+import { useAppointmentsInRange } from '@/hooks/useAppointmentsInRange';
+import { appointmentsApi } from '@/utils/api';
+import { addDays } from '@/utils/calendar';
+import {
+  DEFAULT_REMINDER_PREFERENCES,
+  REMINDER_WINDOW_DAYS,
+  ReminderPreferences,
+  ReminderPreferencesStorage,
+  Reminders,
+  remindersSupported,
+} from '@/utils/reminders';
+import { toDateKey } from '@/utils/scheduling';
+import { Appointment } from '@/types';
+
+interface RemindersContextType {
+  preferences: ReminderPreferences;
+  supported: boolean;
+  // Resolves false when notifications could not be turned on
+  updatePreferences: (
+    changes: Partial<ReminderPreferences>
+  ) => Promise<boolean>;
+}
+
+const RemindersContext = createContext<RemindersContextType | null>(null);
+
+if (remindersSupported) {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+export function RemindersProvider({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated } = useAuth();
+  const [preferences, setPreferences] = useState(DEFAULT_REMINDER_PREFERENCES);
+  const [loaded, setLoaded] = useState(false);
+  const active = remindersSupported && isAuthenticated && preferences.enabled;
+
+  // Doctors are reminded of their own list; other roles follow the clinic's
+  const today = new Date();
+  const { data: upcoming } = useAppointmentsInRange(
+    {
+      dateFrom: toDateKey(today),
+      dateTo: toDateKey(addDays(today, REMINDER_WINDOW_DAYS)),
+      ...(user?.role === 'doctor' && { doctor: user.id }),
+    },
+    active
+  );
+  const appointments = upcoming?.items;
+  const appointmentsRef = useRef<Appointment[]>([]);
+  appointmentsRef.current = appointments ?? [];
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+
+  useEffect(() => {
+    ReminderPreferencesStorage.load()
+      .then(setPreferences)
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Full resync whenever the upcoming list is refetched or settings change
+  useEffect(() => {
+    if (!loaded) {
+      return;
+    }
+
+    if (!isAuthenticated) {
+      // Reminders name patients, so they never outlive the session
+      Reminders.clear().catch((error) =>
+        console.error('Error clearing reminders:', error)
+      );
+      return;
+    }
+
+    if (!active || appointments) {
+      Reminders.sync(appointments ?? [], preferences).catch((error) =>
+        console.error('Error scheduling reminders:', error)
+      );
+    }
+  }, [loaded, isAuthenticated, active, appointments, preferences]);
+
+  // Writes through appointmentsApi update their reminders straight away, so
+  // a moved or cancelled visit never fires at its old time while offline
+  useEffect(
+    () =>
+      appointmentsApi.subscribe((change) => {
+        if (!preferencesRef.current.enabled) {
+          return;
+        }
+
+        const appointment =
+          change.type === 'saved'
+            ? reminderTarget(change.changes, change.id)
+            : null;
+        const task = appointment
+          ? Reminders.update(appointment, preferencesRef.current)
+          : Reminders.cancel(change.id);
+        task.catch((error) => console.error('Error updating reminder:', error));
+      }),
+    [user]
+  );
+
+  // Merges a write into the known appointment. Offline creates only carry the
+  // request body, so they wait for the next full sync instead.
+  const reminderTarget = (
+    changes: Partial<Appointment> & { doctor?: string },
+    id: string
+  ): Appointment | null => {
+    const known = appointmentsRef.current.find(
+      (appointment) => appointment.id === id
+    );
+    const merged = {
+      ...known,
+      ...changes,
+      doctorId: changes.doctor ?? changes.doctorId ?? known?.doctorId,
+    } as Appointment;
+
+    if (!merged.patientName || !merged.date || !merged.time) {
+      return null;
+    }
+
+    return user?.role === 'doctor' && merged.doctorId !== user.id
+      ? null
+      : merged;
+  };
+
+  useEffect(() => {
+    if (!remindersSupported) {
+      return;
+    }
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      () => router.push('/(tabs)/appointments')
+    );
+    return () => subscription.remove();
+  }, []);
+
+  const updatePreferences = async (changes: Partial<ReminderPreferences>) => {
+    if (changes.enabled && !(await Reminders.requestPermission())) {
+      return false;
+    }
+
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    try {
+      await ReminderPreferencesStorage.save(next);
+    } catch (error) {
+      console.error('Error saving reminder preferences:', error);
+    }
+    return true;
+  };
+
+  return (
+    <RemindersContext.Provider
+      value={{ preferences, supported: remindersSupported, updatePreferences }}
+    >
+      {children}
+    </RemindersContext.Provider>
+  );
+}
+
+export function useReminders() {
+  const context = useContext(RemindersContext);
+  if (!context) {
+    throw new Error('useReminders must be used within a RemindersProvider');
+  }
+  return context;
+}
@@ -0,0 +1,115 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/providers/AuthProvider';
+import { referenceApi, syncOutbox } from '@/utils/api';
+import { InteractionData } from '@/utils/interactions';
+import { Outbox, OutboxEntry } from '@/utils/outbox';
+
+interface SyncContextType {
+  isOnline: boolean;
+  // Everything not yet on the server, conflicts included
+  pendingCount: number;
+  conflictCount: number;
+  // Conflicted updates to put to the user, less any they put off until the
+  // next sync
+  conflicts: OutboxEntry[];
+  deferConflict: (id: string) => void;
+  syncing: boolean;
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | null>(null);
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(onlineManager.isOnline());
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [deferredIds, setDeferredIds] = useState<string[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const conflicted = entries.filter((entry) => entry.conflicted);
+  const queuedCount = entries.length - conflicted.length;
+
+  useEffect(() => onlineManager.subscribe(setIsOnline), []);
+
+  useEffect(() => Outbox.subscribe(setEntries), []);
+
+  useEffect(() => {
+    if (isOnline && isAuthenticated && queuedCount > 0 && !syncing) {
+      syncNow();
+    }
+  }, [isOnline, isAuthenticated, queuedCount > 0]);
+
+  useEffect(() => {
+    if (isOnline && isAuthenticated) {
+      refreshInteractionDataset();
+    }
+  }, [isOnline, isAuthenticated]);
+
+  // Best effort: the bundled dataset keeps working if this fails
+  const refreshInteractionDataset = async () => {
+    try {
+      const response = await referenceApi.getInteractionDataset();
+      if (await InteractionData.update(response.data)) {
+        queryClient.invalidateQueries({ queryKey: ['interaction-dataset'] });
+      }
+    } catch (error) {
+      console.error('Interaction dataset refresh error:', error);
+    }
+  };
+
+  const syncNow = async () => {
+    setDeferredIds([]);
+    setSyncing(true);
+    try {
+      const { synced, rejected } = await syncOutbox();
+
+      if (synced > 0 || rejected.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['patients'] });
+        queryClient.invalidateQueries({ queryKey: ['appointments'] });
+        queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      }
+
+      if (rejected.length > 0) {
+        Alert.alert(
+          'Sync Error',
+          `${rejected.length} offline ${
+            rejected.length === 1 ? 'change was' : 'changes were'
+          } rejected by the server:\n\n${rejected
+            .map(({ message }) => `• ${message}`)
+            .join('\n')}`
+        );
+      }
+    } catch (error) {
+      console.error('Outbox sync error:', error);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <SyncContext.Provider
+      value={{
+        isOnline,
+        pendingCount: entries.length,
+        conflictCount: conflicted.length,
+        conflicts: conflicted.filter(({ id }) => !deferredIds.includes(id)),
+        deferConflict: (id) => setDeferredIds((ids) => [...ids, id]),
+        syncing,
+        syncNow,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
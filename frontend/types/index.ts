@@ -45,6 +45,9 @@ export interface Medication {
   startDate: string;
   endDate?: string;
   prescribedBy: string;
+  previousId?: string;
+  discontinuedReason?: string;
+  overrideReason?: string;
 }
 
 export interface Appointment {
@@ -54,24 +57,143 @@ export interface Appointment {
   doctorId: string;
   doctorName: string;
   type: 'checkup' | 'consultation' | 'followup' | 'emergency';
-  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
+  status:
+    | 'scheduled'
+    | 'confirmed'
+    | 'checked-in'
+    | 'in-progress'
+    | 'completed'
+    | 'cancelled'
+    | 'no-show';
   date: string;
   time: string;
   duration: number;
   notes?: string;
+  // Occurrences booked together share a series id and the rule that made them
+  seriesId?: string;
+  recurrence?: RecurrenceRule;
+  // Set when the patient arrives and when the doctor calls them in
+  checkedInAt?: string;
+  startedAt?: string;
   createdAt: string;
 }
 
-export interface DashboardStats {
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  // Every N days, weeks or months
+  interval: number;
+  // A series ends on a date or after a number of occurrences
+  until?: string;
+  count?: number;
+}
+
+// A patient waiting for an earlier slot. Empty preference lists mean any
+// doctor, any weekday or any time of day.
+export interface WaitlistEntry {
+  id: string;
+  patientId: string;
+  patientName: string;
+  doctorIds: string[];
+  // 0 is Sunday, as in Date.getDay()
+  days: number[];
+  timeWindows: TimeWindow[];
+  type: Appointment['type'];
+  duration: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface DoctorAvailability {
+  date: string;
+  workingHours?: {
+    start: string;
+    end: string;
+  };
+  bookedSlots: {
+    time: string;
+    duration: number;
+  }[];
+}
+
+export interface DashboardOverview {
   totalPatients: number;
   todayAppointments: number;
+  // Today's appointments broken down by where each visit is up to
+  todayByStatus?: Partial<Record<Appointment['status'], number>>;
   pendingAppointments: number;
   completedAppointments: number;
   newPatientsThisMonth: number;
+}
+
+export interface DashboardStats {
+  overview: DashboardOverview;
+  // The last seven days by day, from servers that send it
+  weekTrends?: AppointmentTrend[];
   upcomingAppointments: Appointment[];
   recentPatients: Patient[];
 }
 
+export interface ReportCount {
+  label: string;
+  count: number;
+}
+
+// One bucket of the appointment trend chart
+export interface AppointmentTrend {
+  label: string;
+  dateFrom: string;
+  dateTo: string;
+  // Still booked or under way
+  scheduled: number;
+  completed: number;
+  // Cancellations and no-shows
+  cancelled: number;
+  total: number;
+}
+
+export interface ReportData {
+  dateFrom: string;
+  dateTo: string;
+  totalPatients: number;
+  newPatients: number;
+  totalAppointments: number;
+  completedAppointments: number;
+  cancelledAppointments: number;
+  // Only the server knows these; they are missing from local reports
+  revenue?: number;
+  satisfaction?: number;
+  // Patients seen in the range
+  demographics: {
+    gender: ReportCount[];
+    ageBands: ReportCount[];
+  };
+  appointmentTrends: AppointmentTrend[];
+  conditions: ReportCount[];
+  // Set when the figures were worked out on the device
+  computedLocally?: boolean;
+  // Worked out from lists cut short at the page limit, so undercounted
+  partial?: boolean;
+}
+
+// A patient's visits within a report range, for the patient summary export
+export interface PatientSummary {
+  patientId: string;
+  name: string;
+  gender: Patient['gender'];
+  age: number | null;
+  visits: number;
+  completed: number;
+  // Cancelled and no-show appointments
+  missed: number;
+  lastVisit: string | null;
+  conditions: string[];
+}
+
 export interface AuthState {
   user: User | null;
   token: string | null;
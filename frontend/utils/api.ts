@@ -1,14 +1,40 @@
+import { onlineManager } from '@tanstack/react-query';
 import { SecureStorage } from './secure-storage';
+import { Outbox, OutboxEntry, OutboxMethod } from './outbox';
+import {
+  Appointment,
+  DashboardStats,
+  DoctorAvailability,
+  Medication,
+  Patient,
+  PatientSummary,
+  ReportData,
+  User,
+  WaitlistEntry,
+} from '@/types';
+import { InteractionDataset } from './interactions';
+import { ReportRange, computeReport, summarizePatients } from './reports';
+import { PatientListFilter, filterPatients } from './drill-down';
+import {
+  DEFAULT_SCHEDULING_RULES,
+  SchedulingRules,
+} from './schedule-conflicts';
 
 const API_BASE_URL =
   process.env.EXPO_PUBLIC_API_URL ||
   'https://patient-dashboard-pro-backend.onrender.com/api';
 
+// Endpoints that must never trigger a token refresh on 401
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
 interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   data?: T;
   error?: string;
+  // Set when a write was stored in the outbox instead of being sent
+  queued?: boolean;
+  etag?: string;
   pagination?: {
     currentPage: number;
     totalPages: number;
@@ -17,13 +43,81 @@ interface ApiResponse<T = any> {
   };
 }
 
+interface AuthHandlers {
+  onTokenRefreshed?: (token: string) => void;
+  onAuthFailure?: () => void;
+}
+
+// Thrown when the server could not be reached at all
+export class NetworkError extends Error {
+  constructor(message = 'Network request failed') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown when a conditional write loses against a newer server version
+export class ConflictError<T = any> extends Error {
+  serverData?: T;
+
+  constructor(message: string, serverData?: T) {
+    super(message);
+    this.name = 'ConflictError';
+    this.serverData = serverData;
+  }
+}
+
+// Thrown for a 404, such as an endpoint an older server doesn't have
+export class NotFoundError extends Error {
+  constructor(message = 'Not found') {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// Thrown when the session has ended and could not be refreshed
+export class AuthError extends Error {
+  constructor(message = 'Your session has expired') {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Identifies the version of a record a write was based on
+export interface WritePrecondition {
+  etag?: string;
+  updatedAt?: string;
+}
+
+const preconditionHeaders = (
+  precondition?: WritePrecondition
+): Record<string, string> | undefined => {
+  if (precondition?.etag) {
+    return { 'If-Match': precondition.etag };
+  }
+
+  if (precondition?.updatedAt) {
+    return {
+      'If-Unmodified-Since': new Date(precondition.updatedAt).toUTCString(),
+    };
+  }
+
+  return undefined;
+};
+
 class ApiClient {
   private baseURL: string;
+  private refreshPromise: Promise<string | null> | null = null;
+  private authHandlers: AuthHandlers = {};
 
   constructor(baseURL: string) {
     this.baseURL = baseURL;
   }
 
+  setAuthHandlers(handlers: AuthHandlers) {
+    this.authHandlers = handlers;
+  }
+
   private async getAuthHeaders(): Promise<Record<string, string>> {
     const token = await SecureStorage.getItemAsync('auth_token');
     const headers: Record<string, string> = {
@@ -37,18 +131,133 @@ class ApiClient {
     return headers;
   }
 
-  private async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
+  // Concurrent callers share a single in-flight refresh
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  // Null means the server turned the session down. Not reaching the server
+  // throws instead, since being offline says nothing about the session.
+  private async performTokenRefresh(): Promise<string | null> {
+    const headers = await this.getAuthHeaders();
+
+    if (!headers.Authorization) {
+      return null;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/auth/refresh`, {
+        method: 'POST',
+        headers,
+      });
+    } catch (error) {
+      throw new NetworkError();
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Session refresh failed with status ${response.status}`);
+    }
+
+    try {
+      const data = await response.json();
+      const token: string | undefined = data?.data?.token;
+
+      if (!token) {
+        return null;
+      }
+
+      await SecureStorage.setItemAsync('auth_token', token);
+      this.authHandlers.onTokenRefreshed?.(token);
+
+      return token;
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      return null;
+    }
+  }
+
+  private async request<T>(
+    url: string,
+    init: RequestInit,
+    endpoint: string
+  ): Promise<ApiResponse<T>> {
+    const send = async () => {
+      const headers = {
+        ...(await this.getAuthHeaders()),
+        ...(init.headers as Record<string, string> | undefined),
+      };
+
+      try {
+        return await fetch(url, { ...init, headers });
+      } catch (error) {
+        throw new NetworkError();
+      }
+    };
+
+    const response = await send();
+
+    return this.handleResponse<T>(response, endpoint, send);
+  }
+
+  private async handleResponse<T>(
+    response: Response,
+    endpoint: string,
+    replay?: () => Promise<Response>
+  ): Promise<ApiResponse<T>> {
+    if (
+      response.status === 401 &&
+      replay &&
+      !NO_REFRESH_ENDPOINTS.includes(endpoint)
+    ) {
+      const token = await this.refreshAccessToken();
+
+      if (token) {
+        // Replay once with the new token; a second 401 is final
+        return this.handleResponse<T>(await replay(), endpoint);
+      }
+
+      this.authHandlers.onAuthFailure?.();
+      throw new AuthError();
+    }
+
     const contentType = response.headers.get('content-type');
 
     if (contentType && contentType.includes('application/json')) {
       const data = await response.json();
 
+      if (response.status === 404) {
+        throw new NotFoundError(data.message || data.error);
+      }
+
+      if (response.status === 409 || response.status === 412) {
+        throw new ConflictError(
+          data.message || 'This record was changed by someone else',
+          data.data
+        );
+      }
+
       if (!response.ok) {
         throw new Error(data.message || data.error || 'Request failed');
       }
 
-      return data;
+      const etag = response.headers.get('etag');
+      return etag ? { ...data, etag } : data;
     } else {
+      if (response.status === 404) {
+        throw new NotFoundError();
+      }
+
       if (!response.ok) {
         throw new Error(`Request failed with status ${response.status}`);
       }
@@ -72,107 +281,297 @@ class ApiClient {
       });
     }
 
-    const headers = await this.getAuthHeaders();
-
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers,
-    });
-
-    return this.handleResponse<T>(response);
+    return this.request<T>(url.toString(), { method: 'GET' }, endpoint);
   }
 
   async post<T>(endpoint: string, data?: any): Promise<ApiResponse<T>> {
-    const headers = await this.getAuthHeaders();
+    return this.request<T>(
+      `${this.baseURL}${endpoint}`,
+      {
+        method: 'POST',
+        body: data ? JSON.stringify(data) : undefined,
+      },
+      endpoint
+    );
+  }
 
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
-      method: 'POST',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  async put<T>(
+    endpoint: string,
+    data?: any,
+    headers?: Record<string, string>
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>(
+      `${this.baseURL}${endpoint}`,
+      {
+        method: 'PUT',
+        headers,
+        body: data ? JSON.stringify(data) : undefined,
+      },
+      endpoint
+    );
+  }
 
-    return this.handleResponse<T>(response);
+  async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
+    return this.request<T>(
+      `${this.baseURL}${endpoint}`,
+      { method: 'DELETE' },
+      endpoint
+    );
   }
+}
 
-  async put<T>(endpoint: string, data?: any): Promise<ApiResponse<T>> {
-    const headers = await this.getAuthHeaders();
+export const apiClient = new ApiClient(API_BASE_URL);
 
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
-      method: 'PUT',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+const sendWrite = <T>(
+  method: OutboxMethod,
+  endpoint: string,
+  data?: any,
+  headers?: Record<string, string>
+) => {
+  switch (method) {
+    case 'post':
+      return apiClient.post<T>(endpoint, data);
+    case 'put':
+      return apiClient.put<T>(endpoint, data, headers);
+    case 'delete':
+      return apiClient.delete<T>(endpoint);
+  }
+};
 
-    return this.handleResponse<T>(response);
+// Conflicted entries wait on the user, not the network, so they hold
+// nothing up
+const nextQueuedWrite = async () =>
+  (await Outbox.getEntries()).find(({ conflicted }) => !conflicted);
+
+// Writes are sent directly when possible and queued in the outbox otherwise.
+// Anything already queued goes first, so later writes never overtake it.
+async function queuedWrite<T>(
+  method: OutboxMethod,
+  endpoint: string,
+  data?: any,
+  headers?: Record<string, string>,
+  base?: any
+): Promise<ApiResponse<T>> {
+  if (onlineManager.isOnline() && !(await nextQueuedWrite())) {
+    try {
+      return await sendWrite<T>(method, endpoint, data, headers);
+    } catch (error) {
+      if (!(error instanceof NetworkError)) {
+        throw error;
+      }
+    }
   }
 
-  async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
-    const headers = await this.getAuthHeaders();
+  const tempId =
+    method === 'post'
+      ? `offline-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      : undefined;
 
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
-      method: 'DELETE',
-      headers,
-    });
+  await Outbox.enqueue({ method, endpoint, data, headers, tempId, base });
 
-    return this.handleResponse<T>(response);
+  return {
+    success: true,
+    queued: true,
+    data: (tempId ? { ...data, id: tempId } : data) as T,
+  };
+}
+
+export interface OutboxSyncResult {
+  synced: number;
+  rejected: { entry: OutboxEntry; message: string }[];
+  // Updates that lost against a newer version, left for the user to merge
+  conflicted: OutboxEntry[];
+}
+
+let syncPromise: Promise<OutboxSyncResult> | null = null;
+
+async function performOutboxSync(): Promise<OutboxSyncResult> {
+  const result: OutboxSyncResult = { synced: 0, rejected: [], conflicted: [] };
+  let entry: OutboxEntry | undefined;
+
+  while ((entry = await nextQueuedWrite())) {
+    try {
+      const response = await sendWrite<any>(
+        entry.method,
+        entry.endpoint,
+        entry.data,
+        entry.headers
+      );
+      await Outbox.remove(entry.id);
+      result.synced += 1;
+
+      if (entry.tempId && response.data?.id) {
+        await Outbox.replaceId(entry.tempId, response.data.id);
+      }
+    } catch (error: any) {
+      if (error instanceof NetworkError) {
+        // Still offline, keep the rest queued for the next attempt
+        break;
+      }
+
+      if (error instanceof AuthError) {
+        // Only a confirmed sign-out discards queued work
+        break;
+      }
+
+      if (error instanceof ConflictError && entry.base) {
+        await Outbox.markConflicted(entry.id);
+        result.conflicted.push(entry);
+        continue;
+      }
+
+      // The server rejected the write, replaying it cannot succeed
+      await Outbox.remove(entry.id);
+      result.rejected.push({ entry, message: error.message });
+    }
   }
+
+  return result;
 }
 
-export const apiClient = new ApiClient(API_BASE_URL);
+// Replays queued writes in order; concurrent callers share one run
+export function syncOutbox(): Promise<OutboxSyncResult> {
+  if (!syncPromise) {
+    syncPromise = performOutboxSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+
+  return syncPromise;
+}
 
 // Specific API functions
 export const authApi = {
   login: (email: string, password: string) =>
-    apiClient.post('/auth/login', { email, password }),
+    apiClient.post<{ user: User; token: string }>('/auth/login', {
+      email,
+      password,
+    }),
 
-  register: (userData: any) => apiClient.post('/auth/register', userData),
+  register: (userData: any) =>
+    apiClient.post<{ user: User; token: string }>('/auth/register', userData),
 
-  getCurrentUser: () => apiClient.get('/auth/me'),
+  getCurrentUser: () => apiClient.get<User>('/auth/me'),
 
   logout: () => apiClient.post('/auth/logout'),
 
-  refreshToken: () => apiClient.post('/auth/refresh'),
+  refreshToken: () => apiClient.refreshAccessToken(),
 };
 
 export const patientsApi = {
   getAll: (params?: Record<string, string>) =>
-    apiClient.get('/patients', params),
+    apiClient.get<Patient[]>('/patients', params),
 
-  getById: (id: string) => apiClient.get(`/patients/${id}`),
+  getById: (id: string) => apiClient.get<Patient>(`/patients/${id}`),
 
-  create: (patientData: any) => apiClient.post('/patients', patientData),
+  create: (patientData: any) => queuedWrite('post', '/patients', patientData),
 
-  update: (id: string, patientData: any) =>
-    apiClient.put(`/patients/${id}`, patientData),
+  // `base` is the version the edit started from, kept with a queued write
+  update: (
+    id: string,
+    patientData: any,
+    precondition?: WritePrecondition,
+    base?: Patient
+  ) =>
+    queuedWrite<Patient>(
+      'put',
+      `/patients/${id}`,
+      patientData,
+      preconditionHeaders(precondition),
+      base
+    ),
 
-  delete: (id: string) => apiClient.delete(`/patients/${id}`),
+  delete: (id: string) => queuedWrite('delete', `/patients/${id}`),
 
   getMedicalHistory: (id: string) =>
-    apiClient.get(`/patients/${id}/medical-history`),
+    apiClient.get<string[]>(`/patients/${id}/medical-history`),
 
-  getMedications: (id: string) => apiClient.get(`/patients/${id}/medications`),
+  getMedications: (id: string) =>
+    apiClient.get<Medication[]>(`/patients/${id}/medications`),
 };
 
+// Lets features that mirror appointments, such as reminders, follow every
+// write without each screen having to tell them
+export type AppointmentChange =
+  | { type: 'saved'; id: string; changes: Partial<Appointment> }
+  | { type: 'deleted'; id: string };
+
+type AppointmentChangeListener = (change: AppointmentChange) => void;
+
+const appointmentListeners = new Set<AppointmentChangeListener>();
+
+const notifyAppointmentChange = (change: AppointmentChange) =>
+  appointmentListeners.forEach((listener) => listener(change));
+
 export const appointmentsApi = {
   getAll: (params?: Record<string, string>) =>
-    apiClient.get('/appointments', params),
+    apiClient.get<Appointment[]>('/appointments', params),
 
   getById: (id: string) => apiClient.get(`/appointments/${id}`),
 
-  create: (appointmentData: any) =>
-    apiClient.post('/appointments', appointmentData),
-
-  update: (id: string, appointmentData: any) =>
-    apiClient.put(`/appointments/${id}`, appointmentData),
+  create: async (appointmentData: any) => {
+    const response = await queuedWrite<Appointment>(
+      'post',
+      '/appointments',
+      appointmentData
+    );
+    if (response.data?.id) {
+      notifyAppointmentChange({
+        type: 'saved',
+        id: response.data.id,
+        changes: response.data,
+      });
+    }
+    return response;
+  },
+
+  update: async (id: string, appointmentData: any) => {
+    const response = await queuedWrite<Appointment>(
+      'put',
+      `/appointments/${id}`,
+      appointmentData
+    );
+    notifyAppointmentChange({
+      type: 'saved',
+      id,
+      changes: { ...appointmentData, ...response.data },
+    });
+    return response;
+  },
 
-  delete: (id: string) => apiClient.delete(`/appointments/${id}`),
+  delete: async (id: string) => {
+    const response = await queuedWrite('delete', `/appointments/${id}`);
+    notifyAppointmentChange({ type: 'deleted', id });
+    return response;
+  },
 
   getDoctorAvailability: (doctorId: string, date: string) =>
-    apiClient.get(`/appointments/doctor/${doctorId}/availability`, { date }),
+    apiClient.get<DoctorAvailability>(
+      `/appointments/doctor/${doctorId}/availability`,
+      { date }
+    ),
+
+  subscribe(listener: AppointmentChangeListener): () => void {
+    appointmentListeners.add(listener);
+
+    return () => {
+      appointmentListeners.delete(listener);
+    };
+  },
+};
+
+export const waitlistApi = {
+  getAll: (params?: Record<string, string>) =>
+    apiClient.get<WaitlistEntry[]>('/waitlist', params),
+
+  create: (entryData: Omit<WaitlistEntry, 'id' | 'createdAt'>) =>
+    queuedWrite<WaitlistEntry>('post', '/waitlist', entryData),
+
+  delete: (id: string) => queuedWrite('delete', `/waitlist/${id}`),
 };
 
 export const dashboardApi = {
-  getStats: () => apiClient.get('/dashboard/stats'),
+  getStats: () => apiClient.get<DashboardStats>('/dashboard/stats'),
 
   getRecentActivity: (params?: Record<string, string>) =>
     apiClient.get('/dashboard/recent-activity', params),
@@ -183,10 +582,135 @@ export const usersApi = {
 
   getById: (id: string) => apiClient.get(`/users/${id}`),
 
-  getDoctors: () => apiClient.get('/users/doctors'),
+  getDoctors: () => apiClient.get<User[]>('/users/doctors'),
 
   update: (id: string, userData: any) =>
     apiClient.put(`/users/${id}`, userData),
 
   delete: (id: string) => apiClient.delete(`/users/${id}`),
 };
+
+const LIST_PAGE_SIZE = 100;
+const MAX_LIST_PAGES = 20;
+export const MAX_LIST_ITEMS = LIST_PAGE_SIZE * MAX_LIST_PAGES;
+
+export interface ListResult<T> {
+  items: T[];
+  // The server had more than MAX_LIST_ITEMS, so the rest were left out
+  partial: boolean;
+}
+
+// Walks every page of a list endpoint for views that need the whole set
+export async function fetchAllPages<T>(
+  endpoint: string,
+  params?: Record<string, string>
+): Promise<ListResult<T>> {
+  const items: T[] = [];
+
+  for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+    const response = await apiClient.get<T[]>(endpoint, {
+      ...params,
+      page: String(page),
+      limit: String(LIST_PAGE_SIZE),
+    });
+    items.push(...(response.data ?? []));
+
+    const pagination = response.pagination;
+    if (!pagination || pagination.currentPage >= pagination.totalPages) {
+      return { items, partial: false };
+    }
+  }
+
+  return { items, partial: true };
+}
+
+export const reportsApi = {
+  // Servers without the reports endpoint, or with one that predates the
+  // aggregations, get the same figures computed from the raw lists
+  async get(range: ReportRange): Promise<ReportData> {
+    try {
+      const response = await apiClient.get<ReportData>('/reports', {
+        dateFrom: range.dateFrom,
+        dateTo: range.dateTo,
+      });
+      if (response.data?.demographics && response.data.appointmentTrends) {
+        return response.data;
+      }
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+
+    const [patients, appointments] = await Promise.all([
+      fetchAllPages<Patient>('/patients'),
+      fetchAllPages<Appointment>('/appointments', {
+        dateFrom: range.dateFrom,
+        dateTo: range.dateTo,
+      }),
+    ]);
+    return {
+      ...computeReport(range, patients.items, appointments.items),
+      partial: patients.partial || appointments.partial,
+    };
+  },
+
+  async getPatientSummary(
+    range: ReportRange
+  ): Promise<ListResult<PatientSummary>> {
+    const [patients, appointments] = await Promise.all([
+      fetchAllPages<Patient>('/patients'),
+      fetchAllPages<Appointment>('/appointments', {
+        dateFrom: range.dateFrom,
+        dateTo: range.dateTo,
+      }),
+    ]);
+    return {
+      items: summarizePatients(range, patients.items, appointments.items),
+      partial: patients.partial || appointments.partial,
+    };
+  },
+
+  // The patients behind a report figure, picked out with the same tests the
+  // figure was counted with
+  async getPatients(filter: PatientListFilter): Promise<ListResult<Patient>> {
+    const [patients, appointments] = await Promise.all([
+      fetchAllPages<Patient>('/patients'),
+      filter.seen
+        ? fetchAllPages<Appointment>('/appointments', {
+            dateFrom: filter.seen.dateFrom,
+            dateTo: filter.seen.dateTo,
+          })
+        : Promise.resolve({ items: [], partial: false }),
+    ]);
+    return {
+      items: filterPatients(filter, patients.items, appointments.items),
+      partial: patients.partial || appointments.partial,
+    };
+  },
+};
+
+export const settingsApi = {
+  // Servers without clinic settings leave every device on the defaults
+  async getSchedulingRules(): Promise<SchedulingRules> {
+    try {
+      const response = await apiClient.get<Partial<SchedulingRules>>(
+        '/settings/scheduling'
+      );
+      return { ...DEFAULT_SCHEDULING_RULES, ...response.data };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return DEFAULT_SCHEDULING_RULES;
+      }
+      throw error;
+    }
+  },
+
+  updateSchedulingRules: (rules: SchedulingRules) =>
+    apiClient.put<SchedulingRules>('/settings/scheduling', rules),
+};
+
+export const referenceApi = {
+  getInteractionDataset: () =>
+    apiClient.get<InteractionDataset>('/reference/interactions'),
+};
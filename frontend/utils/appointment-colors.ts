@@ -0,0 +1,24 @@
+import { Appointment } from '@/types';
+
+export const STATUS_COLORS: Record<Appointment['status'], string> = {
+  scheduled: '#F59E0B',
+  confirmed: '#10B981',
+  'checked-in': '#8B5CF6',
+  'in-progress': '#2563EB',
+  completed: '#06B6D4',
+  cancelled: '#EF4444',
+  'no-show': '#6B7280',
+};
+
+export const TYPE_COLORS: Record<Appointment['type'], string> = {
+  checkup: '#2563EB',
+  consultation: '#8B5CF6',
+  followup: '#0891B2',
+  emergency: '#DC2626',
+};
+
+export const getStatusColor = (status: string) =>
+  STATUS_COLORS[status as Appointment['status']] ?? STATUS_COLORS.scheduled;
+
+export const getTypeColor = (type: string) =>
+  TYPE_COLORS[type as Appointment['type']] ?? TYPE_COLORS.checkup;
@@ -0,0 +1,94 @@
+import { Appointment } from '@/types';
+import { appointmentsApi, fetchAllPages } from './api';
+import {
+  ScheduleConflict,
+  SchedulingRules,
+  detectScheduleConflicts,
+  isBlocking,
+} from './schedule-conflicts';
+
+export interface OccurrenceTarget {
+  patientId: string;
+  doctorId: string;
+  date: string;
+  time: string;
+  duration: number;
+  // Set when an existing appointment is being moved to this slot
+  appointment?: Appointment;
+}
+
+export interface OccurrenceCheck extends OccurrenceTarget {
+  conflicts: ScheduleConflict[];
+  // No blocking conflicts; warnings may still need acknowledging
+  free: boolean;
+}
+
+export interface CheckOptions {
+  rules: SchedulingRules;
+  canOverbook: boolean;
+  // Appointments moving together, such as the rest of a series, are left
+  // out of each day's bookings so they never conflict with each other
+  excludeIds?: string[];
+}
+
+// Reads each day's bookings and each doctor's hours once, then runs the
+// conflict engine on every target. Network errors, and days with more
+// bookings than can be loaded, propagate so callers never book on stale data.
+export async function checkOccurrences(
+  targets: OccurrenceTarget[],
+  { rules, canOverbook, excludeIds = [] }: CheckOptions
+): Promise<OccurrenceCheck[]> {
+  const dates = [...new Set(targets.map(({ date }) => date))];
+  const doctorDays = [
+    ...new Set(targets.map(({ doctorId, date }) => `${doctorId}|${date}`)),
+  ];
+
+  const [dayResponses, availabilityResponses] = await Promise.all([
+    Promise.all(
+      dates.map((date) =>
+        fetchAllPages<Appointment>('/appointments', {
+          dateFrom: date,
+          dateTo: date,
+        })
+      )
+    ),
+    Promise.all(
+      doctorDays.map((key) => {
+        const [doctorId, date] = key.split('|');
+        return appointmentsApi.getDoctorAvailability(doctorId, date);
+      })
+    ),
+  ]);
+
+  const partialDate = dates.find((_, index) => dayResponses[index].partial);
+  if (partialDate) {
+    throw new Error(
+      `${partialDate} has too many bookings to check for conflicts.`
+    );
+  }
+
+  const appointmentsByDate = new Map(
+    dates.map((date, index) => [
+      date,
+      dayResponses[index].items.filter(({ id }) => !excludeIds.includes(id)),
+    ])
+  );
+  const availabilityByKey = new Map(
+    doctorDays.map((key, index) => [key, availabilityResponses[index].data])
+  );
+
+  return targets.map((target) => {
+    const conflicts = detectScheduleConflicts(
+      { ...target, id: target.appointment?.id },
+      {
+        dayAppointments: appointmentsByDate.get(target.date) ?? [],
+        doctorAvailability: availabilityByKey.get(
+          `${target.doctorId}|${target.date}`
+        ),
+      },
+      rules,
+      canOverbook
+    );
+    return { ...target, conflicts, free: !isBlocking(conflicts) };
+  });
+}
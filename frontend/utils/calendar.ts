@@ -0,0 +1,149 @@
+import { Appointment } from '@/types';
+import { timeToMinutes, toDateKey } from './scheduling';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export interface CalendarColumn {
+  id: string;
+  name: string;
+}
+
+export interface PositionedAppointment {
+  appointment: Appointment;
+  lane: number;
+  laneCount: number;
+}
+
+export const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const startOfWeek = (date: Date) => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(result, -result.getDay());
+};
+
+// Appointment dates may arrive as plain dates or full ISO timestamps
+export const appointmentDateKey = (appointment: Appointment) =>
+  appointment.date.split('T')[0];
+
+// Visible days for a view: one day, a Sunday-first week, or the six-week
+// grid that covers the anchor's month
+export function getCalendarDays(view: CalendarView, anchor: Date): Date[] {
+  switch (view) {
+    case 'day':
+      return [anchor];
+    case 'week':
+      return Array.from({ length: 7 }, (_, index) =>
+        addDays(startOfWeek(anchor), index)
+      );
+    case 'month': {
+      const first = startOfWeek(
+        new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+      );
+      return Array.from({ length: 42 }, (_, index) => addDays(first, index));
+    }
+  }
+}
+
+export function getCalendarRange(view: CalendarView, anchor: Date) {
+  const days = getCalendarDays(view, anchor);
+  return {
+    dateFrom: toDateKey(days[0]),
+    dateTo: toDateKey(days[days.length - 1]),
+  };
+}
+
+export function shiftAnchor(
+  view: CalendarView,
+  anchor: Date,
+  direction: 1 | -1
+): Date {
+  switch (view) {
+    case 'day':
+      return addDays(anchor, direction);
+    case 'week':
+      return addDays(anchor, 7 * direction);
+    case 'month':
+      return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  }
+}
+
+export function formatCalendarTitle(view: CalendarView, anchor: Date): string {
+  switch (view) {
+    case 'day':
+      return anchor.toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+      });
+    case 'week': {
+      const days = getCalendarDays('week', anchor);
+      const format = (date: Date) =>
+        date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return `${format(days[0])} – ${format(days[6])}`;
+    }
+    case 'month':
+      return anchor.toLocaleDateString('en-US', {
+        month: 'long',
+        year: 'numeric',
+      });
+  }
+}
+
+export function groupByDate(appointments: Appointment[]) {
+  return appointments.reduce<Record<string, Appointment[]>>(
+    (groups, appointment) => {
+      const key = appointmentDateKey(appointment);
+      (groups[key] ??= []).push(appointment);
+      return groups;
+    },
+    {}
+  );
+}
+
+// Splits overlapping appointments into side-by-side lanes so every block in
+// the day view stays visible
+export function layoutDayColumn(
+  appointments: Appointment[]
+): PositionedAppointment[] {
+  const sorted = [...appointments].sort(
+    (a, b) => timeToMinutes(a.time) - timeToMinutes(b.time)
+  );
+  const positioned: PositionedAppointment[] = [];
+  let cluster: PositionedAppointment[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach((item) => (item.laneCount = laneEnds.length));
+    positioned.push(...cluster);
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach((appointment) => {
+    const start = timeToMinutes(appointment.time);
+    const end = start + appointment.duration;
+
+    if (start >= clusterEnd) {
+      closeCluster();
+    }
+
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+
+    cluster.push({ appointment, lane, laneCount: 1 });
+    clusterEnd = Math.max(clusterEnd, end);
+  });
+
+  closeCluster();
+  return positioned;
+}
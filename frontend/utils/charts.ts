@@ -0,0 +1,167 @@
+import { Platform } from 'react-native';
+import { Theme } from '@/contexts/ThemeContext';
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  values: number[];
+  // Drawn dashed, for comparison series laid over the current ones
+  dashed?: boolean;
+}
+
+export interface ChartSlice {
+  key: string;
+  label: string;
+  value: number;
+  color: string;
+}
+
+// Colours handed out in order when a chart has no fixed meaning per series
+export const chartPalette = ({ colors }: Theme) => [
+  colors.primary,
+  colors.success,
+  colors.warning,
+  colors.error,
+  colors.accent,
+  colors.info,
+];
+
+// Shown on a highlighted point that opens the records behind it. Hovering
+// highlights on web, so one click is enough there.
+export const SELECT_HINT =
+  Platform.OS === 'web' ? 'Click to view records' : 'Tap again to view records';
+
+export const formatCount = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1);
+
+// Round tick values from zero that cover max, about `count` steps apart
+export function niceTicks(max: number, count = 4): number[] {
+  if (max <= 0) {
+    return [0, 1];
+  }
+
+  const rough = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step =
+    [1, 2, 2.5, 5, 10]
+      .map((factor) => factor * magnitude)
+      .find((candidate) => candidate >= rough) ?? rough;
+
+  const ticks = [];
+  for (let tick = 0; tick < max + step; tick += step) {
+    ticks.push(Number(tick.toFixed(6)));
+  }
+  return ticks;
+}
+
+// Shows every nth axis label so they never overlap
+export const labelStride = (count: number, maxLabels = 7) =>
+  Math.max(1, Math.ceil(count / maxLabels));
+
+export const seriesMax = (series: ChartSeries[], stacked = false) =>
+  Math.max(
+    0,
+    ...(stacked
+      ? (series[0]?.values ?? []).map((_, index) =>
+          series.reduce((total, { values }) => total + (values[index] ?? 0), 0)
+        )
+      : series.flatMap(({ values }) => values))
+  );
+
+// Screen readers get the shape of the data instead of the drawing
+export function describeSeries(
+  title: string,
+  labels: string[],
+  series: ChartSeries[],
+  formatValue: (value: number) => string = formatCount
+): string {
+  if (labels.length === 0) {
+    return `${title}: no data`;
+  }
+
+  const parts = series.map(({ label, values }) => {
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const peak = values.indexOf(Math.max(...values));
+    return values.length === 1
+      ? `${label} ${formatValue(values[0])}`
+      : `${label} ${formatValue(values[0])} at ${labels[0]} to ${formatValue(values[values.length - 1])} at ${labels[labels.length - 1]}, total ${formatValue(total)}, highest ${formatValue(values[peak])} at ${labels[peak]}`;
+  });
+
+  return `${title}, ${labels.length} points. ${parts.join('. ')}.`;
+}
+
+// Categories with no order between them are read out one by one
+export function describeCategories(
+  title: string,
+  labels: string[],
+  series: ChartSeries[],
+  formatValue: (value: number) => string = formatCount
+): string {
+  if (labels.length === 0) {
+    return `${title}: no data`;
+  }
+
+  return `${title}. ${labels
+    .map(
+      (label, index) =>
+        `${label}: ${series
+          .map(({ label: name, values }) =>
+            series.length === 1
+              ? formatValue(values[index] ?? 0)
+              : `${name} ${formatValue(values[index] ?? 0)}`
+          )
+          .join(', ')}`
+    )
+    .join('. ')}.`;
+}
+
+export function describeSlices(
+  title: string,
+  slices: ChartSlice[],
+  formatValue: (value: number) => string = formatCount
+): string {
+  const total = slices.reduce((sum, { value }) => sum + value, 0);
+  if (total === 0) {
+    return `${title}: no data`;
+  }
+
+  return `${title}. ${slices
+    .map(
+      ({ label, value }) =>
+        `${label} ${formatValue(value)}, ${Math.round((value / total) * 100)}%`
+    )
+    .join('. ')}.`;
+}
+
+const polar = (cx: number, cy: number, radius: number, angle: number) => ({
+  x: cx + radius * Math.sin(angle),
+  y: cy - radius * Math.cos(angle),
+});
+
+// A ring segment between two angles, in radians clockwise from twelve o'clock
+export function arcPath(
+  cx: number,
+  cy: number,
+  outer: number,
+  inner: number,
+  start: number,
+  end: number
+): string {
+  // A full circle can't be drawn as one arc, so stop just short of it
+  const sweep = Math.min(end - start, Math.PI * 2 - 0.0001);
+  const finish = start + sweep;
+  const large = sweep > Math.PI ? 1 : 0;
+  const outerStart = polar(cx, cy, outer, start);
+  const outerEnd = polar(cx, cy, outer, finish);
+  const innerEnd = polar(cx, cy, inner, finish);
+  const innerStart = polar(cx, cy, inner, start);
+
+  return [
+    `M ${outerStart.x} ${outerStart.y}`,
+    `A ${outer} ${outer} 0 ${large} 1 ${outerEnd.x} ${outerEnd.y}`,
+    `L ${innerEnd.x} ${innerEnd.y}`,
+    `A ${inner} ${inner} 0 ${large} 0 ${innerStart.x} ${innerStart.y}`,
+    'Z',
+  ].join(' ');
+}
@@ -0,0 +1,121 @@
+import { Patient } from '@/types';
+
+export type ConflictChoice = 'local' | 'server';
+
+export interface FieldConflict {
+  path: string;
+  label: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+}
+
+export const PATIENT_FIELD_LABELS: Record<string, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  phone: 'Phone',
+  dateOfBirth: 'Date of birth',
+  gender: 'Gender',
+  'address.street': 'Street',
+  'address.city': 'City',
+  'address.state': 'State',
+  'address.zipCode': 'ZIP code',
+  'emergencyContact.name': 'Emergency contact',
+  'emergencyContact.relationship': 'Relationship',
+  'emergencyContact.phone': 'Emergency phone',
+  medicalHistory: 'Medical history',
+  allergies: 'Allergies',
+  currentMedications: 'Medications',
+  bloodType: 'Blood type',
+  insuranceProvider: 'Insurance provider',
+  insuranceNumber: 'Insurance number',
+};
+
+const getPath = (source: any, path: string): unknown =>
+  path.split('.').reduce((value, key) => value?.[key], source);
+
+const setPath = (target: any, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((object, key) => {
+    object[key] = { ...object[key] };
+    return object[key];
+  }, target);
+
+  parent[last] = value;
+};
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Every field the write covers, compared across the version the edit
+// started from, the user's edit and the latest server version
+const compareFields = (
+  base: Patient,
+  local: Partial<Patient>,
+  server: Patient
+): FieldConflict[] =>
+  Object.entries(PATIENT_FIELD_LABELS)
+    .filter(([path]) => getPath(local, path) !== undefined)
+    .map(([path, label]) => ({
+      path,
+      label,
+      base: getPath(base, path),
+      local: getPath(local, path),
+      server: getPath(server, path),
+    }));
+
+// Only fields both sides changed, to different values, need a decision.
+// Forms send the whole record, so unchanged fields are in the write too.
+export function getPatientConflicts(
+  base: Patient,
+  local: Partial<Patient>,
+  server: Patient
+): FieldConflict[] {
+  return compareFields(base, local, server).filter(
+    (field) =>
+      !isEqual(field.local, field.base) &&
+      !isEqual(field.server, field.base) &&
+      !isEqual(field.local, field.server)
+  );
+}
+
+// Keeps the other editor's changes to fields the user left alone, and the
+// chosen side for fields both changed
+export function mergePatientConflicts(
+  base: Patient,
+  local: Partial<Patient>,
+  server: Patient,
+  choices: Record<string, ConflictChoice>
+): Partial<Patient> {
+  const merged: any = { ...local };
+
+  compareFields(base, local, server).forEach((field) => {
+    if (isEqual(field.local, field.base) || choices[field.path] === 'server') {
+      setPath(merged, field.path, field.server);
+    }
+  });
+
+  return merged;
+}
+
+export function formatConflictValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length > 0
+      ? value
+          .map((item) =>
+            typeof item === 'object' && item !== null
+              ? `${item.name} ${item.dosage}${item.endDate ? ' (stopped)' : ''}`
+              : item
+          )
+          .join(', ')
+      : '—';
+  }
+
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+
+  return String(value);
+}
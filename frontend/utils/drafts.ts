@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EncryptedStorage } from './encrypted-storage';
+
+export interface Draft<T> {
+  values: T;
+  savedAt: string;
+}
+
+// Drafts belong to the user who typed them and outlive their session, so
+// input survives an expired sign-in without showing up for anyone else
+let userId: string | null = null;
+
+const draftPrefix = () => `draft_${userId}_`;
+const draftKey = (key: string) => `${draftPrefix()}${key}`;
+
+const userDraftKeys = async () =>
+  (await AsyncStorage.getAllKeys()).filter((key) =>
+    key.startsWith(draftPrefix())
+  );
+
+// Unsaved form input, encrypted at rest since it usually holds patient data
+export const Drafts = {
+  setUser(id: string | null) {
+    userId = id;
+  },
+
+  async load<T>(key: string): Promise<Draft<T> | null> {
+    if (!userId) {
+      return null;
+    }
+
+    try {
+      const stored = await EncryptedStorage.getItem(draftKey(key));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading draft:', error);
+      return null;
+    }
+  },
+
+  async save<T>(key: string, values: T): Promise<void> {
+    if (!userId) {
+      return;
+    }
+
+    try {
+      const draft: Draft<T> = { values, savedAt: new Date().toISOString() };
+      await EncryptedStorage.setItem(draftKey(key), JSON.stringify(draft));
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  },
+
+  async clear(key: string): Promise<void> {
+    try {
+      await EncryptedStorage.removeItem(draftKey(key));
+    } catch (error) {
+      console.error('Error clearing draft:', error);
+    }
+  },
+
+  async count(): Promise<number> {
+    if (!userId) {
+      return 0;
+    }
+
+    try {
+      return (await userDraftKeys()).length;
+    } catch (error) {
+      console.error('Error counting drafts:', error);
+      return 0;
+    }
+  },
+
+  // Discards the current user's drafts, for an explicit sign-out
+  async clearAll(): Promise<void> {
+    if (!userId) {
+      return;
+    }
+
+    try {
+      await AsyncStorage.multiRemove(await userDraftKeys());
+    } catch (error) {
+      console.error('Error clearing drafts:', error);
+    }
+  },
+};
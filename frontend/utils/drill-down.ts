@@ -0,0 +1,173 @@
+import { Appointment, Patient } from '@/types';
+import {
+  AGE_BANDS,
+  GENDER_LABELS,
+  ReportRange,
+  formatReportRange,
+  hasCondition,
+  inAgeBand,
+  registeredBy,
+  registeredIn,
+  seenPatientIds,
+  validateReportRange,
+} from './reports';
+import { toDateKey } from './scheduling';
+import { VISIT_STATUSES, VisitStatus } from './waiting-room';
+
+// Report figures open the patient and appointment lists filtered to the
+// records behind them. The filters live in the route params, so a filtered
+// list can be bookmarked or shared as a link.
+
+// What useLocalSearchParams hands back; repeated params arrive as arrays
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+// Every part is optional and they all have to match
+export interface PatientListFilter {
+  // Seen in the range, as the report demographics and conditions count them
+  seen?: ReportRange;
+  // Registered in the range, or by its end when it has no start
+  registered?: { dateFrom?: string; dateTo: string };
+  gender?: Patient['gender'];
+  // An AGE_BANDS label, with ages taken at the end of the seen range
+  ageBand?: string;
+  condition?: string;
+}
+
+export const PATIENT_FILTER_PARAMS = [
+  'seenFrom',
+  'seenTo',
+  'registeredFrom',
+  'registeredTo',
+  'gender',
+  'age',
+  'condition',
+] as const;
+
+const paramValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+
+// Both ends are needed, and malformed ranges are dropped rather than guessed
+export function rangeFromParams(
+  dateFrom: string | string[] | undefined,
+  dateTo: string | string[] | undefined
+): ReportRange | undefined {
+  const from = paramValue(dateFrom);
+  const to = paramValue(dateTo);
+  if (!from || !to) {
+    return undefined;
+  }
+  const range = { dateFrom: from, dateTo: to };
+  return validateReportRange(range) ? undefined : range;
+}
+
+export function patientFilterFromParams(
+  params: RouteParams
+): PatientListFilter | null {
+  const registeredEnd = rangeFromParams(
+    params.registeredTo,
+    params.registeredTo
+  );
+  const gender = paramValue(params.gender);
+  const ageBand = paramValue(params.age);
+
+  const filter: PatientListFilter = {
+    seen: rangeFromParams(params.seenFrom, params.seenTo),
+    registered: paramValue(params.registeredFrom)
+      ? rangeFromParams(params.registeredFrom, params.registeredTo)
+      : registeredEnd && { dateTo: registeredEnd.dateTo },
+    gender:
+      gender && gender in GENDER_LABELS
+        ? (gender as Patient['gender'])
+        : undefined,
+    ageBand: AGE_BANDS.some(({ label }) => label === ageBand)
+      ? ageBand
+      : undefined,
+    condition: paramValue(params.condition),
+  };
+
+  return Object.values(filter).some(Boolean) ? filter : null;
+}
+
+export const patientFilterParams = ({
+  seen,
+  registered,
+  gender,
+  ageBand,
+  condition,
+}: PatientListFilter): Record<string, string> => ({
+  ...(seen && { seenFrom: seen.dateFrom, seenTo: seen.dateTo }),
+  ...(registered?.dateFrom && { registeredFrom: registered.dateFrom }),
+  ...(registered && { registeredTo: registered.dateTo }),
+  ...(gender && { gender }),
+  ...(ageBand && { age: ageBand }),
+  ...(condition && { condition }),
+});
+
+// Short labels for the filter banner, most specific first
+export const describePatientFilter = ({
+  seen,
+  registered,
+  gender,
+  ageBand,
+  condition,
+}: PatientListFilter): string[] =>
+  [
+    condition,
+    gender && GENDER_LABELS[gender],
+    ageBand && `Aged ${ageBand}`,
+    seen && `Seen ${formatReportRange(seen)}`,
+    registered &&
+      (registered.dateFrom
+        ? `Registered ${formatReportRange(registered as ReportRange)}`
+        : `Registered by ${formatReportRange({
+            dateFrom: registered.dateTo,
+            dateTo: registered.dateTo,
+          })}`),
+  ].filter((part): part is string => !!part);
+
+// Appointments are only needed, and only looked at, for the seen range
+export function filterPatients(
+  { seen, registered, gender, ageBand, condition }: PatientListFilter,
+  patients: Patient[],
+  appointments: Appointment[],
+  today = new Date()
+): Patient[] {
+  const seenIds = seen && seenPatientIds(seen, appointments);
+  const band = AGE_BANDS.find(({ label }) => label === ageBand);
+  const ageDate = seen?.dateTo ?? registered?.dateTo ?? toDateKey(today);
+
+  return patients.filter(
+    (patient) =>
+      (!seenIds || seenIds.has(patient.id)) &&
+      (!registered ||
+        (registered.dateFrom
+          ? registeredIn(patient, registered as ReportRange)
+          : registeredBy(patient, registered.dateTo))) &&
+      (!gender || patient.gender === gender) &&
+      (!band || inAgeBand(patient, band, ageDate)) &&
+      (!condition || hasCondition(patient, condition))
+  );
+}
+
+// Appointment list filters a report can set. The list screen reads its own
+// presets, doctor and type alongside these.
+export interface AppointmentListFilter {
+  range?: ReportRange;
+  statuses?: VisitStatus[];
+}
+
+// Several statuses travel as one comma separated param
+export const statusesFromParam = (value: string | string[] | undefined) =>
+  (paramValue(value) ?? '')
+    .split(',')
+    .filter((status): status is VisitStatus =>
+      VISIT_STATUSES.includes(status as VisitStatus)
+    );
+
+export const appointmentFilterParams = ({
+  range,
+  statuses = [],
+}: AppointmentListFilter): Record<string, string> => ({
+  ...(range && { dateFrom: range.dateFrom, dateTo: range.dateTo }),
+  ...(statuses.length > 0 && { status: statuses.join(',') }),
+});
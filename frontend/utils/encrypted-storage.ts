@@ -0,0 +1,18 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { decrypt, encrypt } from './encryption';
+
+// AsyncStorage-compatible store that keeps values encrypted at rest
+export const EncryptedStorage = {
+  async getItem(key: string): Promise<string | null> {
+    const value = await AsyncStorage.getItem(key);
+    return value ? decrypt(value) : null;
+  },
+
+  async setItem(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(key, await encrypt(value));
+  },
+
+  async removeItem(key: string): Promise<void> {
+    await AsyncStorage.removeItem(key);
+  },
+};
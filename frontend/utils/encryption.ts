@@ -0,0 +1,54 @@
+import CryptoJS from 'crypto-js';
+import * as Crypto from 'expo-crypto';
+import { SecureStorage } from './secure-storage';
+
+const ENCRYPTION_KEY_STORAGE_KEY = 'offline_encryption_key';
+
+let keyPromise: Promise<CryptoJS.lib.WordArray> | null = null;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// The AES key never leaves SecureStorage; only ciphertext reaches disk
+function getEncryptionKey(): Promise<CryptoJS.lib.WordArray> {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      let key = await SecureStorage.getItemAsync(ENCRYPTION_KEY_STORAGE_KEY);
+
+      if (!key) {
+        key = toHex(Crypto.getRandomBytes(32));
+        await SecureStorage.setItemAsync(ENCRYPTION_KEY_STORAGE_KEY, key);
+      }
+
+      return CryptoJS.enc.Hex.parse(key);
+    })().catch((error) => {
+      keyPromise = null;
+      throw error;
+    });
+  }
+
+  return keyPromise;
+}
+
+export async function encrypt(plaintext: string): Promise<string> {
+  const key = await getEncryptionKey();
+  const iv = CryptoJS.enc.Hex.parse(toHex(Crypto.getRandomBytes(16)));
+  const encrypted = CryptoJS.AES.encrypt(plaintext, key, { iv });
+
+  return `${iv.toString(CryptoJS.enc.Hex)}:${encrypted.toString()}`;
+}
+
+export async function decrypt(payload: string): Promise<string | null> {
+  try {
+    const [ivHex, ciphertext] = payload.split(':');
+    const key = await getEncryptionKey();
+    const decrypted = CryptoJS.AES.decrypt(ciphertext, key, {
+      iv: CryptoJS.enc.Hex.parse(ivHex),
+    });
+
+    return decrypted.toString(CryptoJS.enc.Utf8) || null;
+  } catch (error) {
+    console.error('Error decrypting payload:', error);
+    return null;
+  }
+}
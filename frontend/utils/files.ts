@@ -0,0 +1,61 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface ExportFile {
+  filename: string;
+  contents: string;
+  mimeType: string;
+  // iOS uniform type identifier shown to the share sheet
+  uti?: string;
+}
+
+// Web downloads through the browser; native writes to the cache and opens
+// the share sheet so the file can go to Calendar, Files, mail and so on.
+export async function shareFile({
+  filename,
+  contents,
+  mimeType,
+  uti,
+}: ExportFile): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: filename });
+}
+
+// Resolves null when the user backs out of the picker
+export async function pickTextFile(
+  mimeTypes: string[]
+): Promise<{ name: string; contents: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets[0]) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const contents =
+    Platform.OS === 'web'
+      ? await (await fetch(asset.uri)).text()
+      : await FileSystem.readAsStringAsync(asset.uri);
+
+  return { name: asset.name, contents };
+}
@@ -0,0 +1,756 @@
+import { Appointment, Patient, RecurrenceRule, User } from '@/types';
+import { NotFoundError, patientsApi } from './api';
+import {
+  MAX_OCCURRENCES,
+  getOccurrenceDates,
+  parseDateKey,
+} from './recurrence';
+import { minutesToTime, timeToMinutes, toDateKey } from './scheduling';
+
+// RFC 5545 iCalendar export and import. Times are written as floating local
+// times, which calendars show in the clinic's own time zone.
+
+const PRODUCT_ID = '-//Patient Dashboard Pro//Appointments//EN';
+const UID_DOMAIN = 'patient-dashboard-pro';
+// Identifies our own patients and doctors when a file is imported back
+const PATIENT_URN = 'urn:x-pdp:patient:';
+const DOCTOR_URN = 'urn:x-pdp:doctor:';
+const MAX_LINE_OCTETS = 75;
+
+export const ICS_MIME_TYPE = 'text/calendar';
+export const ICS_UTI = 'com.apple.ical.ics';
+
+const ICS_STATUS: Record<Appointment['status'], string> = {
+  scheduled: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  'checked-in': 'CONFIRMED',
+  'in-progress': 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  'no-show': 'CANCELLED',
+};
+
+const ICS_FREQUENCY: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+};
+
+const APPOINTMENT_TYPES: Appointment['type'][] = [
+  'checkup',
+  'consultation',
+  'followup',
+  'emergency',
+];
+
+// ---------------------------------------------------------------------------
+// Export
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Parameter values with separators have to be quoted, and quotes can't appear
+const quoteParam = (value: string) =>
+  /[;:,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Long lines are folded at 75 octets without splitting a character
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  return [...parts, current].join('\r\n');
+};
+
+const compactDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const formatLocalDateTime = (dateKey: string, time: string) =>
+  `${compactDate(dateKey)}T${time.replace(':', '')}00`;
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+const dateKeyOf = (appointment: Appointment) => appointment.date.split('T')[0];
+
+const endOf = (appointment: Appointment) => {
+  const end = parseDateKey(dateKeyOf(appointment));
+  end.setMinutes(timeToMinutes(appointment.time) + appointment.duration);
+  return formatLocalDateTime(
+    toDateKey(end),
+    minutesToTime(end.getHours() * 60 + end.getMinutes())
+  );
+};
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+function eventLines(
+  appointment: Appointment,
+  stamp: string,
+  extra: string[] = []
+): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatLocalDateTime(dateKeyOf(appointment), appointment.time)}`,
+    `DTEND:${endOf(appointment)}`,
+    `SUMMARY:${escapeText(`${capitalize(appointment.type)}: ${appointment.patientName}`)}`,
+    ...(appointment.notes
+      ? [`DESCRIPTION:${escapeText(appointment.notes)}`]
+      : []),
+    `STATUS:${ICS_STATUS[appointment.status] ?? 'CONFIRMED'}`,
+    `CATEGORIES:${appointment.type.toUpperCase()}`,
+    `ORGANIZER;CN=${quoteParam(appointment.doctorName)}:${DOCTOR_URN}${appointment.doctorId}`,
+    `ATTENDEE;CN=${quoteParam(appointment.patientName)};ROLE=REQ-PARTICIPANT;CUTYPE=INDIVIDUAL:${PATIENT_URN}${appointment.patientId}`,
+    `X-PDP-STATUS:${appointment.status}`,
+    `X-PDP-TYPE:${appointment.type}`,
+    ...extra,
+    'END:VEVENT',
+  ];
+}
+
+const ruleToRRule = (rule: RecurrenceRule, until: string) =>
+  [
+    `FREQ=${ICS_FREQUENCY[rule.frequency]}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    `UNTIL=${compactDate(until)}T235959`,
+  ].join(';');
+
+// Dates the RRULE itself produces. Our monthly series fall back to the last
+// day of short months, which RFC 5545 skips, so those become single events.
+function ruleDates(rule: RecurrenceRule, first: string, last: string) {
+  const dates = getOccurrenceDates(
+    { ...rule, count: undefined, until: last },
+    first
+  );
+  return rule.frequency === 'monthly'
+    ? dates.filter((date) => date.slice(8) === first.slice(8))
+    : dates;
+}
+
+const sameSlot = (a: Appointment, b: Appointment) =>
+  a.time === b.time &&
+  a.duration === b.duration &&
+  a.doctorId === b.doctorId &&
+  a.status === b.status &&
+  a.notes === b.notes;
+
+// A series becomes one recurring event: the earliest occurrence carries the
+// RRULE, missing dates become EXDATEs and changed occurrences are overrides.
+function seriesLines(series: Appointment[], stamp: string): string[] {
+  const sorted = [...series].sort((a, b) =>
+    `${dateKeyOf(a)} ${a.time}`.localeCompare(`${dateKeyOf(b)} ${b.time}`)
+  );
+  const master = sorted[0];
+  const first = dateKeyOf(master);
+  const last = dateKeyOf(sorted[sorted.length - 1]);
+  const dates = ruleDates(master.recurrence!, first, last);
+  const byDate = new Map(
+    sorted.map((occurrence) => [dateKeyOf(occurrence), occurrence])
+  );
+  const masterUid = `${master.seriesId}@${UID_DOMAIN}`;
+  const withUid = (lines: string[]) =>
+    lines.map((line) => (line.startsWith('UID:') ? `UID:${masterUid}` : line));
+
+  const exdates = dates.filter((date) => !byDate.has(date));
+  const lines = withUid(
+    eventLines(master, stamp, [
+      `RRULE:${ruleToRRule(master.recurrence!, last)}`,
+      ...(exdates.length > 0
+        ? [
+            `EXDATE:${exdates
+              .map((date) => formatLocalDateTime(date, master.time))
+              .join(',')}`,
+          ]
+        : []),
+    ])
+  );
+
+  sorted.slice(1).forEach((occurrence) => {
+    const date = dateKeyOf(occurrence);
+    if (!dates.includes(date)) {
+      lines.push(...eventLines(occurrence, stamp));
+    } else if (!sameSlot(occurrence, master)) {
+      lines.push(
+        ...withUid(
+          eventLines(occurrence, stamp, [
+            `RECURRENCE-ID:${formatLocalDateTime(date, master.time)}`,
+          ])
+        )
+      );
+    }
+  });
+
+  return lines;
+}
+
+export function buildCalendar(
+  appointments: Appointment[],
+  calendarName = 'Clinic Appointments'
+): string {
+  const stamp = formatUtc(new Date());
+  const series = new Map<string, Appointment[]>();
+  const single: Appointment[] = [];
+
+  appointments.forEach((appointment) => {
+    if (appointment.seriesId && appointment.recurrence) {
+      series.set(appointment.seriesId, [
+        ...(series.get(appointment.seriesId) ?? []),
+        appointment,
+      ]);
+    } else {
+      single.push(appointment);
+    }
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...single.flatMap((appointment) => eventLines(appointment, stamp)),
+    ...[...series.values()].flatMap((occurrences) =>
+      occurrences.length > 1
+        ? seriesLines(occurrences, stamp)
+        : eventLines(occurrences[0], stamp)
+    ),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export const calendarFilename = (label: string) =>
+  `${label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')}.ics`;
+
+// ---------------------------------------------------------------------------
+// Import
+
+export interface ICSParticipant {
+  name?: string;
+  email?: string;
+  // Set when the file was exported by this app
+  patientId?: string;
+  doctorId?: string;
+}
+
+export interface ICSEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  date: string;
+  time: string;
+  duration: number;
+  type: Appointment['type'];
+  status?: Appointment['status'];
+  recurrence?: RecurrenceRule;
+  // Dates removed from the recurrence, including ones overridden separately
+  exdates: string[];
+  participants: ICSParticipant[];
+  // Why the event was read with changes, such as a rule we can't repeat
+  warnings: string[];
+}
+
+export interface ICSParseResult {
+  events: ICSEvent[];
+  // Events that could not be turned into appointments, with the reason
+  skipped: { summary: string; reason: string }[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+
+// Splits on a separator that isn't inside double quotes
+const splitOutsideQuotes = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of value) {
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  return [...parts, current];
+};
+
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let colon = -1;
+
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') {
+      quoted = !quoted;
+    } else if (line[index] === ':' && !quoted) {
+      colon = index;
+      break;
+    }
+  }
+
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// How far a time zone is ahead of UTC at an instant, in milliseconds. Null
+// for zones the runtime doesn't know, such as Outlook's Windows zone names.
+function zoneOffset(timeZone: string, instant: number): number | null {
+  try {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+        .formatToParts(new Date(instant))
+        .map(({ type, value }) => [type, Number(value)])
+    );
+    return (
+      Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute,
+        parts.second
+      ) - instant
+    );
+  } catch {
+    return null;
+  }
+}
+
+// TZID values may carry a leading slash for globally unique ids
+const zoneName = ({ params }: ContentLine) => params.TZID?.replace(/^\//, '');
+
+// The instant a wall clock time in a zone refers to. The offset is checked
+// again at the result, in case a daylight saving change lies in between.
+function zonedInstant(wallTime: number, timeZone: string) {
+  const guess = zoneOffset(timeZone, wallTime) ?? 0;
+  const offset = zoneOffset(timeZone, wallTime - guess) ?? guess;
+  return wallTime - offset;
+}
+
+// Returns a local date key and time. UTC values and ones with a TZID are
+// converted to local time, the rest are taken as floating local times.
+// Zones have to be checked with zoneOffset first.
+function parseDateTime(line: ContentLine) {
+  const { params, value } = line;
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/
+  );
+
+  if (!match || params.VALUE === 'DATE' || match[4] === undefined) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const wallTime = Date.UTC(
+    +year,
+    +month - 1,
+    +day,
+    +hours,
+    +minutes,
+    +seconds
+  );
+  const timeZone = zoneName(line);
+  const date = utc
+    ? new Date(wallTime)
+    : timeZone
+      ? new Date(zonedInstant(wallTime, timeZone))
+      : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+
+  return {
+    date: toDateKey(date),
+    time: minutesToTime(date.getHours() * 60 + date.getMinutes()),
+    instant: date.getTime(),
+  };
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(
+    /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, weeks, days, hours, minutes] = match.map((part) =>
+    Number(part ?? 0)
+  );
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+}
+
+function parseRRule(value: string): RecurrenceRule | null {
+  const parts = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    })
+  );
+  const frequency = (
+    Object.keys(ICS_FREQUENCY) as RecurrenceRule['frequency'][]
+  ).find((key) => ICS_FREQUENCY[key] === parts.FREQ);
+  const supported = Object.keys(parts).every((key) =>
+    ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST'].includes(key)
+  );
+
+  if (!frequency || !supported) {
+    return null;
+  }
+
+  const until = parts.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return {
+    frequency,
+    interval: Number(parts.INTERVAL ?? 1),
+    // Open-ended rules are capped like series booked in the app
+    ...(parts.COUNT || until
+      ? { count: parts.COUNT ? Number(parts.COUNT) : undefined }
+      : { count: MAX_OCCURRENCES }),
+    ...(until && { until: `${until[1]}-${until[2]}-${until[3]}` }),
+  };
+}
+
+function parseParticipant({ params, value }: ContentLine): ICSParticipant {
+  const address = value.trim();
+  const lower = address.toLowerCase();
+
+  return {
+    name: params.CN?.trim() || undefined,
+    email: lower.startsWith('mailto:') ? address.slice(7).trim() : undefined,
+    patientId: lower.startsWith(PATIENT_URN)
+      ? address.slice(PATIENT_URN.length)
+      : undefined,
+    doctorId: lower.startsWith(DOCTOR_URN)
+      ? address.slice(DOCTOR_URN.length)
+      : undefined,
+  };
+}
+
+const inferType = (
+  explicit: string | undefined,
+  categories: string,
+  summary: string
+): Appointment['type'] => {
+  const text = `${explicit ?? ''} ${categories} ${summary}`.toLowerCase();
+  return (
+    APPOINTMENT_TYPES.find((type) => text.includes(type)) ??
+    (text.includes('follow') ? 'followup' : 'consultation')
+  );
+};
+
+const statusFrom = (
+  explicit: string | undefined,
+  icsStatus: string | undefined
+): Appointment['status'] | undefined => {
+  if (explicit && explicit in ICS_STATUS) {
+    return explicit as Appointment['status'];
+  }
+  switch (icsStatus) {
+    case 'CONFIRMED':
+      return 'confirmed';
+    case 'TENTATIVE':
+      return 'scheduled';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return undefined;
+  }
+};
+
+function parseEvent(lines: ContentLine[]): {
+  event?: ICSEvent & { recurrenceId?: string };
+  summary: string;
+  reason?: string;
+} {
+  const first = (name: string) => lines.find((line) => line.name === name);
+  const summary = unescapeText(first('SUMMARY')?.value ?? 'Untitled event');
+  // Guessing at a zone could book the wrong hour, so such events are left out
+  const unknownZone = lines
+    .map(zoneName)
+    .find((zone) => zone && zoneOffset(zone, Date.now()) === null);
+
+  if (unknownZone) {
+    return {
+      summary,
+      reason: `Its time zone "${unknownZone}" isn't recognised, so its time can't be worked out`,
+    };
+  }
+
+  const startLine = first('DTSTART');
+  const start = startLine && parseDateTime(startLine);
+
+  if (!start) {
+    return {
+      summary,
+      reason: "All-day events or events without a start time can't be booked",
+    };
+  }
+
+  const endLine = first('DTEND');
+  const end = endLine && parseDateTime(endLine);
+  const durationLine = first('DURATION');
+  const duration = end
+    ? Math.round((end.instant - start.instant) / 60000)
+    : durationLine
+      ? parseDuration(durationLine.value)
+      : null;
+
+  if (!duration || duration <= 0 || duration > 24 * 60) {
+    return { summary, reason: 'The event has no usable duration' };
+  }
+
+  const warnings: string[] = [];
+  const rruleLine = first('RRULE');
+  const recurrence = rruleLine ? parseRRule(rruleLine.value) : null;
+  if (rruleLine && !recurrence) {
+    warnings.push(
+      "Its repeat rule isn't supported, so only the first date is imported"
+    );
+  }
+
+  const exdates = lines
+    .filter(({ name }) => name === 'EXDATE')
+    .flatMap((line) =>
+      line.value
+        .split(',')
+        .map((value) => parseDateTime({ ...line, value })?.date)
+        .filter((date): date is string => !!date)
+    );
+  const recurrenceIdLine = first('RECURRENCE-ID');
+
+  return {
+    summary,
+    event: {
+      uid: first('UID')?.value ?? `${start.date}-${start.time}-${summary}`,
+      summary,
+      description: first('DESCRIPTION')
+        ? unescapeText(first('DESCRIPTION')!.value)
+        : undefined,
+      date: start.date,
+      time: start.time,
+      duration,
+      type: inferType(
+        first('X-PDP-TYPE')?.value,
+        first('CATEGORIES')?.value ?? '',
+        summary
+      ),
+      status: statusFrom(first('X-PDP-STATUS')?.value, first('STATUS')?.value),
+      recurrence: recurrence ?? undefined,
+      exdates,
+      participants: lines
+        .filter(({ name }) => name === 'ORGANIZER' || name === 'ATTENDEE')
+        .map(parseParticipant),
+      warnings,
+      recurrenceId: recurrenceIdLine
+        ? parseDateTime(recurrenceIdLine)?.date
+        : undefined,
+    },
+  };
+}
+
+export function parseCalendar(text: string): ICSParseResult {
+  // Unfold continuation lines before reading properties
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+
+  const parsed: ReturnType<typeof parseEvent>[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+
+  lines.forEach((line) => {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+    } else if (current && line.name === 'BEGIN') {
+      // Skip nested components such as VALARM
+      depth++;
+    } else if (current && line.name === 'END') {
+      if (depth > 0) {
+        depth--;
+      } else if (line.value.toUpperCase() === 'VEVENT') {
+        parsed.push(parseEvent(current));
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      current.push(line);
+    }
+  });
+
+  const result: ICSParseResult = { events: [], skipped: [] };
+  // An override replaces one date of its series with a single event
+  const overrides = parsed.flatMap(({ event }) =>
+    event?.recurrenceId ? [event] : []
+  );
+
+  parsed.forEach(({ event, summary, reason }) => {
+    if (!event) {
+      result.skipped.push({ summary, reason: reason! });
+      return;
+    }
+
+    if (event.status === 'cancelled' || event.status === 'no-show') {
+      result.skipped.push({ summary, reason: 'The event is cancelled' });
+      return;
+    }
+
+    const { recurrenceId, ...rest } = event;
+    result.events.push(
+      rest.recurrence
+        ? {
+            ...rest,
+            exdates: [
+              ...rest.exdates,
+              ...overrides
+                .filter(({ uid }) => uid === rest.uid)
+                .map(({ recurrenceId }) => recurrenceId!),
+            ],
+          }
+        : rest
+    );
+  });
+
+  return result;
+}
+
+// Dates an imported event books, after its exceptions are removed
+export const eventDates = (event: ICSEvent) =>
+  event.recurrence
+    ? getOccurrenceDates(event.recurrence, event.date).filter(
+        (date) => !event.exdates.includes(date)
+      )
+    : [event.date];
+
+// ---------------------------------------------------------------------------
+// Matching attendees to records
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/^dr\.?\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const sameEmail = (a?: string, b?: string) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+export function matchDoctor(
+  participants: ICSParticipant[],
+  doctors: User[]
+): User | undefined {
+  for (const participant of participants) {
+    const doctor = doctors.find(
+      ({ id, email, firstName, lastName }) =>
+        id === participant.doctorId ||
+        sameEmail(email, participant.email) ||
+        (!!participant.name &&
+          normalizeName(participant.name) ===
+            normalizeName(`${firstName} ${lastName}`))
+    );
+    if (doctor) {
+      return doctor;
+    }
+  }
+  return undefined;
+}
+
+// Looks each remaining participant up by id, email or exact name
+export async function matchPatient(
+  participants: ICSParticipant[]
+): Promise<Patient | undefined> {
+  for (const participant of participants) {
+    if (participant.patientId) {
+      try {
+        const response = await patientsApi.getById(participant.patientId);
+        if (response.data) {
+          return response.data;
+        }
+      } catch (error) {
+        // The id may come from another clinic's export, so fall back to
+        // email and name
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+
+    const search = participant.email ?? participant.name;
+    if (!search) {
+      continue;
+    }
+
+    const response = await patientsApi.getAll({ search });
+    const match = (response.data ?? []).find(
+      (patient) =>
+        sameEmail(patient.email, participant.email) ||
+        (!!participant.name &&
+          normalizeName(participant.name) ===
+            normalizeName(`${patient.firstName} ${patient.lastName}`))
+    );
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import bundledDataset from '@/assets/data/interactions.json';
+import { Medication } from '@/types';
+
+export type InteractionSeverity = 'mild' | 'moderate' | 'severe';
+
+interface AllergyRule {
+  allergens: string[];
+  drugs: string[];
+  severity: InteractionSeverity;
+  message: string;
+}
+
+interface InteractionRule {
+  drugs: string[];
+  with: string[];
+  severity: InteractionSeverity;
+  message: string;
+}
+
+// Rule terms are lowercase drug names, or "@class" references into `classes`
+export interface InteractionDataset {
+  version: number;
+  updatedAt: string;
+  classes: Record<string, string[]>;
+  allergyRules: AllergyRule[];
+  interactionRules: InteractionRule[];
+}
+
+export interface InteractionAlert {
+  kind: 'allergy' | 'drug';
+  severity: InteractionSeverity;
+  drug: string;
+  conflictsWith: string;
+  message: string;
+}
+
+export const BUNDLED_INTERACTION_DATASET = bundledDataset as InteractionDataset;
+
+const DATASET_STORAGE_KEY = '@interaction_dataset';
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  severe: 0,
+  moderate: 1,
+  mild: 2,
+};
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+const escapePattern = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match, so "aspirin" is found in "Aspirin 81 mg" but "ace" is
+// not found in "Acetaminophen"
+const mentions = (text: string, term: string) =>
+  new RegExp(`(^|[^a-z])${escapePattern(normalize(term))}([^a-z]|$)`).test(
+    normalize(text)
+  );
+
+const expandTerms = (terms: string[], dataset: InteractionDataset) =>
+  terms.flatMap((term) =>
+    term.startsWith('@') ? (dataset.classes[term.slice(1)] ?? []) : [term]
+  );
+
+const matchesAny = (
+  name: string,
+  terms: string[],
+  dataset: InteractionDataset
+) => expandTerms(terms, dataset).some((term) => mentions(name, term));
+
+const isValidDataset = (dataset: any): dataset is InteractionDataset =>
+  typeof dataset?.version === 'number' &&
+  typeof dataset.classes === 'object' &&
+  Array.isArray(dataset.allergyRules) &&
+  Array.isArray(dataset.interactionRules);
+
+const sortBySeverity = (alerts: InteractionAlert[]) =>
+  alerts.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+
+export function checkMedication(
+  name: string,
+  context: { allergies: string[]; medications: Medication[] },
+  dataset: InteractionDataset
+): InteractionAlert[] {
+  const alerts = new Map<string, InteractionAlert>();
+  const addAlert = (alert: InteractionAlert) => {
+    const key = `${alert.kind}:${normalize(alert.conflictsWith)}`;
+    const existing = alerts.get(key);
+    if (
+      !existing ||
+      SEVERITY_RANK[alert.severity] < SEVERITY_RANK[existing.severity]
+    ) {
+      alerts.set(key, alert);
+    }
+  };
+
+  context.allergies.forEach((allergy) => {
+    dataset.allergyRules
+      .filter(
+        (rule) =>
+          rule.allergens.some((allergen) => mentions(allergy, allergen)) &&
+          matchesAny(name, rule.drugs, dataset)
+      )
+      .forEach((rule) =>
+        addAlert({
+          kind: 'allergy',
+          severity: rule.severity,
+          drug: name,
+          conflictsWith: allergy,
+          message: rule.message,
+        })
+      );
+
+    // Catches drugs the dataset does not know about yet
+    if (mentions(name, allergy)) {
+      addAlert({
+        kind: 'allergy',
+        severity: 'severe',
+        drug: name,
+        conflictsWith: allergy,
+        message: `Patient is allergic to ${allergy}`,
+      });
+    }
+  });
+
+  context.medications.forEach((medication) => {
+    dataset.interactionRules
+      .filter(
+        (rule) =>
+          (matchesAny(name, rule.drugs, dataset) &&
+            matchesAny(medication.name, rule.with, dataset)) ||
+          (matchesAny(name, rule.with, dataset) &&
+            matchesAny(medication.name, rule.drugs, dataset))
+      )
+      .forEach((rule) =>
+        addAlert({
+          kind: 'drug',
+          severity: rule.severity,
+          drug: name,
+          conflictsWith: medication.name,
+          message: rule.message,
+        })
+      );
+  });
+
+  return sortBySeverity(Array.from(alerts.values()));
+}
+
+// Every allergy hit plus each interacting pair once, for the patient chart
+export function checkMedicationList(
+  medications: Medication[],
+  allergies: string[],
+  dataset: InteractionDataset
+): InteractionAlert[] {
+  return sortBySeverity(
+    medications.flatMap((medication, index) =>
+      checkMedication(
+        medication.name,
+        { allergies, medications: medications.slice(index + 1) },
+        dataset
+      )
+    )
+  );
+}
+
+export const requiresOverride = (alerts: InteractionAlert[]) =>
+  alerts.some((alert) => alert.severity === 'severe');
+
+// The bundled dataset ships with the app; a newer one fetched from the
+// server is kept on the device so checks keep working offline
+export const InteractionData = {
+  async load(): Promise<InteractionDataset> {
+    try {
+      const stored = await AsyncStorage.getItem(DATASET_STORAGE_KEY);
+      const dataset = stored ? JSON.parse(stored) : null;
+
+      if (
+        isValidDataset(dataset) &&
+        dataset.version > BUNDLED_INTERACTION_DATASET.version
+      ) {
+        return dataset;
+      }
+    } catch (error) {
+      console.error('Error loading interaction dataset:', error);
+    }
+
+    return BUNDLED_INTERACTION_DATASET;
+  },
+
+  async update(dataset: unknown): Promise<boolean> {
+    if (!isValidDataset(dataset)) {
+      return false;
+    }
+
+    const current = await InteractionData.load();
+    if (dataset.version <= current.version) {
+      return false;
+    }
+
+    await AsyncStorage.setItem(DATASET_STORAGE_KEY, JSON.stringify(dataset));
+    return true;
+  },
+};
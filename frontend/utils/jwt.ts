@@ -0,0 +1,32 @@
+import type { JwtPayload } from 'jsonwebtoken';
+
+// jsonwebtoken's runtime depends on Node's crypto module, which Metro cannot
+// bundle, so only its types are used here. Tokens are decoded without
+// verification; the server remains the authority on validity.
+export function decodeToken(token: string): JwtPayload | null {
+  try {
+    const [, payload] = token.split('.');
+
+    if (!payload) {
+      return null;
+    }
+
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(
+      base64.length + ((4 - (base64.length % 4)) % 4),
+      '='
+    );
+
+    return JSON.parse(atob(padded));
+  } catch (error) {
+    console.error('Error decoding token:', error);
+    return null;
+  }
+}
+
+// Returns the token expiry as a millisecond timestamp
+export function getTokenExpiry(token: string): number | null {
+  const payload = decodeToken(token);
+
+  return payload?.exp ? payload.exp * 1000 : null;
+}
@@ -0,0 +1,181 @@
+import { Medication } from '@/types';
+import { parseDateKey } from './recurrence';
+import { toDateKey } from './scheduling';
+
+export interface MedicationInput {
+  name: string;
+  dosage: string;
+  frequency: string;
+  startDate: string;
+  // Required when the interaction check raised a severe alert
+  overrideReason?: string;
+}
+
+export type MedicationFormErrors = Partial<
+  Record<keyof MedicationInput, string>
+>;
+
+export type MedicationEventType = 'started' | 'dose-changed' | 'discontinued';
+
+export interface MedicationEvent {
+  type: MedicationEventType;
+  date: string;
+  medication: Medication;
+  previous?: Medication;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const today = () => toDateKey(new Date());
+
+const createId = () =>
+  `med-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const emptyMedicationInput = (): MedicationInput => ({
+  name: '',
+  dosage: '',
+  frequency: '',
+  startDate: today(),
+});
+
+// End dates are local date keys, and a medication ends at the start of its
+// end date
+export const isActiveMedication = (medication: Medication) =>
+  !medication.endDate || medication.endDate.split('T')[0] > today();
+
+export const getActiveMedications = (medications: Medication[]) =>
+  medications.filter(isActiveMedication);
+
+export function validateMedicationInput(
+  input: MedicationInput
+): MedicationFormErrors {
+  const errors: MedicationFormErrors = {};
+
+  if (!input.name.trim()) {
+    errors.name = 'Medication name is required';
+  }
+  if (!input.dosage.trim()) {
+    errors.dosage = 'Dosage is required';
+  }
+  if (!input.frequency.trim()) {
+    errors.frequency = 'Frequency is required';
+  }
+  if (
+    !DATE_PATTERN.test(input.startDate) ||
+    toDateKey(parseDateKey(input.startDate)) !== input.startDate
+  ) {
+    errors.startDate = 'Use the format YYYY-MM-DD';
+  }
+
+  return errors;
+}
+
+export function addMedication(
+  medications: Medication[],
+  input: MedicationInput,
+  prescribedBy: string
+): Medication[] {
+  return [
+    ...medications,
+    {
+      id: createId(),
+      name: input.name.trim(),
+      dosage: input.dosage.trim(),
+      frequency: input.frequency.trim(),
+      startDate: input.startDate,
+      prescribedBy,
+      ...(input.overrideReason && {
+        overrideReason: input.overrideReason.trim(),
+      }),
+    },
+  ];
+}
+
+// A dose change closes the current entry and opens a new one linked to it,
+// so the history keeps every dose the patient was on
+export function changeMedicationDose(
+  medications: Medication[],
+  id: string,
+  input: MedicationInput,
+  prescribedBy: string
+): Medication[] {
+  const current = medications.find((medication) => medication.id === id);
+  if (!current) {
+    return medications;
+  }
+
+  return [
+    ...medications.map((medication) =>
+      medication.id === id
+        ? { ...medication, endDate: input.startDate }
+        : medication
+    ),
+    {
+      id: createId(),
+      name: current.name,
+      dosage: input.dosage.trim(),
+      frequency: input.frequency.trim(),
+      startDate: input.startDate,
+      prescribedBy,
+      previousId: current.id,
+      ...(input.overrideReason && {
+        overrideReason: input.overrideReason.trim(),
+      }),
+    },
+  ];
+}
+
+export function discontinueMedication(
+  medications: Medication[],
+  id: string,
+  reason: string
+): Medication[] {
+  return medications.map((medication) =>
+    medication.id === id
+      ? {
+          ...medication,
+          endDate: today(),
+          discontinuedReason: reason.trim(),
+        }
+      : medication
+  );
+}
+
+// Newest first; an entry closed by a dose change is shown through its
+// successor rather than as a separate stop
+export function getMedicationTimeline(
+  medications: Medication[]
+): MedicationEvent[] {
+  const byId = new Map(
+    medications.map((medication) => [medication.id, medication])
+  );
+  const replaced = new Set(
+    medications.map((medication) => medication.previousId).filter(Boolean)
+  );
+  const events: MedicationEvent[] = [];
+
+  medications.forEach((medication) => {
+    const previous = medication.previousId
+      ? byId.get(medication.previousId)
+      : undefined;
+
+    events.push({
+      type: previous ? 'dose-changed' : 'started',
+      date: medication.startDate,
+      medication,
+      previous,
+    });
+
+    if (medication.endDate && !replaced.has(medication.id)) {
+      events.push({
+        type: 'discontinued',
+        date: medication.endDate,
+        medication,
+      });
+    }
+  });
+
+  return events.sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+}
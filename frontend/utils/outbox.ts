@@ -0,0 +1,153 @@
+import { EncryptedStorage } from './encrypted-storage';
+
+export type OutboxMethod = 'post' | 'put' | 'delete';
+
+export interface OutboxEntry {
+  id: string;
+  method: OutboxMethod;
+  endpoint: string;
+  data?: any;
+  headers?: Record<string, string>;
+  // Placeholder id handed out for records created while offline
+  tempId?: string;
+  // The record an update was based on, so a conflict found on replay can be
+  // merged instead of dropped
+  base?: any;
+  // Lost against a newer server version on replay; kept until the user
+  // resolves or discards it
+  conflicted?: boolean;
+  createdAt: string;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const OUTBOX_STORAGE_KEY = 'mutation_outbox';
+
+// Each user has their own queue, so a session that ends keeps its writes
+// for that user's next sign-in and never replays them under anyone else
+let userId: string | null = null;
+let entries: OutboxEntry[] | null = null;
+const listeners = new Set<OutboxListener>();
+
+const storageKey = () => userId && `${OUTBOX_STORAGE_KEY}_${userId}`;
+
+async function load(): Promise<OutboxEntry[]> {
+  const key = storageKey();
+
+  if (entries === null) {
+    let loaded: OutboxEntry[] = [];
+
+    if (key) {
+      try {
+        const stored = await EncryptedStorage.getItem(key);
+        loaded = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.error('Error loading outbox:', error);
+      }
+    }
+
+    // The user changed while this was loading
+    if (key !== storageKey()) {
+      return [];
+    }
+    entries ??= loaded;
+  }
+
+  return entries;
+}
+
+async function save(next: OutboxEntry[]): Promise<void> {
+  entries = next;
+  listeners.forEach((listener) => listener(next));
+
+  const key = storageKey();
+  if (!key) {
+    return;
+  }
+
+  try {
+    await EncryptedStorage.setItem(key, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving outbox:', error);
+  }
+}
+
+// Applies a change to the current user's queue, unless they sign out mid-way
+async function update(
+  change: (current: OutboxEntry[]) => OutboxEntry[]
+): Promise<void> {
+  const key = storageKey();
+  const current = await load();
+
+  if (key === storageKey()) {
+    await save(change(current));
+  }
+}
+
+// Durable, ordered queue of writes made while the server was unreachable
+export const Outbox = {
+  // Switches to the signed-in user's queue, or none when signed out
+  async setUser(id: string | null): Promise<void> {
+    if (id === userId) {
+      return;
+    }
+
+    userId = id;
+    entries = null;
+    const current = await load();
+    listeners.forEach((listener) => listener(current));
+  },
+
+  async getEntries(): Promise<OutboxEntry[]> {
+    return [...(await load())];
+  },
+
+  async enqueue(
+    entry: Omit<OutboxEntry, 'id' | 'createdAt'>
+  ): Promise<OutboxEntry> {
+    const queued: OutboxEntry = {
+      ...entry,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    await update((current) => [...current, queued]);
+    return queued;
+  },
+
+  async remove(id: string): Promise<void> {
+    await update((current) => current.filter((entry) => entry.id !== id));
+  },
+
+  async markConflicted(id: string): Promise<void> {
+    await update((current) =>
+      current.map((entry) =>
+        entry.id === id ? { ...entry, conflicted: true } : entry
+      )
+    );
+  },
+
+  // Points queued writes at the server id once an offline create is synced
+  async replaceId(tempId: string, realId: string): Promise<void> {
+    await update((current) =>
+      current.map((entry) => ({
+        ...entry,
+        endpoint: entry.endpoint.split(tempId).join(realId),
+      }))
+    );
+  },
+
+  // Discards the current user's queued writes, for an explicit sign-out
+  async clear(): Promise<void> {
+    await update(() => []);
+  },
+
+  subscribe(listener: OutboxListener): () => void {
+    listeners.add(listener);
+    load().then(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
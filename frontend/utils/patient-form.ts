@@ -0,0 +1,181 @@
+import { Patient } from '@/types';
+import { parseDateKey } from './recurrence';
+import { toDateKey } from './scheduling';
+
+export type PatientFormValues = Omit<
+  Patient,
+  'id' | 'currentMedications' | 'createdAt' | 'updatedAt'
+>;
+
+export type PatientFormErrors = Partial<Record<string, string>>;
+
+export type PatientFormStep =
+  'personal' | 'contact' | 'emergency' | 'medical' | 'insurance' | 'review';
+
+export const PATIENT_FORM_STEPS: { key: PatientFormStep; title: string }[] = [
+  { key: 'personal', title: 'Personal' },
+  { key: 'contact', title: 'Contact' },
+  { key: 'emergency', title: 'Emergency' },
+  { key: 'medical', title: 'Medical' },
+  { key: 'insurance', title: 'Insurance' },
+  { key: 'review', title: 'Review' },
+];
+
+export const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+export const emptyPatientForm = (): PatientFormValues => ({
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  dateOfBirth: '',
+  gender: 'female',
+  address: { street: '', city: '', state: '', zipCode: '' },
+  emergencyContact: { name: '', relationship: '', phone: '' },
+  medicalHistory: [],
+  allergies: [],
+  bloodType: '',
+  insuranceProvider: '',
+  insuranceNumber: '',
+});
+
+export const patientToForm = (patient: Patient): PatientFormValues => ({
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  email: patient.email,
+  phone: patient.phone,
+  dateOfBirth: patient.dateOfBirth ? patient.dateOfBirth.split('T')[0] : '',
+  gender: patient.gender,
+  address: { ...emptyPatientForm().address, ...patient.address },
+  emergencyContact: {
+    ...emptyPatientForm().emergencyContact,
+    ...patient.emergencyContact,
+  },
+  medicalHistory: patient.medicalHistory ?? [],
+  allergies: patient.allergies ?? [],
+  bloodType: patient.bloodType ?? '',
+  insuranceProvider: patient.insuranceProvider ?? '',
+  insuranceNumber: patient.insuranceNumber ?? '',
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s()-]{7,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ZIP_PATTERN = /^[A-Za-z\d\s-]{3,10}$/;
+
+const validators: Record<
+  Exclude<PatientFormStep, 'review'>,
+  (values: PatientFormValues) => PatientFormErrors
+> = {
+  personal: (values) => {
+    const errors: PatientFormErrors = {};
+
+    if (!values.firstName.trim()) {
+      errors.firstName = 'First name is required';
+    }
+    if (!values.lastName.trim()) {
+      errors.lastName = 'Last name is required';
+    }
+
+    const dob = values.dateOfBirth;
+    if (!DATE_PATTERN.test(dob) || toDateKey(parseDateKey(dob)) !== dob) {
+      errors.dateOfBirth = 'Use the format YYYY-MM-DD';
+    } else if (dob > toDateKey(new Date())) {
+      errors.dateOfBirth = 'Date of birth cannot be in the future';
+    }
+
+    return errors;
+  },
+  contact: (values) => {
+    const errors: PatientFormErrors = {};
+
+    if (!EMAIL_PATTERN.test(values.email.trim())) {
+      errors.email = 'Enter a valid email address';
+    }
+    if (!PHONE_PATTERN.test(values.phone.trim())) {
+      errors.phone = 'Enter a valid phone number';
+    }
+    if (!values.address.street.trim()) {
+      errors['address.street'] = 'Street is required';
+    }
+    if (!values.address.city.trim()) {
+      errors['address.city'] = 'City is required';
+    }
+    if (!values.address.state.trim()) {
+      errors['address.state'] = 'State is required';
+    }
+    if (!ZIP_PATTERN.test(values.address.zipCode.trim())) {
+      errors['address.zipCode'] = 'Enter a valid ZIP code';
+    }
+
+    return errors;
+  },
+  emergency: (values) => {
+    const errors: PatientFormErrors = {};
+
+    if (!values.emergencyContact.name.trim()) {
+      errors['emergencyContact.name'] = 'Contact name is required';
+    }
+    if (!values.emergencyContact.relationship.trim()) {
+      errors['emergencyContact.relationship'] = 'Relationship is required';
+    }
+    if (!PHONE_PATTERN.test(values.emergencyContact.phone.trim())) {
+      errors['emergencyContact.phone'] = 'Enter a valid phone number';
+    }
+
+    return errors;
+  },
+  medical: (values) => {
+    const errors: PatientFormErrors = {};
+
+    if (values.bloodType && !BLOOD_TYPES.includes(values.bloodType)) {
+      errors.bloodType = 'Select a valid blood type';
+    }
+
+    return errors;
+  },
+  insurance: (values) => {
+    const errors: PatientFormErrors = {};
+
+    if (values.insuranceProvider.trim() && !values.insuranceNumber.trim()) {
+      errors.insuranceNumber = 'Policy number is required for this provider';
+    }
+
+    return errors;
+  },
+};
+
+export function validatePatientStep(
+  step: PatientFormStep,
+  values: PatientFormValues
+): PatientFormErrors {
+  return step === 'review' ? {} : validators[step](values);
+}
+
+export function validatePatientForm(
+  values: PatientFormValues
+): PatientFormErrors {
+  return Object.values(validators).reduce(
+    (errors, validate) => ({ ...errors, ...validate(values) }),
+    {} as PatientFormErrors
+  );
+}
+
+// Trims free text so stray whitespace never reaches the server
+export function normalizePatientForm(
+  values: PatientFormValues
+): PatientFormValues {
+  const trim = <T extends Record<string, any>>(object: T): T =>
+    Object.fromEntries(
+      Object.entries(object).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value.trim() : value,
+      ])
+    ) as T;
+
+  return {
+    ...trim(values),
+    address: trim(values.address),
+    emergencyContact: trim(values.emergencyContact),
+  };
+}
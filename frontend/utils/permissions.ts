@@ -0,0 +1,86 @@
+import { User } from '@/types';
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'patients:view'
+  | 'patients:create'
+  | 'patients:update'
+  | 'patients:delete'
+  | 'appointments:view'
+  | 'appointments:create'
+  | 'appointments:update'
+  | 'appointments:delete'
+  | 'appointments:overbook'
+  | 'appointments:check-in'
+  | 'scheduling:configure'
+  | 'medications:prescribe'
+  | 'reports:view'
+  | 'reports:revenue';
+
+// Mirrors the backend role hierarchy; the server still enforces every rule.
+// Prescribing is clinical, so it is granted to doctors only, not admins.
+// Overbooking lets a role book through doctor overlaps and clinic hours.
+// Check-in is front-desk work, so staff can record arrivals and no-shows.
+const PERMISSION_MATRIX: Record<Role, Permission[]> = {
+  admin: [
+    'patients:view',
+    'patients:create',
+    'patients:update',
+    'patients:delete',
+    'appointments:view',
+    'appointments:create',
+    'appointments:update',
+    'appointments:delete',
+    'appointments:overbook',
+    'appointments:check-in',
+    'scheduling:configure',
+    'reports:view',
+    'reports:revenue',
+  ],
+  doctor: [
+    'patients:view',
+    'patients:create',
+    'patients:update',
+    'appointments:view',
+    'appointments:create',
+    'appointments:update',
+    'appointments:delete',
+    'appointments:overbook',
+    'appointments:check-in',
+    'medications:prescribe',
+    'reports:view',
+  ],
+  nurse: [
+    'patients:view',
+    'patients:create',
+    'patients:update',
+    'appointments:view',
+    'appointments:create',
+    'appointments:update',
+    'appointments:delete',
+    'appointments:check-in',
+  ],
+  staff: ['patients:view', 'appointments:view', 'appointments:check-in'],
+};
+
+// Permission required to open a route, keyed by its first non-group segment
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  patients: 'patients:view',
+  appointments: 'appointments:view',
+  'waiting-room': 'appointments:view',
+  waitlist: 'appointments:view',
+  reports: 'reports:view',
+};
+
+export function hasPermission(
+  role: Role | undefined,
+  permission: Permission
+): boolean {
+  return role ? PERMISSION_MATRIX[role].includes(permission) : false;
+}
+
+export function getRoutePermission(segments: string[]): Permission | null {
+  const route = segments.find((segment) => !segment.startsWith('('));
+  return (route && ROUTE_PERMISSIONS[route]) || null;
+}
@@ -0,0 +1,86 @@
+import * as Crypto from 'expo-crypto';
+import { SecureStorage } from './secure-storage';
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+const pinKey = (userId: string) => `lock_pin_${userId}`;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${salt}:${pin}`
+  );
+
+export const PinStorage = {
+  async hasPin(userId: string): Promise<boolean> {
+    return (await SecureStorage.getItemAsync(pinKey(userId))) !== null;
+  },
+
+  async setPin(userId: string, pin: string): Promise<void> {
+    const salt = toHex(Crypto.getRandomBytes(16));
+    const hash = await hashPin(pin, salt);
+    const stored: StoredPin = { salt, hash };
+
+    await SecureStorage.setItemAsync(pinKey(userId), JSON.stringify(stored));
+  },
+
+  async verifyPin(userId: string, pin: string): Promise<boolean> {
+    const value = await SecureStorage.getItemAsync(pinKey(userId));
+
+    if (!value) {
+      return false;
+    }
+
+    const stored: StoredPin = JSON.parse(value);
+    return (await hashPin(pin, stored.salt)) === stored.hash;
+  },
+
+  async clearPin(userId: string): Promise<void> {
+    await SecureStorage.deleteItemAsync(pinKey(userId));
+  },
+};
+
+// Whether the app was locked, kept so restarting it doesn't lift the lock or
+// reset the attempt count. A password sign-in clears it.
+export interface LockState {
+  locked: boolean;
+  failedAttempts: number;
+}
+
+const UNLOCKED: LockState = { locked: false, failedAttempts: 0 };
+
+const lockStateKey = (userId: string) => `lock_state_${userId}`;
+
+export const LockStateStorage = {
+  async get(userId: string): Promise<LockState> {
+    const value = await SecureStorage.getItemAsync(lockStateKey(userId));
+
+    if (!value) {
+      return UNLOCKED;
+    }
+
+    try {
+      return { ...UNLOCKED, ...JSON.parse(value) };
+    } catch (error) {
+      console.error('Error reading lock state:', error);
+      return UNLOCKED;
+    }
+  },
+
+  async set(userId: string, state: LockState): Promise<void> {
+    await SecureStorage.setItemAsync(
+      lockStateKey(userId),
+      JSON.stringify(state)
+    );
+  },
+
+  async clear(userId: string): Promise<void> {
+    await SecureStorage.deleteItemAsync(lockStateKey(userId));
+  },
+};
@@ -0,0 +1,211 @@
+import { Appointment, RecurrenceRule } from '@/types';
+import { toDateKey } from './scheduling';
+
+export type RecurrencePreset =
+  'none' | 'daily' | 'weekly' | 'every-n-weeks' | 'monthly';
+
+export type SeriesEditScope = 'this' | 'following' | 'series';
+
+// Keeps a runaway rule from booking a doctor's whole year
+export const MAX_OCCURRENCES = 52;
+
+export const RECURRENCE_PRESETS: { value: RecurrencePreset; label: string }[] =
+  [
+    { value: 'none', label: 'Does not repeat' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'every-n-weeks', label: 'Every N weeks' },
+    { value: 'monthly', label: 'Monthly' },
+  ];
+
+export const SERIES_EDIT_SCOPES: { value: SeriesEditScope; label: string }[] = [
+  { value: 'this', label: 'This occurrence' },
+  { value: 'following', label: 'This and following' },
+  { value: 'series', label: 'Entire series' },
+];
+
+export const parseDateKey = (date: string) => {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const shiftDateKey = (date: string, days: number) => {
+  const result = parseDateKey(date);
+  result.setDate(result.getDate() + days);
+  return toDateKey(result);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000
+  );
+
+export const createSeriesId = () =>
+  `series-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export function presetToRule(
+  preset: RecurrencePreset,
+  weeks: number
+): Omit<RecurrenceRule, 'until' | 'count'> | null {
+  switch (preset) {
+    case 'none':
+      return null;
+    case 'daily':
+      return { frequency: 'daily', interval: 1 };
+    case 'weekly':
+      return { frequency: 'weekly', interval: 1 };
+    case 'every-n-weeks':
+      return { frequency: 'weekly', interval: weeks };
+    case 'monthly':
+      return { frequency: 'monthly', interval: 1 };
+  }
+}
+
+// Monthly rules keep the start's day of the month, falling back to the last
+// day in shorter months so the 31st still books every month
+function nthOccurrence(start: Date, rule: RecurrenceRule, index: number) {
+  const step = index * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + step
+      );
+    case 'weekly':
+      return new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + step * 7
+      );
+    case 'monthly': {
+      const lastDay = new Date(
+        start.getFullYear(),
+        start.getMonth() + step + 1,
+        0
+      ).getDate();
+      return new Date(
+        start.getFullYear(),
+        start.getMonth() + step,
+        Math.min(start.getDate(), lastDay)
+      );
+    }
+  }
+}
+
+export function getOccurrenceDates(
+  rule: RecurrenceRule,
+  startDate: string
+): string[] {
+  const start = parseDateKey(startDate);
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let index = 0; dates.length < limit; index++) {
+    const date = toDateKey(nthOccurrence(start, rule, index));
+    if (rule.until && date > rule.until) {
+      break;
+    }
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+// Returns why the rule cannot be used, or null when it is valid
+export function validateRecurrence(
+  rule: RecurrenceRule,
+  startDate: string
+): string | null {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return 'Enter how many weeks apart the appointments are';
+  }
+
+  if (!rule.until && !rule.count) {
+    return 'Choose when the series ends';
+  }
+
+  if (rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 2) {
+      return 'A series needs at least 2 occurrences';
+    }
+    if (rule.count > MAX_OCCURRENCES) {
+      return `A series can have at most ${MAX_OCCURRENCES} occurrences`;
+    }
+  }
+
+  if (rule.until) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) {
+      return 'Enter the end date as YYYY-MM-DD';
+    }
+    if (rule.until <= startDate) {
+      return 'The end date must be after the first appointment';
+    }
+  }
+
+  return null;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[
+    rule.frequency
+  ];
+  const every =
+    rule.interval === 1
+      ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }[rule.frequency]
+      : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.count) {
+    return `${every}, ${rule.count} times`;
+  }
+
+  return rule.until
+    ? `${every} until ${parseDateKey(rule.until).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })}`
+    : every;
+}
+
+// "This and following" ends the original rule the day before the split and
+// hands what is left of it to the split-off occurrences
+export function splitRecurrence(
+  rule: RecurrenceRule,
+  splitDate: string,
+  followingCount: number
+): { before: RecurrenceRule; after: RecurrenceRule } {
+  return {
+    before: {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      until: shiftDateKey(splitDate, -1),
+    },
+    after: rule.count ? { ...rule, count: followingCount } : rule,
+  };
+}
+
+// The occurrences an edit applies to, in date order
+export function selectSeriesScope(
+  series: Appointment[],
+  appointment: Appointment,
+  scope: SeriesEditScope
+): Appointment[] {
+  const sorted = [...series].sort((a, b) =>
+    `${a.date.split('T')[0]} ${a.time}`.localeCompare(
+      `${b.date.split('T')[0]} ${b.time}`
+    )
+  );
+
+  switch (scope) {
+    case 'this':
+      return [appointment];
+    case 'following':
+      return sorted.filter(
+        ({ date }) => date.split('T')[0] >= appointment.date.split('T')[0]
+      );
+    case 'series':
+      return sorted;
+  }
+}
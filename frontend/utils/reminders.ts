@@ -0,0 +1,281 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Appointment } from '@/types';
+import { parseDateKey } from './recurrence';
+import { timeToMinutes, toDateKey } from './scheduling';
+
+const REMINDER_PREFERENCES_STORAGE_KEY = '@reminder_preferences';
+const ANDROID_CHANNEL_ID = 'appointment-reminders';
+
+// iOS keeps at most 64 pending notifications per app; stay under it so the
+// soonest reminders are never the ones dropped
+const MAX_SCHEDULED = 60;
+// Reminders and digests are scheduled this many days ahead
+export const REMINDER_WINDOW_DAYS = 7;
+
+export interface ReminderPreferences {
+  enabled: boolean;
+  // Minutes before each appointment to remind, largest first
+  leadTimes: number[];
+  digestEnabled: boolean;
+  // Local time the day's schedule is delivered
+  digestTime: string;
+}
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  enabled: false,
+  leadTimes: [60],
+  digestEnabled: true,
+  digestTime: '07:30',
+};
+
+// Presets keep the picker short; values are lead times joined by commas
+export const LEAD_TIME_OPTIONS = [
+  { value: '15', label: '15 minutes before' },
+  { value: '30', label: '30 minutes before' },
+  { value: '60', label: '1 hour before' },
+  { value: '60,15', label: '1 hour and 15 minutes before' },
+  { value: '1440,60', label: '1 day and 1 hour before' },
+];
+
+export const DIGEST_TIME_OPTIONS = [
+  '06:00',
+  '06:30',
+  '07:00',
+  '07:30',
+  '08:00',
+];
+
+// Only bookings that are still expected get reminders
+const REMINDED_STATUSES: Appointment['status'][] = ['scheduled', 'confirmed'];
+
+export const remindersSupported = Platform.OS !== 'web';
+
+export const leadTimesKey = (leadTimes: number[]) => leadTimes.join(',');
+
+export const describeLeadTimes = (leadTimes: number[]) =>
+  LEAD_TIME_OPTIONS.find(({ value }) => value === leadTimesKey(leadTimes))
+    ?.label ?? `${leadTimes.join(', ')} minutes before`;
+
+const formatLead = (minutes: number) => {
+  if (minutes >= 1440) {
+    return 'tomorrow';
+  }
+  return minutes >= 60 ? `in ${minutes / 60} h` : `in ${minutes} min`;
+};
+
+const startOf = (appointment: Appointment) => {
+  const start = parseDateKey(appointment.date);
+  start.setMinutes(timeToMinutes(appointment.time));
+  return start;
+};
+
+const atTime = (date: Date, time: string) => {
+  const next = new Date(date);
+  next.setHours(0, timeToMinutes(time), 0, 0);
+  return next;
+};
+
+const reminderId = (appointmentId: string, lead: number) =>
+  `reminder-${appointmentId}-${lead}`;
+
+const allLeadTimes = [
+  ...new Set(
+    LEAD_TIME_OPTIONS.flatMap(({ value }) => value.split(',').map(Number))
+  ),
+];
+
+interface PlannedNotification {
+  identifier: string;
+  date: Date;
+  content: Notifications.NotificationContentInput;
+}
+
+function planReminders(
+  appointment: Appointment,
+  { leadTimes }: ReminderPreferences,
+  now: number
+): PlannedNotification[] {
+  if (!REMINDED_STATUSES.includes(appointment.status)) {
+    return [];
+  }
+
+  const start = startOf(appointment).getTime();
+
+  return leadTimes
+    .map((lead) => ({
+      identifier: reminderId(appointment.id, lead),
+      date: new Date(start - lead * 60000),
+      content: {
+        title: `Upcoming appointment at ${appointment.time}`,
+        body: `Starts ${formatLead(lead)}, ${appointment.duration} min`,
+        data: { appointmentId: appointment.id },
+      },
+    }))
+    .filter(({ date }) => date.getTime() > now);
+}
+
+function planDigests(
+  appointments: Appointment[],
+  { digestTime }: ReminderPreferences,
+  now: number
+): PlannedNotification[] {
+  const today = new Date(now);
+
+  return Array.from({ length: REMINDER_WINDOW_DAYS }, (_, offset) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() + offset);
+    const dateKey = toDateKey(day);
+    const booked = appointments
+      .filter(
+        (appointment) =>
+          appointment.date.split('T')[0] === dateKey &&
+          REMINDED_STATUSES.includes(appointment.status)
+      )
+      .sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+
+    return {
+      identifier: `digest-${dateKey}`,
+      date: atTime(day, digestTime),
+      content: {
+        title:
+          booked.length === 0
+            ? 'No appointments today'
+            : `${booked.length} ${booked.length === 1 ? 'appointment' : 'appointments'} today`,
+        body:
+          booked.length === 0
+            ? 'Your schedule is clear.'
+            : booked.map(({ time }) => time).join(', '),
+        data: { digest: dateKey },
+      },
+    };
+  }).filter(({ date }) => date.getTime() > now);
+}
+
+const schedule = ({ identifier, date, content }: PlannedNotification) =>
+  Notifications.scheduleNotificationAsync({
+    identifier,
+    content,
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date,
+      channelId: ANDROID_CHANNEL_ID,
+    },
+  });
+
+// Schedules on-device reminders and morning digests for a clinician. Nothing
+// is sent through a push service; everything lives in the OS scheduler.
+// Notification text never names the patient since it shows on the lock screen.
+export const Reminders = {
+  async requestPermission(): Promise<boolean> {
+    if (!remindersSupported) {
+      return false;
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Appointment reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+        lockscreenVisibility:
+          Notifications.AndroidNotificationVisibility.PRIVATE,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) {
+      return true;
+    }
+
+    return (await Notifications.requestPermissionsAsync()).granted;
+  },
+
+  // Replaces everything scheduled with reminders for these appointments
+  async sync(
+    appointments: Appointment[],
+    preferences: ReminderPreferences
+  ): Promise<void> {
+    if (!remindersSupported) {
+      return;
+    }
+
+    await Notifications.cancelAllScheduledNotificationsAsync();
+
+    if (!preferences.enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    const planned = [
+      ...(preferences.digestEnabled
+        ? planDigests(appointments, preferences, now)
+        : []),
+      ...appointments.flatMap((appointment) =>
+        planReminders(appointment, preferences, now)
+      ),
+    ]
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(0, MAX_SCHEDULED);
+
+    await Promise.all(planned.map(schedule));
+  },
+
+  // Reschedules one appointment after it was changed, without a full sync
+  async update(
+    appointment: Appointment,
+    preferences: ReminderPreferences
+  ): Promise<void> {
+    await Reminders.cancel(appointment.id);
+
+    if (!remindersSupported || !preferences.enabled) {
+      return;
+    }
+
+    await Promise.all(
+      planReminders(appointment, preferences, Date.now()).map(schedule)
+    );
+  },
+
+  async cancel(appointmentId: string): Promise<void> {
+    if (!remindersSupported) {
+      return;
+    }
+
+    await Promise.all(
+      allLeadTimes.map((lead) =>
+        Notifications.cancelScheduledNotificationAsync(
+          reminderId(appointmentId, lead)
+        )
+      )
+    );
+  },
+
+  async clear(): Promise<void> {
+    if (remindersSupported) {
+      await Notifications.cancelAllScheduledNotificationsAsync();
+    }
+  },
+};
+
+export const ReminderPreferencesStorage = {
+  async load(): Promise<ReminderPreferences> {
+    try {
+      const stored = await AsyncStorage.getItem(
+        REMINDER_PREFERENCES_STORAGE_KEY
+      );
+      return stored
+        ? { ...DEFAULT_REMINDER_PREFERENCES, ...JSON.parse(stored) }
+        : DEFAULT_REMINDER_PREFERENCES;
+    } catch (error) {
+      console.error('Error loading reminder preferences:', error);
+      return DEFAULT_REMINDER_PREFERENCES;
+    }
+  },
+
+  async save(preferences: ReminderPreferences): Promise<void> {
+    await AsyncStorage.setItem(
+      REMINDER_PREFERENCES_STORAGE_KEY,
+      JSON.stringify(preferences)
+    );
+  },
+};
@@ -0,0 +1,305 @@
+import { PatientSummary, ReportData } from '@/types';
+import { ReportRange, compareMetric, percentOf } from './reports';
+
+// Tabular report exports. Spreadsheets are written as SpreadsheetML, the XML
+// workbook format Excel, Numbers, LibreOffice and Google Sheets all open,
+// which keeps numbers typed and each table on its own sheet without needing
+// a zip library for .xlsx.
+
+export type ExportFormat = 'csv' | 'spreadsheet' | 'print';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'spreadsheet', label: 'Excel Workbook (.xls)' },
+  { value: 'print', label: 'Printable Report (print or save as PDF)' },
+];
+
+export const CSV_MIME_TYPE = 'text/csv';
+export const CSV_UTI = 'public.comma-separated-values-text';
+export const SPREADSHEET_MIME_TYPE = 'application/vnd.ms-excel';
+export const SPREADSHEET_UTI = 'com.microsoft.excel.xls';
+
+export type ReportCell = string | number | null;
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+// The figures a report export is built from
+export interface ReportExportData {
+  report: ReportData;
+  // Present when the report is being compared with an earlier range
+  previous?: ReportData;
+  compareLabel?: string;
+  // Revenue is left out unless the exporter holds reports:revenue
+  canViewRevenue: boolean;
+}
+
+const completionRate = (report: ReportData) =>
+  percentOf(report.completedAppointments, report.totalAppointments);
+
+export function summaryTable({
+  report,
+  previous,
+  compareLabel = 'Comparison',
+  canViewRevenue,
+}: ReportExportData): ReportTable {
+  const metrics: [string, number, number | undefined, 'count' | 'points'][] = [
+    ['Total patients', report.totalPatients, previous?.totalPatients, 'count'],
+    ['New patients', report.newPatients, previous?.newPatients, 'count'],
+    [
+      'Appointments',
+      report.totalAppointments,
+      previous?.totalAppointments,
+      'count',
+    ],
+    [
+      'Completed appointments',
+      report.completedAppointments,
+      previous?.completedAppointments,
+      'count',
+    ],
+    [
+      'Cancelled or missed appointments',
+      report.cancelledAppointments,
+      previous?.cancelledAppointments,
+      'count',
+    ],
+    [
+      'Completion rate (%)',
+      completionRate(report),
+      previous && completionRate(previous),
+      'points',
+    ],
+  ];
+  if (canViewRevenue && report.revenue !== undefined) {
+    metrics.push(['Revenue', report.revenue, previous?.revenue, 'count']);
+  }
+  if (report.satisfaction !== undefined) {
+    metrics.push([
+      'Satisfaction (%)',
+      report.satisfaction,
+      previous?.satisfaction,
+      'points',
+    ]);
+  }
+
+  return {
+    title: 'Summary',
+    columns: previous
+      ? ['Metric', 'Value', compareLabel, 'Change']
+      : ['Metric', 'Value'],
+    rows: metrics.map(([label, value, earlier, unit]) =>
+      previous
+        ? [
+            label,
+            value,
+            earlier ?? null,
+            earlier === undefined
+              ? null
+              : compareMetric(value, earlier, unit).label,
+          ]
+        : [label, value]
+    ),
+  };
+}
+
+export function trendsTable({
+  report,
+  previous,
+  compareLabel = 'Comparison',
+}: ReportExportData): ReportTable {
+  return {
+    title: 'Appointment Trends',
+    columns: [
+      'Period',
+      'From',
+      'To',
+      'Scheduled',
+      'Completed',
+      'Cancelled',
+      'Total',
+      ...(previous ? [`Total, ${compareLabel.toLowerCase()}`] : []),
+    ],
+    rows: report.appointmentTrends.map((trend, index) => [
+      trend.label,
+      trend.dateFrom,
+      trend.dateTo,
+      trend.scheduled,
+      trend.completed,
+      trend.cancelled,
+      trend.total,
+      ...(previous ? [previous.appointmentTrends[index]?.total ?? null] : []),
+    ]),
+  };
+}
+
+export function demographicsTable({ report }: ReportExportData): ReportTable {
+  const seen = report.demographics.gender.reduce(
+    (total, { count }) => total + count,
+    0
+  );
+  const rows = (group: string, counts: ReportData['conditions']) =>
+    counts.map(({ label, count }) => [
+      group,
+      label,
+      count,
+      percentOf(count, seen),
+    ]);
+
+  return {
+    title: 'Demographics',
+    columns: ['Group', 'Category', 'Patients', 'Share (%)'],
+    rows: [
+      ...rows('Gender', report.demographics.gender),
+      ...rows('Age', report.demographics.ageBands),
+    ],
+  };
+}
+
+export function conditionsTable({
+  report,
+  previous,
+  compareLabel = 'Comparison',
+}: ReportExportData): ReportTable {
+  return {
+    title: 'Conditions',
+    columns: [
+      'Condition',
+      'Patients',
+      ...(previous ? [`Patients, ${compareLabel.toLowerCase()}`] : []),
+    ],
+    rows: report.conditions.map(({ label, count }) => [
+      label,
+      count,
+      ...(previous
+        ? [
+            previous.conditions.find(
+              (condition) =>
+                condition.label.toLowerCase() === label.toLowerCase()
+            )?.count ?? 0,
+          ]
+        : []),
+    ]),
+  };
+}
+
+export const patientSummaryTable = (
+  patients: PatientSummary[]
+): ReportTable => ({
+  title: 'Patient Summary',
+  columns: [
+    'Patient',
+    'Gender',
+    'Age',
+    'Appointments',
+    'Completed',
+    'Cancelled or missed',
+    'Last visit',
+    'Conditions',
+  ],
+  rows: patients.map((patient) => [
+    patient.name,
+    patient.gender,
+    patient.age,
+    patient.visits,
+    patient.completed,
+    patient.missed,
+    patient.lastVisit,
+    patient.conditions.join('; '),
+  ]),
+});
+
+// ---------------------------------------------------------------------------
+// CSV
+
+// Spreadsheets run cells that start like a formula, so text from patient
+// records is defused before it is written. Signed changes such as +12% or
+// -3 pts are left readable.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const SIGNED_CHANGE = /^[+-]\d[\d.,]*(%| pts)?$/;
+
+const csvCell = (cell: ReportCell) => {
+  if (cell === null) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    return String(cell);
+  }
+  const text =
+    FORMULA_PREFIX.test(cell) && !SIGNED_CHANGE.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+// Several tables go one after another, each under its title. The byte order
+// mark lets Excel read the file as UTF-8.
+export function buildCsv(tables: ReportTable[]): string {
+  const sections = tables.map(({ title, columns, rows }) =>
+    [...(tables.length > 1 ? [[title]] : []), columns, ...rows]
+      .map((row) => row.map(csvCell).join(','))
+      .join('\r\n')
+  );
+  return `\uFEFF${sections.join('\r\n\r\n')}\r\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Spreadsheet
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const sheetName = (title: string) =>
+  title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+const xmlCell = (cell: ReportCell, style?: string) => {
+  const styleAttribute = style ? ` ss:StyleID="${style}"` : '';
+  if (cell === null) {
+    return `<Cell${styleAttribute}/>`;
+  }
+  return typeof cell === 'number'
+    ? `<Cell${styleAttribute}><Data ss:Type="Number">${cell}</Data></Cell>`
+    : `<Cell${styleAttribute}><Data ss:Type="String">${escapeXml(cell)}</Data></Cell>`;
+};
+
+export function buildSpreadsheet(tables: ReportTable[]): string {
+  const sheets = tables.map(({ title, columns, rows }) =>
+    [
+      `<Worksheet ss:Name="${escapeXml(sheetName(title))}">`,
+      '<Table>',
+      `<Row>${columns.map((column) => xmlCell(column, 'header')).join('')}</Row>`,
+      ...rows.map(
+        (row) => `<Row>${row.map((cell) => xmlCell(cell)).join('')}</Row>`
+      ),
+      '</Table>',
+      '</Worksheet>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>',
+    ...sheets,
+    '</Workbook>',
+  ].join('\n');
+}
+
+export const reportFilename = (
+  label: string,
+  { dateFrom, dateTo }: ReportRange,
+  extension: string
+) =>
+  `${label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')}-${dateFrom}-to-${dateTo}.${extension}`;
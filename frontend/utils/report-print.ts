@@ -0,0 +1,407 @@
+import { Theme } from '@/contexts/ThemeContext';
+import { ReportCount } from '@/types';
+import {
+  ChartSeries,
+  ChartSlice,
+  arcPath,
+  chartPalette,
+  formatCount,
+  labelStride,
+  niceTicks,
+  seriesMax,
+} from './charts';
+import { ReportRange, formatReportRange, percentOf } from './reports';
+import {
+  ReportExportData,
+  ReportTable,
+  conditionsTable,
+  demographicsTable,
+  trendsTable,
+} from './report-export';
+
+// Printable reports are a single self-contained HTML page: charts are inline
+// SVG and the styles print cleanly on A4 or Letter, so the browser's print
+// dialog can send it to paper or save it as a PDF.
+
+export const HTML_MIME_TYPE = 'text/html';
+export const HTML_UTI = 'public.html';
+
+export const CLINIC_NAME =
+  process.env.EXPO_PUBLIC_CLINIC_NAME || 'Patient Dashboard Pro';
+
+// Paper is white whatever the app theme, so only the series colours come
+// from the theme
+const INK = { text: '#111827', muted: '#6B7280', rule: '#E5E7EB' };
+
+const CHART_WIDTH = 640;
+
+export interface PrintSection {
+  title: string;
+  // Inline SVG markup
+  chart?: string;
+  table?: ReportTable;
+}
+
+export interface PrintableReport {
+  title: string;
+  range: ReportRange;
+  compareRange?: ReportRange | null;
+  preparedBy?: string;
+  sections: PrintSection[];
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const svgText = (
+  x: number,
+  y: number,
+  text: string,
+  anchor: 'start' | 'middle' | 'end' = 'start',
+  color = INK.muted
+) =>
+  `<text x="${x}" y="${y}" font-size="10" fill="${color}" text-anchor="${anchor}">${escapeHtml(text)}</text>`;
+
+const legend = (items: { label: string; color: string; dashed?: boolean }[]) =>
+  `<div class="legend">${items
+    .map(
+      ({ label, color, dashed }) =>
+        `<span><i style="${dashed ? `border: 1.5px dashed ${color}` : `background: ${color}`}"></i>${escapeHtml(label)}</span>`
+    )
+    .join('')}</div>`;
+
+// Stacked columns with optional dashed lines over them, like the trends chart
+// on screen
+export function barChartSvg(
+  labels: string[],
+  series: ChartSeries[],
+  overlay: ChartSeries[] = []
+): string {
+  const height = 220;
+  const padding = { top: 10, right: 10, bottom: 24, left: 40 };
+  const plotWidth = CHART_WIDTH - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const ticks = niceTicks(
+    Math.max(seriesMax(series, true), seriesMax(overlay))
+  );
+  const top = ticks[ticks.length - 1];
+  const band = plotWidth / Math.max(1, labels.length);
+  const barWidth = Math.min(32, band * 0.6);
+  const center = (index: number) => padding.left + band * (index + 0.5);
+  const y = (value: number) =>
+    padding.top + plotHeight - (value / top) * plotHeight;
+  const stride = labelStride(labels.length, 12);
+
+  const grid = ticks.map(
+    (tick) =>
+      `<line x1="${padding.left}" x2="${CHART_WIDTH - padding.right}" y1="${y(tick)}" y2="${y(tick)}" stroke="${INK.rule}"/>` +
+      svgText(padding.left - 6, y(tick) + 3, formatCount(tick), 'end')
+  );
+  const bars = labels.map((label, index) => {
+    let offset = 0;
+    return (
+      series
+        .map(({ color, values }) => {
+          const value = values[index] ?? 0;
+          const rect = `<rect x="${center(index) - barWidth / 2}" y="${y(offset + value)}" width="${barWidth}" height="${y(offset) - y(offset + value)}" fill="${color}"/>`;
+          offset += value;
+          return value > 0 ? rect : '';
+        })
+        .join('') +
+      (index % stride === 0
+        ? svgText(center(index), height - 8, label, 'middle')
+        : '')
+    );
+  });
+  const lines = overlay.map(
+    ({ color, values }) =>
+      `<path d="${values
+        .map(
+          (value, index) =>
+            `${index === 0 ? 'M' : 'L'} ${center(index)} ${y(value)}`
+        )
+        .join(
+          ' '
+        )}" stroke="${color}" stroke-width="1.5" stroke-dasharray="5 4" fill="none"/>`
+  );
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${height}" width="100%">${grid.join('')}${bars.join('')}${lines.join('')}</svg>${legend(
+    [...series, ...overlay]
+  )}`;
+}
+
+// One bar per category with its value at the end, for conditions
+export function rowChartSvg(
+  rows: ReportCount[],
+  color: string,
+  comparison?: { label: string; counts: number[] }
+): string {
+  const rowHeight = 30;
+  const labelWidth = 180;
+  const valueWidth = 40;
+  const barWidth = CHART_WIDTH - labelWidth - valueWidth;
+  const max = Math.max(
+    1,
+    ...rows.map(({ count }) => count),
+    ...(comparison?.counts ?? [])
+  );
+
+  const body = rows.map(({ label, count }, index) => {
+    const top = index * rowHeight;
+    const marker = comparison
+      ? `<line x1="${labelWidth + (barWidth * comparison.counts[index]) / max}" x2="${labelWidth + (barWidth * comparison.counts[index]) / max}" y1="${top + 6}" y2="${top + 24}" stroke="${INK.muted}" stroke-width="2"/>`
+      : '';
+    return (
+      svgText(0, top + 19, label, 'start', INK.text) +
+      `<rect x="${labelWidth}" y="${top + 10}" width="${barWidth}" height="10" rx="5" fill="${INK.rule}"/>` +
+      `<rect x="${labelWidth}" y="${top + 10}" width="${(barWidth * count) / max}" height="10" rx="5" fill="${color}"/>` +
+      marker +
+      svgText(CHART_WIDTH, top + 19, formatCount(count), 'end', INK.text)
+    );
+  });
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${rows.length * rowHeight}" width="100%">${body.join('')}</svg>${
+    comparison
+      ? legend([
+          { label: 'Patients', color },
+          { label: comparison.label, color: INK.muted },
+        ])
+      : ''
+  }`;
+}
+
+export function donutSvg(title: string, slices: ChartSlice[]): string {
+  const size = 160;
+  const center = size / 2;
+  const total = slices.reduce((sum, { value }) => sum + value, 0);
+  let angle = 0;
+  const arcs = slices.map(({ value, color }) => {
+    const start = angle;
+    angle += total > 0 ? (value / total) * Math.PI * 2 : 0;
+    return angle > start
+      ? `<path d="${arcPath(center, center, center - 4, (center - 4) * 0.62, start, angle)}" fill="${color}"/>`
+      : '';
+  });
+
+  return `<div class="donut"><svg viewBox="0 0 ${size} ${size}" width="${size}" height="${size}">${
+    total > 0
+      ? arcs.join('')
+      : `<circle cx="${center}" cy="${center}" r="${(center - 4) * 0.81}" stroke="${INK.rule}" stroke-width="${(center - 4) * 0.38}" fill="none"/>`
+  }${svgText(center, center + 2, formatCount(total), 'middle', INK.text)}${svgText(
+    center,
+    center + 16,
+    title,
+    'middle'
+  )}</svg><table class="donut-legend">${slices
+    .map(
+      ({ label, value, color }) =>
+        `<tr><td><i style="background: ${color}"></i>${escapeHtml(label)}</td><td>${formatCount(value)}</td><td>${percentOf(value, total)}%</td></tr>`
+    )
+    .join('')}</table></div>`;
+}
+
+// ---------------------------------------------------------------------------
+// Sections matching the charts on the reports screen
+
+export function trendsSection(
+  data: ReportExportData,
+  theme: Theme
+): PrintSection {
+  const trends = data.report.appointmentTrends;
+  const series: ChartSeries[] = [
+    {
+      key: 'scheduled',
+      label: 'Scheduled',
+      color: theme.colors.primary,
+      values: trends.map(({ scheduled }) => scheduled),
+    },
+    {
+      key: 'completed',
+      label: 'Completed',
+      color: theme.colors.success,
+      values: trends.map(({ completed }) => completed),
+    },
+    {
+      key: 'cancelled',
+      label: 'Cancelled',
+      color: theme.colors.error,
+      values: trends.map(({ cancelled }) => cancelled),
+    },
+  ];
+  const overlay: ChartSeries[] = data.previous
+    ? [
+        {
+          key: 'previous',
+          label: `Total, ${(data.compareLabel ?? 'comparison').toLowerCase()}`,
+          color: INK.muted,
+          values: trends.map(
+            (_, index) => data.previous!.appointmentTrends[index]?.total ?? 0
+          ),
+          dashed: true,
+        },
+      ]
+    : [];
+
+  return {
+    title: 'Appointment Trends',
+    chart: barChartSvg(
+      trends.map(({ label }) => label),
+      series,
+      overlay
+    ),
+    table: trendsTable(data),
+  };
+}
+
+export function demographicsSection(
+  data: ReportExportData,
+  theme: Theme
+): PrintSection {
+  const palette = chartPalette(theme);
+  const slices = (counts: ReportCount[], format = (label: string) => label) =>
+    counts.map(({ label, count }, index) => ({
+      key: label,
+      label: format(label),
+      value: count,
+      color: palette[index % palette.length],
+    }));
+
+  return {
+    title: 'Patient Demographics',
+    chart: `<div class="donuts">${donutSvg(
+      'Gender',
+      slices(data.report.demographics.gender)
+    )}${donutSvg(
+      'Age',
+      slices(data.report.demographics.ageBands, (label) => `${label} years`)
+    )}</div>`,
+    table: demographicsTable(data),
+  };
+}
+
+export function conditionsSection(
+  data: ReportExportData,
+  theme: Theme
+): PrintSection {
+  const { report, previous, compareLabel = 'Comparison' } = data;
+
+  return {
+    title: 'Most Common Conditions',
+    chart:
+      report.conditions.length > 0
+        ? rowChartSvg(
+            report.conditions,
+            theme.colors.primary,
+            previous
+              ? {
+                  label: compareLabel,
+                  counts: report.conditions.map(
+                    ({ label }) =>
+                      previous.conditions.find(
+                        (condition) =>
+                          condition.label.toLowerCase() === label.toLowerCase()
+                      )?.count ?? 0
+                  ),
+                }
+              : undefined
+          )
+        : undefined,
+    table: conditionsTable(data),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Page
+
+const tableHtml = ({ columns, rows }: ReportTable) =>
+  rows.length === 0
+    ? '<p class="empty">No data for this period.</p>'
+    : `<table class="data"><thead><tr>${columns
+        .map((column) => `<th>${escapeHtml(column)}</th>`)
+        .join('')}</tr></thead><tbody>${rows
+        .map(
+          (row) =>
+            `<tr>${row
+              .map((cell) =>
+                typeof cell === 'number'
+                  ? `<td class="number">${formatCount(cell)}</td>`
+                  : `<td>${escapeHtml(cell ?? '')}</td>`
+              )
+              .join('')}</tr>`
+        )
+        .join('')}</tbody></table>`;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: ${INK.text}; margin: 0; padding: 32px; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid ${INK.text}; padding-bottom: 12px; margin-bottom: 24px; }
+  header h1 { font-size: 22px; margin: 0; }
+  header h2 { font-size: 16px; font-weight: 500; margin: 4px 0 0; }
+  header p { font-size: 12px; color: ${INK.muted}; margin: 2px 0; text-align: right; }
+  section { margin-bottom: 28px; page-break-inside: avoid; break-inside: avoid; }
+  section h3 { font-size: 15px; margin: 0 0 12px; }
+  .legend { display: flex; flex-wrap: wrap; gap: 16px; justify-content: center; font-size: 11px; color: ${INK.muted}; margin-top: 6px; }
+  .legend i, .donut-legend i { display: inline-block; width: 10px; height: 10px; border-radius: 5px; margin-right: 6px; vertical-align: middle; }
+  .donuts { display: flex; flex-wrap: wrap; gap: 32px; }
+  .donut { display: flex; align-items: center; gap: 16px; }
+  .donut-legend { font-size: 12px; border-collapse: collapse; }
+  .donut-legend td { padding: 3px 8px 3px 0; }
+  table.data { width: 100%; border-collapse: collapse; font-size: 12px; margin-top: 12px; }
+  table.data th { text-align: left; border-bottom: 1px solid ${INK.text}; padding: 6px 8px 6px 0; }
+  table.data td { border-bottom: 1px solid ${INK.rule}; padding: 5px 8px 5px 0; }
+  table.data td.number { text-align: right; font-variant-numeric: tabular-nums; }
+  .empty { font-size: 12px; color: ${INK.muted}; }
+  .print { position: fixed; top: 16px; right: 16px; padding: 8px 16px; border: 0; border-radius: 6px; background: ${INK.text}; color: #FFFFFF; font-size: 13px; cursor: pointer; }
+  footer { font-size: 10px; color: ${INK.muted}; border-top: 1px solid ${INK.rule}; padding-top: 8px; }
+  @media print { body { padding: 0; } .print { display: none; } }
+  @page { margin: 16mm; }
+`;
+
+export function buildPrintableReport({
+  title,
+  range,
+  compareRange,
+  preparedBy,
+  sections,
+}: PrintableReport): string {
+  const generated = new Date().toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${title} - ${formatReportRange(range)}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print or save as PDF</button>
+<header>
+  <div>
+    <h1>${escapeHtml(CLINIC_NAME)}</h1>
+    <h2>${escapeHtml(title)}</h2>
+  </div>
+  <div>
+    <p>${escapeHtml(formatReportRange(range))}</p>
+    ${compareRange ? `<p>Compared with ${escapeHtml(formatReportRange(compareRange))}</p>` : ''}
+    <p>Generated ${escapeHtml(generated)}${preparedBy ? ` by ${escapeHtml(preparedBy)}` : ''}</p>
+  </div>
+</header>
+${sections
+  .map(
+    ({ title: sectionTitle, chart, table }) =>
+      `<section><h3>${escapeHtml(sectionTitle)}</h3>${chart ?? ''}${table ? tableHtml(table) : ''}</section>`
+  )
+  .join('\n')}
+<footer>Confidential. Prepared from ${escapeHtml(CLINIC_NAME)} records.</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,468 @@
+import {
+  Appointment,
+  AppointmentTrend,
+  Patient,
+  PatientSummary,
+  ReportCount,
+  ReportData,
+} from '@/types';
+import { daysBetween, parseDateKey, shiftDateKey } from './recurrence';
+import { toDateKey } from './scheduling';
+
+export type ReportPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export type ReportComparison = 'none' | 'previous' | 'last-year';
+
+export interface ReportRange {
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const REPORT_PERIODS: { value: ReportPeriod; label: string }[] = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+];
+
+export const REPORT_COMPARISONS: { value: ReportComparison; label: string }[] =
+  [
+    { value: 'none', label: 'No comparison' },
+    { value: 'previous', label: 'Previous period' },
+    { value: 'last-year', label: 'Same period last year' },
+  ];
+
+export interface ReportSelection {
+  period: ReportPeriod | 'custom';
+  // Only read when the period is custom
+  customRange: ReportRange;
+  comparison: ReportComparison;
+}
+
+// Longest custom range, which keeps the fallback aggregation to a sensible
+// number of appointment pages
+export const MAX_REPORT_DAYS = 731;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const AGE_BANDS = [
+  { label: '0-18', min: 0, max: 18 },
+  { label: '19-39', min: 19, max: 39 },
+  { label: '40-64', min: 40, max: 64 },
+  { label: '65+', min: 65, max: Infinity },
+];
+
+export const GENDER_LABELS: Record<Patient['gender'], string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+};
+
+// Only the most frequent conditions are charted
+const CONDITION_LIMIT = 5;
+
+export type TrendSeries = 'scheduled' | 'completed' | 'cancelled';
+
+// Statuses each trend series counts
+export const TREND_SERIES: Record<TrendSeries, Appointment['status'][]> = {
+  scheduled: ['scheduled', 'confirmed', 'checked-in', 'in-progress'],
+  completed: ['completed'],
+  cancelled: ['cancelled', 'no-show'],
+};
+
+// Rolling windows ending today, sized so each splits into whole buckets
+export function rangeForPeriod(
+  period: ReportPeriod,
+  today = new Date()
+): ReportRange {
+  const dateTo = toDateKey(today);
+
+  switch (period) {
+    case 'week':
+      return { dateFrom: shiftDateKey(dateTo, -6), dateTo };
+    case 'month':
+      return { dateFrom: shiftDateKey(dateTo, -27), dateTo };
+    case 'quarter':
+      return { dateFrom: shiftDateKey(dateTo, -90), dateTo };
+    case 'year':
+      return {
+        dateFrom: toDateKey(
+          new Date(today.getFullYear(), today.getMonth() - 11, 1)
+        ),
+        dateTo,
+      };
+  }
+}
+
+export function validateReportRange({
+  dateFrom,
+  dateTo,
+}: ReportRange): string | null {
+  const valid = (date: string) =>
+    DATE_PATTERN.test(date) && toDateKey(parseDateKey(date)) === date;
+
+  if (!valid(dateFrom) || !valid(dateTo)) {
+    return 'Use the format YYYY-MM-DD';
+  }
+  if (dateTo < dateFrom) {
+    return 'The end date must be on or after the start date';
+  }
+  if (daysBetween(dateFrom, dateTo) + 1 > MAX_REPORT_DAYS) {
+    return 'Ranges can be at most two years long';
+  }
+  return null;
+}
+
+// The same date a year earlier, with 29 February landing on the 28th
+const yearBefore = (date: string) => {
+  const day = parseDateKey(date);
+  const year = day.getFullYear() - 1;
+  const month = day.getMonth();
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return toDateKey(new Date(year, month, Math.min(day.getDate(), lastDay)));
+};
+
+// The previous period is the same number of days ending the day before
+export function comparisonRange(
+  range: ReportRange,
+  comparison: ReportComparison
+): ReportRange | null {
+  switch (comparison) {
+    case 'none':
+      return null;
+    case 'previous': {
+      const dateTo = shiftDateKey(range.dateFrom, -1);
+      return {
+        dateFrom: shiftDateKey(
+          dateTo,
+          -daysBetween(range.dateFrom, range.dateTo)
+        ),
+        dateTo,
+      };
+    }
+    case 'last-year':
+      return {
+        dateFrom: yearBefore(range.dateFrom),
+        dateTo: yearBefore(range.dateTo),
+      };
+  }
+}
+
+export const selectedRange = ({ period, customRange }: ReportSelection) =>
+  period === 'custom' ? customRange : rangeForPeriod(period);
+
+const shortDate = (date: string) =>
+  parseDateKey(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+
+// Days for up to two weeks, weeks up to four months, calendar months beyond
+export function trendBuckets({
+  dateFrom,
+  dateTo,
+}: ReportRange): Omit<
+  AppointmentTrend,
+  'scheduled' | 'completed' | 'cancelled' | 'total'
+>[] {
+  const days = daysBetween(dateFrom, dateTo) + 1;
+
+  if (days <= 14) {
+    return Array.from({ length: days }, (_, index) => {
+      const date = shiftDateKey(dateFrom, index);
+      return {
+        label:
+          days <= 7
+            ? parseDateKey(date).toLocaleDateString('en-US', {
+                weekday: 'short',
+              })
+            : shortDate(date),
+        dateFrom: date,
+        dateTo: date,
+      };
+    });
+  }
+
+  if (days <= 120) {
+    return Array.from({ length: Math.ceil(days / 7) }, (_, index) => {
+      const start = shiftDateKey(dateFrom, index * 7);
+      const end = shiftDateKey(start, 6);
+      return {
+        label: shortDate(start),
+        dateFrom: start,
+        dateTo: end < dateTo ? end : dateTo,
+      };
+    });
+  }
+
+  const buckets = [];
+  const first = parseDateKey(dateFrom);
+  for (
+    let month = new Date(first.getFullYear(), first.getMonth(), 1);
+    toDateKey(month) <= dateTo;
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+  ) {
+    const start = toDateKey(month);
+    const end = toDateKey(
+      new Date(month.getFullYear(), month.getMonth() + 1, 0)
+    );
+    buckets.push({
+      label: month.toLocaleDateString('en-US', { month: 'short' }),
+      dateFrom: start < dateFrom ? dateFrom : start,
+      dateTo: end < dateTo ? end : dateTo,
+    });
+  }
+  return buckets;
+}
+
+export const ageOn = (dateOfBirth: string, date: string) => {
+  const birth = parseDateKey(dateOfBirth);
+  const on = parseDateKey(date);
+  const birthdayPassed =
+    on.getMonth() > birth.getMonth() ||
+    (on.getMonth() === birth.getMonth() && on.getDate() >= birth.getDate());
+  return on.getFullYear() - birth.getFullYear() - (birthdayPassed ? 0 : 1);
+};
+
+// Conditions are matched case-insensitively and counted once per patient,
+// labelled with the first spelling seen
+export function countConditions(patients: Patient[]): ReportCount[] {
+  const counts = new Map<string, ReportCount>();
+
+  patients.forEach(({ medicalHistory = [] }) => {
+    const conditions = new Map(
+      medicalHistory
+        .map((condition) => condition.trim())
+        .filter(Boolean)
+        .map((condition) => [condition.toLowerCase(), condition])
+    );
+
+    conditions.forEach((condition, key) => {
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        counts.set(key, { label: condition, count: 1 });
+      }
+    });
+  });
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, CONDITION_LIMIT);
+}
+
+const dateOf = (appointment: Appointment) => appointment.date.split('T')[0];
+
+const inRangeOf = (date: string, { dateFrom, dateTo }: ReportRange) =>
+  date >= dateFrom && date <= dateTo;
+
+// The tests below decide what every report figure counts, and the filtered
+// lists a figure opens use the same ones so the two always agree
+
+// Seen means at least one appointment in the range that was not missed
+export const seenPatientIds = (
+  range: ReportRange,
+  appointments: Appointment[]
+) =>
+  new Set(
+    appointments
+      .filter(
+        (appointment) =>
+          inRangeOf(dateOf(appointment), range) &&
+          !TREND_SERIES.cancelled.includes(appointment.status)
+      )
+      .map(({ patientId }) => patientId)
+  );
+
+// Patients with no creation date predate the records, so count as registered
+export const registeredBy = ({ createdAt }: Patient, date: string) =>
+  !createdAt || createdAt.split('T')[0] <= date;
+
+export const registeredIn = ({ createdAt }: Patient, range: ReportRange) =>
+  !!createdAt && inRangeOf(createdAt.split('T')[0], range);
+
+export const inAgeBand = (
+  { dateOfBirth }: Patient,
+  { min, max }: (typeof AGE_BANDS)[number],
+  date: string
+) => {
+  if (!dateOfBirth) {
+    return false;
+  }
+  const age = ageOn(dateOfBirth, date);
+  return age >= min && age <= max;
+};
+
+export const hasCondition = (
+  { medicalHistory = [] }: Patient,
+  condition: string
+) =>
+  medicalHistory.some(
+    (entry) => entry.trim().toLowerCase() === condition.trim().toLowerCase()
+  );
+
+const countStatuses = (
+  appointments: Appointment[],
+  statuses: Appointment['status'][]
+) => appointments.filter(({ status }) => statuses.includes(status)).length;
+
+// Appointments per trend bucket, counted from the range's appointments
+export const computeTrends = (
+  range: ReportRange,
+  appointments: Appointment[]
+): AppointmentTrend[] =>
+  trendBuckets(range).map((bucket) => {
+    const bucketAppointments = appointments.filter((appointment) =>
+      inRangeOf(dateOf(appointment), bucket)
+    );
+    return {
+      ...bucket,
+      scheduled: countStatuses(bucketAppointments, TREND_SERIES.scheduled),
+      completed: countStatuses(bucketAppointments, TREND_SERIES.completed),
+      cancelled: countStatuses(bucketAppointments, TREND_SERIES.cancelled),
+      total: bucketAppointments.length,
+    };
+  });
+
+// The same aggregations the reports endpoint returns, worked out from the
+// full patient list and the range's appointments. Demographics and
+// conditions describe the patients seen in the range.
+export function computeReport(
+  range: ReportRange,
+  patients: Patient[],
+  appointments: Appointment[]
+): ReportData {
+  const inRange = appointments.filter((appointment) =>
+    inRangeOf(dateOf(appointment), range)
+  );
+  const seenIds = seenPatientIds(range, inRange);
+  const seen = patients.filter(({ id }) => seenIds.has(id));
+
+  return {
+    ...range,
+    // Registered by the end of the range, so earlier ranges compare fairly
+    totalPatients: patients.filter((patient) =>
+      registeredBy(patient, range.dateTo)
+    ).length,
+    newPatients: patients.filter((patient) => registeredIn(patient, range))
+      .length,
+    totalAppointments: inRange.length,
+    completedAppointments: countStatuses(inRange, TREND_SERIES.completed),
+    cancelledAppointments: countStatuses(inRange, TREND_SERIES.cancelled),
+    demographics: {
+      gender: (Object.keys(GENDER_LABELS) as Patient['gender'][]).map(
+        (gender) => ({
+          label: GENDER_LABELS[gender],
+          count: seen.filter((patient) => patient.gender === gender).length,
+        })
+      ),
+      ageBands: AGE_BANDS.map((band) => ({
+        label: band.label,
+        count: seen.filter((patient) => inAgeBand(patient, band, range.dateTo))
+          .length,
+      })),
+    },
+    appointmentTrends: computeTrends(range, inRange),
+    conditions: countConditions(seen),
+    computedLocally: true,
+  };
+}
+
+// Everyone with an appointment in the range, most frequent visitors first
+export function summarizePatients(
+  range: ReportRange,
+  patients: Patient[],
+  appointments: Appointment[]
+): PatientSummary[] {
+  const byPatient = new Map<string, Appointment[]>();
+  appointments.forEach((appointment) => {
+    if (inRangeOf(dateOf(appointment), range)) {
+      byPatient.set(appointment.patientId, [
+        ...(byPatient.get(appointment.patientId) ?? []),
+        appointment,
+      ]);
+    }
+  });
+
+  return [...byPatient.entries()]
+    .map(([patientId, visits]) => {
+      const patient = patients.find(({ id }) => id === patientId);
+      const attended = visits
+        .filter(({ status }) => !TREND_SERIES.cancelled.includes(status))
+        .map(dateOf)
+        .sort();
+
+      return {
+        patientId,
+        name: patient
+          ? `${patient.firstName} ${patient.lastName}`
+          : visits[0].patientName,
+        gender: patient?.gender ?? 'other',
+        age: patient?.dateOfBirth
+          ? ageOn(patient.dateOfBirth, range.dateTo)
+          : null,
+        visits: visits.length,
+        completed: visits.filter(({ status }) => status === 'completed').length,
+        missed: visits.filter(({ status }) =>
+          TREND_SERIES.cancelled.includes(status)
+        ).length,
+        lastVisit: attended[attended.length - 1] ?? null,
+        conditions: patient?.medicalHistory ?? [],
+      };
+    })
+    .sort((a, b) => b.visits - a.visits || a.name.localeCompare(b.name));
+}
+
+export const percentOf = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 100) : 0;
+
+export const formatReportRange = ({ dateFrom, dateTo }: ReportRange) => {
+  const from = parseDateKey(dateFrom);
+  const to = parseDateKey(dateTo);
+  const sameYear = from.getFullYear() === to.getFullYear();
+  const start = from.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: sameYear ? undefined : 'numeric',
+  });
+  const end = to.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return dateFrom === dateTo ? end : `${start} - ${end}`;
+};
+
+export interface ReportDelta {
+  direction: 'up' | 'down' | 'flat';
+  label: string;
+}
+
+// Counts change by a percentage of the earlier value, or by the raw amount
+// when there was nothing before. Rates change by percentage points.
+export function compareMetric(
+  current: number,
+  previous: number,
+  unit: 'count' | 'points' = 'count'
+): ReportDelta {
+  const change = current - previous;
+  const direction = change > 0 ? 'up' : change < 0 ? 'down' : 'flat';
+  const sign = change > 0 ? '+' : change < 0 ? '-' : '';
+
+  if (unit === 'points') {
+    return { direction, label: `${sign}${Math.abs(change)} pts` };
+  }
+  if (previous === 0) {
+    return { direction, label: `${sign}${Math.abs(change)}` };
+  }
+  return {
+    direction,
+    label: `${sign}${Math.round((Math.abs(change) / previous) * 100)}%`,
+  };
+}
+
+// Lines a comparison series up with the current buckets by position, since
+// the two ranges can differ by a day and so by a bucket
+export const alignValues = (values: number[], length: number) =>
+  Array.from({ length }, (_, index) => values[index] ?? 0);
@@ -0,0 +1,157 @@
+import { Appointment, DoctorAvailability } from '@/types';
+import { rangesOverlap, timeToMinutes } from './scheduling';
+
+export type ScheduleConflictKind =
+  'doctor-overlap' | 'patient-overlap' | 'buffer' | 'clinic-hours';
+
+export interface ScheduleConflict {
+  kind: ScheduleConflictKind;
+  // Errors block the booking; warnings can be acknowledged and booked anyway
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Clinic-wide, so every device books against the same rules
+export interface SchedulingRules {
+  // Minimum gap a doctor keeps between appointments
+  bufferMinutes: number;
+  clinicHours: { start: string; end: string };
+}
+
+export interface ProposedSlot {
+  // Set when an existing appointment is being moved
+  id?: string;
+  patientId: string;
+  doctorId: string;
+  date: string;
+  time: string;
+  duration: number;
+}
+
+export interface ScheduleContext {
+  // Everything booked on the slot's date, across doctors and patients
+  dayAppointments: Appointment[];
+  doctorAvailability?: DoctorAvailability;
+}
+
+export const BUFFER_OPTIONS = [0, 5, 10, 15, 30]; // minutes
+const hourOptions = (from: number, to: number) =>
+  Array.from(
+    { length: to - from + 1 },
+    (_, index) => `${String(from + index).padStart(2, '0')}:00`
+  );
+
+export const CLINIC_OPENING_OPTIONS = hourOptions(6, 12);
+export const CLINIC_CLOSING_OPTIONS = hourOptions(14, 22);
+
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+  bufferMinutes: 0,
+  clinicHours: { start: '08:00', end: '18:00' },
+};
+
+// Roles allowed to overbook may book through these; patient overlaps always
+// block and buffer conflicts are always only a warning
+const OVERRIDABLE_KINDS: ScheduleConflictKind[] = [
+  'doctor-overlap',
+  'clinic-hours',
+];
+
+// Appointments that no longer hold their slot
+const FREED_STATUSES: Appointment['status'][] = ['cancelled', 'no-show'];
+
+export class ScheduleConflictError extends Error {
+  conflicts: ScheduleConflict[];
+
+  constructor(conflicts: ScheduleConflict[]) {
+    super(conflicts.map(({ message }) => message).join('\n'));
+    this.name = 'ScheduleConflictError';
+    this.conflicts = conflicts;
+  }
+
+  get blocking() {
+    return isBlocking(this.conflicts);
+  }
+}
+
+export const isBlocking = (conflicts: ScheduleConflict[]) =>
+  conflicts.some(({ severity }) => severity === 'error');
+
+const severityFor = (
+  kind: ScheduleConflictKind,
+  canOverbook: boolean
+): ScheduleConflict['severity'] => {
+  if (kind === 'buffer') {
+    return 'warning';
+  }
+  return canOverbook && OVERRIDABLE_KINDS.includes(kind) ? 'warning' : 'error';
+};
+
+export function detectScheduleConflicts(
+  slot: ProposedSlot,
+  { dayAppointments, doctorAvailability }: ScheduleContext,
+  rules: SchedulingRules,
+  canOverbook: boolean
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const add = (kind: ScheduleConflictKind, message: string) =>
+    conflicts.push({ kind, severity: severityFor(kind, canOverbook), message });
+
+  const start = timeToMinutes(slot.time);
+  const end = start + slot.duration;
+  const others = dayAppointments.filter(
+    (appointment) =>
+      appointment.id !== slot.id &&
+      !FREED_STATUSES.includes(appointment.status) &&
+      appointment.date.split('T')[0] === slot.date
+  );
+
+  others.forEach((appointment) => {
+    const otherStart = timeToMinutes(appointment.time);
+    const otherEnd = otherStart + appointment.duration;
+    const overlaps = rangesOverlap(start, end, otherStart, otherEnd);
+
+    if (appointment.doctorId === slot.doctorId) {
+      if (overlaps) {
+        add(
+          'doctor-overlap',
+          `${appointment.doctorName} is already seeing ${appointment.patientName} at ${appointment.time}`
+        );
+      } else if (
+        rules.bufferMinutes > 0 &&
+        rangesOverlap(
+          start - rules.bufferMinutes,
+          end + rules.bufferMinutes,
+          otherStart,
+          otherEnd
+        )
+      ) {
+        add(
+          'buffer',
+          `Less than ${rules.bufferMinutes} minutes from ${appointment.patientName} at ${appointment.time}`
+        );
+      }
+    }
+
+    if (appointment.patientId === slot.patientId && overlaps) {
+      add(
+        'patient-overlap',
+        `${appointment.patientName} is already booked with ${appointment.doctorName} at ${appointment.time}`
+      );
+    }
+  });
+
+  const { start: opens, end: closes } = rules.clinicHours;
+  if (start < timeToMinutes(opens) || end > timeToMinutes(closes)) {
+    add('clinic-hours', `Outside clinic hours (${opens}–${closes})`);
+  } else if (doctorAvailability?.workingHours) {
+    const hours = doctorAvailability.workingHours;
+    if (start < timeToMinutes(hours.start) || end > timeToMinutes(hours.end)) {
+      add(
+        'clinic-hours',
+        `Outside the doctor's working hours (${hours.start}–${hours.end})`
+      );
+    }
+  }
+
+  return conflicts;
+}
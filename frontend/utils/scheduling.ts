@@ -0,0 +1,71 @@
+import { DoctorAvailability } from '@/types';
+
+export const DEFAULT_WORKING_HOURS = { start: '09:00', end: '17:00' };
+export const SLOT_INTERVAL_MINUTES = 15;
+export const APPOINTMENT_DURATIONS = [15, 30, 45, 60];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number) =>
+  `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const rangesOverlap = (
+  startA: number,
+  endA: number,
+  startB: number,
+  endB: number
+) => startA < endB && startB < endA;
+
+export function isSlotFree(
+  availability: DoctorAvailability | undefined,
+  time: string,
+  duration: number
+): boolean {
+  const hours = availability?.workingHours ?? DEFAULT_WORKING_HOURS;
+  const start = timeToMinutes(time);
+  const end = start + duration;
+
+  if (start < timeToMinutes(hours.start) || end > timeToMinutes(hours.end)) {
+    return false;
+  }
+
+  return !(availability?.bookedSlots ?? []).some((slot) => {
+    const bookedStart = timeToMinutes(slot.time);
+    return rangesOverlap(start, end, bookedStart, bookedStart + slot.duration);
+  });
+}
+
+// Start times on the slot grid where the whole appointment fits; times
+// already past are dropped when the date is today
+export function getFreeSlots(
+  availability: DoctorAvailability | undefined,
+  date: string,
+  duration: number,
+  now: Date = new Date()
+): string[] {
+  const hours = availability?.workingHours ?? DEFAULT_WORKING_HOURS;
+  const earliest =
+    date === toDateKey(now) ? now.getHours() * 60 + now.getMinutes() : 0;
+  const slots: string[] = [];
+
+  for (
+    let minutes = timeToMinutes(hours.start);
+    minutes + duration <= timeToMinutes(hours.end);
+    minutes += SLOT_INTERVAL_MINUTES
+  ) {
+    const time = minutesToTime(minutes);
+    if (minutes >= earliest && isSlotFree(availability, time, duration)) {
+      slots.push(time);
+    }
+  }
+
+  return slots;
+}
@@ -0,0 +1,99 @@
+import { Appointment } from '@/types';
+import { timeToMinutes, toDateKey } from './scheduling';
+
+export type VisitStatus = Appointment['status'];
+
+export const VISIT_STATUS_LABELS: Record<VisitStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  'checked-in': 'Checked In',
+  'in-progress': 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  'no-show': 'No-show',
+};
+
+// Order the day moves through, used for filters and the dashboard breakdown
+export const VISIT_STATUSES = Object.keys(VISIT_STATUS_LABELS) as VisitStatus[];
+
+// Still expected today and not yet through the door
+const AWAITED_STATUSES: VisitStatus[] = ['scheduled', 'confirmed'];
+
+export interface DoctorQueue {
+  doctorId: string;
+  doctorName: string;
+  inProgress: Appointment[];
+  // Checked in, longest wait first
+  waiting: Appointment[];
+  // Not arrived yet, in appointment order
+  expected: Appointment[];
+}
+
+export const isAwaited = (appointment: Appointment) =>
+  AWAITED_STATUSES.includes(appointment.status);
+
+export const canCheckIn = (
+  appointment: Appointment,
+  today = toDateKey(new Date())
+) => isAwaited(appointment) && appointment.date.split('T')[0] === today;
+
+// Whole minutes since check-in, or since the visit started once it has
+export const minutesSince = (timestamp: string | undefined, now: number) =>
+  timestamp
+    ? Math.max(Math.floor((now - new Date(timestamp).getTime()) / 60000), 0)
+    : 0;
+
+export const formatWait = (minutes: number) =>
+  minutes < 60
+    ? `${minutes} min`
+    : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+export const countByStatus = (appointments: Appointment[]) =>
+  appointments.reduce<Partial<Record<VisitStatus, number>>>(
+    (counts, { status }) => ({
+      ...counts,
+      [status]: (counts[status] ?? 0) + 1,
+    }),
+    {}
+  );
+
+const byCheckIn = (a: Appointment, b: Appointment) =>
+  (a.checkedInAt ?? '').localeCompare(b.checkedInAt ?? '');
+
+const byTime = (a: Appointment, b: Appointment) =>
+  timeToMinutes(a.time) - timeToMinutes(b.time);
+
+export function groupDoctorQueues(appointments: Appointment[]): DoctorQueue[] {
+  const queues = new Map<string, DoctorQueue>();
+
+  appointments.forEach((appointment) => {
+    const queue = queues.get(appointment.doctorId) ?? {
+      doctorId: appointment.doctorId,
+      doctorName: appointment.doctorName,
+      inProgress: [],
+      waiting: [],
+      expected: [],
+    };
+    queues.set(appointment.doctorId, queue);
+
+    if (appointment.status === 'in-progress') {
+      queue.inProgress.push(appointment);
+    } else if (appointment.status === 'checked-in') {
+      queue.waiting.push(appointment);
+    } else if (isAwaited(appointment)) {
+      queue.expected.push(appointment);
+    }
+  });
+
+  return [...queues.values()]
+    .map((queue) => ({
+      ...queue,
+      waiting: queue.waiting.sort(byCheckIn),
+      expected: queue.expected.sort(byTime),
+    }))
+    .filter(
+      ({ inProgress, waiting, expected }) =>
+        inProgress.length + waiting.length + expected.length > 0
+    )
+    .sort((a, b) => a.doctorName.localeCompare(b.doctorName));
+}
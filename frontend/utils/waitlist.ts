@@ -0,0 +1,179 @@
+import { Appointment, TimeWindow, User, WaitlistEntry } from '@/types';
+import { parseDateKey } from './recurrence';
+import { timeToMinutes } from './scheduling';
+
+// Only the strongest few are offered, so the choice stays quick at the desk
+export const MAX_OFFERS = 5;
+
+export const TIME_WINDOW_PRESETS: {
+  value: string;
+  label: string;
+  window: TimeWindow;
+}[] = [
+  {
+    value: 'morning',
+    label: 'Morning',
+    window: { start: '08:00', end: '12:00' },
+  },
+  {
+    value: 'afternoon',
+    label: 'Afternoon',
+    window: { start: '12:00', end: '17:00' },
+  },
+  {
+    value: 'evening',
+    label: 'Evening',
+    window: { start: '17:00', end: '20:00' },
+  },
+];
+
+export const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+// The time a cancellation gives back
+export interface FreedSlot {
+  doctorId: string;
+  doctorName: string;
+  date: string;
+  time: string;
+  duration: number;
+  // Whoever cancelled is not offered their own slot back
+  patientId: string;
+}
+
+export interface WaitlistMatch {
+  entry: WaitlistEntry;
+  // Why the slot suits this patient, for the offer list
+  reasons: string[];
+  score: number;
+}
+
+export const slotFromAppointment = ({
+  doctorId,
+  doctorName,
+  date,
+  time,
+  duration,
+  patientId,
+}: Appointment): FreedSlot => ({
+  doctorId,
+  doctorName,
+  date: date.split('T')[0],
+  time,
+  duration,
+  patientId,
+});
+
+// A slot that has already started is no use to anyone on the list
+export const isUpcomingSlot = (slot: FreedSlot, now = new Date()) => {
+  const start = parseDateKey(slot.date);
+  start.setMinutes(timeToMinutes(slot.time));
+  return start.getTime() > now.getTime();
+};
+
+export const windowLabel = ({ start, end }: TimeWindow) =>
+  TIME_WINDOW_PRESETS.find(
+    ({ window }) => window.start === start && window.end === end
+  )?.label ?? `${start}-${end}`;
+
+const windowContains = (window: TimeWindow, start: number, end: number) =>
+  start >= timeToMinutes(window.start) && end <= timeToMinutes(window.end);
+
+export const daysWaiting = (entry: WaitlistEntry, now = new Date()) =>
+  Math.max(
+    0,
+    Math.floor((now.getTime() - new Date(entry.createdAt).getTime()) / 86400000)
+  );
+
+// Every stated preference is a hard requirement. Among the entries that fit,
+// those who asked for exactly this doctor, day and time rank first, then
+// whoever has waited longest.
+export function rankWaitlist(
+  entries: WaitlistEntry[],
+  slot: FreedSlot,
+  now = new Date()
+): WaitlistMatch[] {
+  const start = timeToMinutes(slot.time);
+  const weekday = parseDateKey(slot.date).getDay();
+
+  return entries
+    .flatMap((entry) => {
+      const end = start + entry.duration;
+      const window = entry.timeWindows.find((candidate) =>
+        windowContains(candidate, start, end)
+      );
+
+      if (
+        entry.patientId === slot.patientId ||
+        entry.duration > slot.duration ||
+        (entry.doctorIds.length > 0 &&
+          !entry.doctorIds.includes(slot.doctorId)) ||
+        (entry.days.length > 0 && !entry.days.includes(weekday)) ||
+        (entry.timeWindows.length > 0 && !window)
+      ) {
+        return [];
+      }
+
+      const reasons = [];
+      let score = 0;
+      if (entry.doctorIds.length > 0) {
+        reasons.push(`Asked for ${slot.doctorName}`);
+        score += 2;
+      }
+      if (entry.days.length > 0) {
+        reasons.push(
+          `Prefers ${WEEKDAY_OPTIONS.find(({ value }) => value === weekday)!.label}`
+        );
+        score += 1;
+      }
+      if (window) {
+        reasons.push(`Prefers ${windowLabel(window).toLowerCase()}`);
+        score += 1;
+      }
+      const waited = daysWaiting(entry, now);
+      reasons.push(
+        waited === 0
+          ? 'Added today'
+          : `Waiting ${waited} ${waited === 1 ? 'day' : 'days'}`
+      );
+
+      return [{ entry, reasons, score }];
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(a.entry.createdAt).getTime() -
+          new Date(b.entry.createdAt).getTime()
+    )
+    .slice(0, MAX_OFFERS);
+}
+
+export function describePreferences(
+  entry: WaitlistEntry,
+  doctors: User[]
+): string[] {
+  const doctorNames = entry.doctorIds.map((id) => {
+    const doctor = doctors.find((candidate) => candidate.id === id);
+    return doctor
+      ? `Dr. ${doctor.firstName} ${doctor.lastName}`
+      : 'Unknown doctor';
+  });
+  const days = WEEKDAY_OPTIONS.filter(({ value }) => entry.days.includes(value))
+    .map(({ label }) => label)
+    .join(', ');
+
+  return [
+    doctorNames.length > 0 ? doctorNames.join(', ') : 'Any doctor',
+    days || 'Any day',
+    entry.timeWindows.length > 0
+      ? entry.timeWindows.map(windowLabel).join(', ')
+      : 'Any time',
+  ];
+}